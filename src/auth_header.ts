@@ -0,0 +1,156 @@
+/**
+ * `WWW-Authenticate` tokenizer following RFC 9110 §11 (`challenge`, `auth-param`, `token68`, `quoted-string`),
+ * with the leniency L402 servers need: `;` or plain whitespace between params, a comma straight after the
+ * scheme, unquoted values containing base64 characters, and unterminated quoted strings. It never throws;
+ * anything unparsable is skipped.
+ */
+
+export type AuthChallenge = {
+  /** As sent; compare case-insensitively. */
+  scheme: string;
+  token68?: string;
+  /** Lower-cased names, unescaped values. If a name repeats, the last value wins. */
+  params: Record<string, string>;
+};
+
+// tchar (RFC 9110 §5.6.2).
+const TCHAR = new Uint8Array(128);
+for (const c of "!#$%&'*+-.^_`|~0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ") TCHAR[c.charCodeAt(0)] = 1;
+
+// token68 characters, excluding the trailing `=` padding.
+const TOKEN68 = new Uint8Array(128);
+for (const c of '-._~+/0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ') TOKEN68[c.charCodeAt(0)] = 1;
+
+const isTchar = (code: number) => code < 128 && TCHAR[code] === 1;
+const isToken68 = (code: number) => code < 128 && TOKEN68[code] === 1;
+const isSpace = (ch: string) => ch === ' ' || ch === '\t';
+// Where an unquoted value ends. `;` is not RFC 9110, but common.
+const isDelimiter = (ch: string) => ch === ',' || ch === ';' || isSpace(ch);
+
+/** Parses a `WWW-Authenticate` (or `Proxy-Authenticate`) value, including several values joined with `,`. */
+export function parseAuthenticateHeader(value: string): AuthChallenge[] {
+  const s = typeof value === 'string' ? value : String(value ?? '');
+  const n = s.length;
+  const out: AuthChallenge[] = [];
+  let current: AuthChallenge | undefined;
+  let i = 0;
+
+  const skipSpace = (from: number) => {
+    let j = from;
+    while (j < n && isSpace(s[j])) j++;
+    return j;
+  };
+
+  const readToken = () => {
+    const start = i;
+    while (i < n && isTchar(s.charCodeAt(i))) i++;
+    return s.slice(start, i);
+  };
+
+  // Whether the list element after `from` starts with `name=`, i.e. is another auth-param.
+  const paramFollows = (from: number) => {
+    let j = from;
+    while (j < n && (s[j] === ',' || isSpace(s[j]))) j++;
+    const start = j;
+    while (j < n && isTchar(s.charCodeAt(j))) j++;
+    return j > start && s[skipSpace(j)] === '=';
+  };
+
+  // A token68 must fill the rest of its list element: `Basic dXNlcjpwYXNz==` but not `Basic realm=x`.
+  // `L402 macaroon=, invoice=x` is an empty param followed by another, not the token68 `macaroon=`.
+  const tryToken68 = () => {
+    let j = i;
+    while (j < n && isToken68(s.charCodeAt(j))) j++;
+    if (j === i) return undefined;
+    const padStart = j;
+    while (j < n && s[j] === '=') j++;
+    const end = skipSpace(j);
+    if (end < n && s[end] !== ',') return undefined;
+    if (j > padStart && end < n && paramFollows(end)) return undefined;
+    const token = s.slice(i, j);
+    i = end;
+    return token;
+  };
+
+  const readValue = () => {
+    i = skipSpace(i);
+    if (s[i] !== '"') {
+      const start = i;
+      while (i < n && !isDelimiter(s[i])) i++;
+      return s.slice(start, i);
+    }
+    // quoted-string; an unterminated one runs to the end of the header.
+    i++;
+    let v = '';
+    let start = i;
+    while (i < n && s[i] !== '"') {
+      if (s[i] === '\\' && i + 1 < n) {
+        // quoted-pair: keep the next character, whatever it is.
+        v += s.slice(start, i);
+        start = i + 1;
+        i += 2;
+        continue;
+      }
+      i++;
+    }
+    v += s.slice(start, i);
+    i++;
+    return v;
+  };
+
+  while (i < n) {
+    i = skipSpace(i);
+    if (i >= n) break;
+    if (s[i] === ',' || s[i] === ';') {
+      i++;
+      continue;
+    }
+
+    if (s[i] === '"') {
+      // Stray quoted-string: skip it whole, so its content isn't read as tokens.
+      readValue();
+      continue;
+    }
+    const token = readToken();
+    if (!token) {
+      // Stray character (`=`, `(`, non-ASCII, ...): skip it.
+      i++;
+      continue;
+    }
+
+    const afterToken = skipSpace(i);
+    if (s[afterToken] === '=' && current && !current.token68) {
+      i = afterToken + 1;
+      const name = token.toLowerCase();
+      const v = readValue();
+      if (name !== '__proto__') current.params[name] = v;
+      continue;
+    }
+    if (s[afterToken] === '=') {
+      // A parameter with no challenge to belong to: skip its value.
+      i = afterToken + 1;
+      readValue();
+      continue;
+    }
+
+    current = { scheme: token, params: {} };
+    out.push(current);
+    i = afterToken;
+    const token68 = i > 0 && isSpace(s[i - 1]) ? tryToken68() : undefined;
+    if (token68 !== undefined) current.token68 = token68;
+  }
+
+  return out;
+}
+
+const quote = (v: string) => `"${v.replace(/["\\]/g, '\\$&')}"`;
+
+/**
+ * Formats one challenge: `scheme token68` or `scheme name="value", ...`. Values are always quoted and escaped;
+ * they must not contain CR, LF or NUL, which no header can carry.
+ */
+export function formatAuthChallenge(challenge: { scheme: string; token68?: string; params?: Record<string, string> }): string {
+  if (challenge.token68 !== undefined) return `${challenge.scheme} ${challenge.token68}`;
+  const params = Object.entries(challenge.params || {}).map(([k, v]) => `${k}=${quote(v)}`);
+  return params.length ? `${challenge.scheme} ${params.join(', ')}` : challenge.scheme;
+}
@@ -0,0 +1,104 @@
+import { fetchWithL402, type FetchWithL402Options } from './index.js';
+
+/**
+ * 402 handling for axios-style clients, without depending on axios: a response error interceptor that
+ * runs the usual `fetchWithL402` flow, sending each retry through the client itself.
+ *
+ *   client.interceptors.response.use(undefined, createL402AxiosInterceptor(client, { pay }));
+ */
+
+/** The parts of an axios instance the interceptor uses. */
+export type AxiosLikeInstance = {
+  request(config: any): Promise<any>;
+  getUri?(config?: any): string;
+};
+
+/** Credential caching and body replay are left to the client; the rest matches `fetchWithL402`. */
+export type L402AxiosOptions = Omit<FetchWithL402Options, 'fetch' | 'tokenStore' | 'tokenKey' | 'maxReplayBodyBytes'>;
+
+// Marks retries so the interceptor hands their errors back to the flow that issued them.
+const RETRY_FLAG = '_l402Retry';
+
+const NULL_BODY_STATUS = new Set([101, 204, 205, 304]);
+
+/** Converts an axios response (already-parsed `data`, plain-object headers) into a fetch `Response`. */
+function toFetchResponse(res: any): Response {
+  const headers = new Headers();
+  const raw = typeof res.headers?.toJSON === 'function' ? res.headers.toJSON() : res.headers || {};
+  for (const [k, v] of Object.entries(raw)) {
+    if (v === undefined || v === null) continue;
+    headers.set(k, Array.isArray(v) ? v.join(', ') : String(v));
+  }
+
+  const data = res.data;
+  let body: BodyInit | null = null;
+  if (!NULL_BODY_STATUS.has(res.status) && data !== undefined && data !== null) {
+    if (typeof data === 'string' || data instanceof Uint8Array || data instanceof ArrayBuffer) body = data as BodyInit;
+    else body = JSON.stringify(data);
+  }
+  return new Response(body, { status: res.status, statusText: res.statusText || '', headers });
+}
+
+function plainHeaders(h: any): Record<string, string> {
+  const raw = typeof h?.toJSON === 'function' ? h.toJSON() : h || {};
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(raw)) {
+    if (v !== undefined && v !== null && typeof v !== 'object') out[k] = String(v);
+  }
+  return out;
+}
+
+/**
+ * Builds an `onRejected` response interceptor for an axios-like client. 402 errors are paid and retried via
+ * `client.request`; the caller receives the final axios response, or the final axios error. Other errors pass
+ * through unchanged.
+ */
+export function createL402AxiosInterceptor(client: AxiosLikeInstance, opts: L402AxiosOptions): (error: any) => Promise<any> {
+  if (typeof client?.request !== 'function') throw new Error('createL402AxiosInterceptor: client.request is required');
+  if (!opts?.pay) throw new Error('createL402AxiosInterceptor: opts.pay is required');
+
+  return async (error: any) => {
+    const first = error?.response;
+    const config = error?.config;
+    if (!first || first.status !== 402 || !config || config[RETRY_FLAG]) throw error;
+
+    // The outcome of the latest attempt, as axios reported it.
+    let last: { response: any; error?: unknown } = { response: first, error };
+    let calls = 0;
+
+    const url = new URL(client.getUri ? client.getUri(config) : config.url, config.baseURL).href;
+    const method = String(config.method || 'get').toUpperCase();
+
+    // The flow owns the headers, so it can drop the credential (and cookies) from a hop to another origin.
+    const transport: typeof fetch = async (input, init) => {
+      calls += 1;
+      if (calls > 1) {
+        const target = input instanceof Request ? input.url : String(input);
+        const hopMethod = String(init?.method || method).toUpperCase();
+        const request = {
+          ...config,
+          headers: Object.fromEntries(new Headers(init?.headers)),
+          // A redirect hop: the flow asks for the `Location` URL, and keeps the body unless the method changed.
+          ...(target !== url
+            ? { url: target, baseURL: undefined, method: hopMethod, data: hopMethod === method ? config.data : undefined }
+            : {}),
+          // Credentialed attempts hand redirects back to the flow instead of following them.
+          ...(init?.redirect === 'manual' ? { maxRedirects: 0 } : {}),
+          [RETRY_FLAG]: true
+        };
+        try {
+          last = { response: await client.request(request) };
+        } catch (err: any) {
+          if (!err?.response) throw err;
+          last = { response: err.response, error: err };
+        }
+      }
+      return toFetchResponse(last.response);
+    };
+
+    await fetchWithL402(url, { method, headers: plainHeaders(config.headers) }, { ...opts, fetch: transport });
+
+    if (last.error) throw last.error;
+    return last.response;
+  };
+}
@@ -0,0 +1,388 @@
+/**
+ * Dependency-free BOLT11 invoice codec.
+ *
+ * Decodes the bech32 envelope, human-readable part (network + amount) and the tagged fields
+ * clients typically care about. `decodeBolt11` does not check the signature; `payeeNodeKey` is only set
+ * when the invoice carries an explicit `n` field, and `recoverBolt11PayeeKey` recovers it otherwise.
+ * `encodeBolt11` signs invoices for test nodes (see `mock_lightning.ts`).
+ */
+
+import crypto from 'node:crypto';
+
+import { ecdsaRecoverPublicKey, ecdsaSignRecoverable } from './secp256k1.js';
+
+export type Bolt11Network = 'mainnet' | 'testnet' | 'signet' | 'regtest';
+
+export type DecodedBolt11 = {
+  network: Bolt11Network;
+  /** Human-readable part, e.g. `lnbc2500u`. */
+  hrp: string;
+  /** Amount in millisatoshis (absent for "any amount" invoices). */
+  amountMsat?: number;
+  /** Amount in satoshis, rounded up to a whole sat. */
+  amountSats?: number;
+  /** Creation time (unix seconds). */
+  timestamp: number;
+  /** Seconds after `timestamp` the invoice is valid for (default 3600). */
+  expiry: number;
+  /** `timestamp + expiry` (unix seconds). */
+  expiresAt: number;
+  /** Hex-encoded 32-byte payment hash. */
+  paymentHash?: string;
+  /** Hex-encoded 32-byte payment secret. */
+  paymentSecret?: string;
+  description?: string;
+  /** Hex-encoded sha256 of a long description. */
+  descriptionHash?: string;
+  /** Hex-encoded 33-byte payee pubkey (only when the `n` field is present). */
+  payeeNodeKey?: string;
+  /** Min final CLTV expiry delta (default 18). */
+  minFinalCltvExpiry: number;
+  /** Hex-encoded 64-byte compact signature. */
+  signature: string;
+  recoveryFlag: number;
+};
+
+export type Bolt11DecodeErrorCode = 'invalid_bech32' | 'invalid_checksum' | 'invalid_prefix' | 'invalid_amount' | 'invalid_data';
+
+export class Bolt11DecodeError extends Error {
+  readonly code: Bolt11DecodeErrorCode;
+
+  constructor(code: Bolt11DecodeErrorCode, message: string) {
+    super(message);
+    this.name = 'Bolt11DecodeError';
+    this.code = code;
+  }
+}
+
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+// Signature (65 bytes = 520 bits) is always the last 104 words of the data part.
+const SIGNATURE_WORDS = 104;
+const TIMESTAMP_WORDS = 7;
+
+const NETWORKS: Array<[string, Bolt11Network]> = [
+  // Longest prefixes first: `bcrt` must win over `bc`, `tbs` over `tb`.
+  ['bcrt', 'regtest'],
+  ['tbs', 'signet'],
+  ['bc', 'mainnet'],
+  ['tb', 'testnet']
+];
+
+// Millisatoshis per unit for each amount multiplier (1 BTC = 1e11 msat).
+const MSAT_PER_UNIT: Record<string, bigint> = {
+  '': 100_000_000_000n,
+  m: 100_000_000n,
+  u: 100_000n,
+  n: 100n
+};
+
+function polymod(values: number[]): number {
+  let chk = 1;
+  for (const v of values) {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ v;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) chk ^= GENERATOR[i];
+    }
+  }
+  return chk;
+}
+
+function hrpExpand(hrp: string): number[] {
+  const out: number[] = [];
+  for (let i = 0; i < hrp.length; i++) out.push(hrp.charCodeAt(i) >>> 5);
+  out.push(0);
+  for (let i = 0; i < hrp.length; i++) out.push(hrp.charCodeAt(i) & 31);
+  return out;
+}
+
+/** Bech32 (not bech32m) decode without the 90-char limit, which BOLT11 ignores. */
+export function bech32Decode(str: string): { hrp: string; words: number[] } {
+  if (str !== str.toLowerCase() && str !== str.toUpperCase()) {
+    throw new Bolt11DecodeError('invalid_bech32', 'mixed-case bech32 string');
+  }
+  const s = str.toLowerCase();
+  const sep = s.lastIndexOf('1');
+  if (sep < 1 || sep + 7 > s.length) throw new Bolt11DecodeError('invalid_bech32', 'missing bech32 separator');
+
+  const hrp = s.slice(0, sep);
+  for (let i = 0; i < hrp.length; i++) {
+    const c = hrp.charCodeAt(i);
+    if (c < 33 || c > 126) throw new Bolt11DecodeError('invalid_bech32', 'invalid character in bech32 prefix');
+  }
+
+  const words: number[] = [];
+  for (const ch of s.slice(sep + 1)) {
+    const v = CHARSET.indexOf(ch);
+    if (v === -1) throw new Bolt11DecodeError('invalid_bech32', `invalid bech32 character "${ch}"`);
+    words.push(v);
+  }
+
+  if (polymod([...hrpExpand(hrp), ...words]) !== 1) {
+    throw new Bolt11DecodeError('invalid_checksum', 'bech32 checksum mismatch');
+  }
+
+  return { hrp, words: words.slice(0, -6) };
+}
+
+/** Bech32 (not bech32m) encode without the 90-char limit. */
+export function bech32Encode(hrp: string, words: number[]): string {
+  const values = [...hrpExpand(hrp), ...words, 0, 0, 0, 0, 0, 0];
+  const mod = polymod(values) ^ 1;
+  const checksum: number[] = [];
+  for (let i = 0; i < 6; i++) checksum.push((mod >>> (5 * (5 - i))) & 31);
+  return `${hrp}1${[...words, ...checksum].map((w) => CHARSET[w]).join('')}`;
+}
+
+/** Regroups 5-bit words into bytes, dropping trailing padding bits (or zero-filling the last byte with `pad`). */
+function wordsToBytes(words: number[], pad = false): Buffer {
+  let acc = 0;
+  let bits = 0;
+  const out: number[] = [];
+  for (const w of words) {
+    acc = (acc << 5) | w;
+    bits += 5;
+    while (bits >= 8) {
+      bits -= 8;
+      out.push((acc >>> bits) & 0xff);
+    }
+    acc &= (1 << bits) - 1;
+  }
+  if (pad && bits > 0) out.push((acc << (8 - bits)) & 0xff);
+  return Buffer.from(out);
+}
+
+/** Regroups bytes into 5-bit words, zero-padding the last one. */
+function bytesToWords(bytes: Uint8Array): number[] {
+  let acc = 0;
+  let bits = 0;
+  const out: number[] = [];
+  for (const b of bytes) {
+    acc = ((acc << 8) | b) & 0xfff;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      out.push((acc >>> bits) & 31);
+    }
+  }
+  if (bits > 0) out.push((acc << (5 - bits)) & 31);
+  return out;
+}
+
+/** Big-endian 5-bit words of a non-negative integer: exactly `length` words, or as few as needed. */
+function intToWords(n: number, length?: number): number[] {
+  const out: number[] = [];
+  let v = n;
+  do {
+    out.unshift(v % 32);
+    v = Math.floor(v / 32);
+  } while (length === undefined ? v > 0 : out.length < length);
+  return out;
+}
+
+function wordsToInt(words: number[]): number {
+  let n = 0;
+  for (const w of words) n = n * 32 + w;
+  return n;
+}
+
+function parseHrp(hrp: string): { network: Bolt11Network; amountMsat?: number } {
+  if (!hrp.startsWith('ln')) throw new Bolt11DecodeError('invalid_prefix', `unknown invoice prefix "${hrp}"`);
+  const rest = hrp.slice(2);
+
+  const match = NETWORKS.find(([prefix]) => rest.startsWith(prefix));
+  if (!match) throw new Bolt11DecodeError('invalid_prefix', `unknown invoice prefix "${hrp}"`);
+  const [prefix, network] = match;
+
+  const amount = rest.slice(prefix.length);
+  if (!amount) return { network };
+
+  const m = amount.match(/^(\d+)([munp]?)$/);
+  if (!m || m[1].startsWith('0')) throw new Bolt11DecodeError('invalid_amount', `invalid invoice amount "${amount}"`);
+
+  const value = BigInt(m[1]);
+  let msat: bigint;
+  if (m[2] === 'p') {
+    // 1 pico-BTC = 0.1 msat, so the amount must be a multiple of 10.
+    if (value % 10n !== 0n) throw new Bolt11DecodeError('invalid_amount', `sub-millisatoshi amount "${amount}"`);
+    msat = value / 10n;
+  } else {
+    msat = value * MSAT_PER_UNIT[m[2]];
+  }
+
+  if (msat > BigInt(Number.MAX_SAFE_INTEGER)) throw new Bolt11DecodeError('invalid_amount', `amount too large "${amount}"`);
+  return { network, amountMsat: Number(msat) };
+}
+
+/** Decodes a BOLT11 invoice. Throws `Bolt11DecodeError` on malformed input. */
+export function decodeBolt11(invoice: string): DecodedBolt11 {
+  let s = String(invoice ?? '').trim();
+  if (/^lightning:/i.test(s)) s = s.slice('lightning:'.length);
+
+  const { hrp, words } = bech32Decode(s);
+  const { network, amountMsat } = parseHrp(hrp);
+
+  if (words.length < TIMESTAMP_WORDS + SIGNATURE_WORDS) {
+    throw new Bolt11DecodeError('invalid_data', 'invoice data too short');
+  }
+
+  const timestamp = wordsToInt(words.slice(0, TIMESTAMP_WORDS));
+  const tagged = words.slice(TIMESTAMP_WORDS, words.length - SIGNATURE_WORDS);
+  const sigBytes = wordsToBytes(words.slice(words.length - SIGNATURE_WORDS));
+
+  const out: DecodedBolt11 = {
+    network,
+    hrp,
+    timestamp,
+    expiry: 3600,
+    expiresAt: 0,
+    minFinalCltvExpiry: 18,
+    signature: sigBytes.subarray(0, 64).toString('hex'),
+    recoveryFlag: sigBytes[64]
+  };
+  if (amountMsat !== undefined) {
+    out.amountMsat = amountMsat;
+    out.amountSats = Math.ceil(amountMsat / 1000);
+  }
+
+  let i = 0;
+  while (i < tagged.length) {
+    if (i + 3 > tagged.length) throw new Bolt11DecodeError('invalid_data', 'truncated tagged field');
+    const type = tagged[i];
+    const len = tagged[i + 1] * 32 + tagged[i + 2];
+    const data = tagged.slice(i + 3, i + 3 + len);
+    if (data.length !== len) throw new Bolt11DecodeError('invalid_data', 'truncated tagged field');
+    i += 3 + len;
+
+    // Field types by bech32 character (BOLT11 "Tagged Fields"). Unknown fields are skipped,
+    // and known fields with an unexpected length are ignored as the spec requires.
+    switch (CHARSET[type]) {
+      case 'p':
+        if (len === 52 && out.paymentHash === undefined) out.paymentHash = wordsToBytes(data).toString('hex');
+        break;
+      case 's':
+        if (len === 52 && out.paymentSecret === undefined) out.paymentSecret = wordsToBytes(data).toString('hex');
+        break;
+      case 'd':
+        out.description = wordsToBytes(data).toString('utf8');
+        break;
+      case 'h':
+        if (len === 52) out.descriptionHash = wordsToBytes(data).toString('hex');
+        break;
+      case 'n':
+        if (len === 53) out.payeeNodeKey = wordsToBytes(data).toString('hex');
+        break;
+      case 'x':
+        out.expiry = wordsToInt(data);
+        break;
+      case 'c':
+        out.minFinalCltvExpiry = wordsToInt(data);
+        break;
+      default:
+        break;
+    }
+  }
+
+  out.expiresAt = out.timestamp + out.expiry;
+  return out;
+}
+
+/** Non-throwing variant used by challenge parsing. */
+export function tryDecodeBolt11(
+  invoice: string
+): { decoded: DecodedBolt11; error?: undefined } | { decoded?: undefined; error: Bolt11DecodeError } {
+  try {
+    return { decoded: decodeBolt11(invoice) };
+  } catch (err) {
+    if (err instanceof Bolt11DecodeError) return { error: err };
+    return { error: new Bolt11DecodeError('invalid_data', String((err as Error)?.message || err)) };
+  }
+}
+
+export type Bolt11InvoiceFields = {
+  network: Bolt11Network;
+  /** Omit for an "any amount" invoice. */
+  amountMsat?: number;
+  /** Creation time (unix seconds). */
+  timestamp: number;
+  /** Hex-encoded 32-byte payment hash. */
+  paymentHash: string;
+  /** Hex-encoded 32-byte payment secret. */
+  paymentSecret?: string;
+  /** Defaults to an empty description unless `descriptionHash` is set. */
+  description?: string;
+  /** Hex-encoded sha256 of a long description. */
+  descriptionHash?: string;
+  /** Seconds; written only when not the default 3600. */
+  expiry?: number;
+  /** Written only when not the default 18. */
+  minFinalCltvExpiry?: number;
+};
+
+const NETWORK_PREFIX: Record<Bolt11Network, string> = {
+  mainnet: 'bc',
+  testnet: 'tb',
+  signet: 'tbs',
+  regtest: 'bcrt'
+};
+
+function encodeAmount(msat: number): string {
+  if (!Number.isSafeInteger(msat) || msat <= 0) throw new RangeError(`encodeBolt11: invalid amount ${msat} msat`);
+  const value = BigInt(msat);
+  // Shortest exact form: the largest multiplier that divides the amount, else pico-BTC.
+  for (const unit of ['', 'm', 'u', 'n']) {
+    if (value % MSAT_PER_UNIT[unit] === 0n) return `${value / MSAT_PER_UNIT[unit]}${unit}`;
+  }
+  return `${value * 10n}p`;
+}
+
+function taggedField(type: string, data: number[]): number[] {
+  return [CHARSET.indexOf(type), ...intToWords(data.length, 2), ...data];
+}
+
+function hexWords(hex: string, name: string): number[] {
+  if (!/^[0-9a-f]{64}$/i.test(hex)) throw new RangeError(`encodeBolt11: ${name} must be 32 bytes of hex`);
+  return bytesToWords(Buffer.from(hex, 'hex'));
+}
+
+// The signed message: sha256 of the prefix and the data part (minus the signature), zero-padded to bytes.
+function signingHash(hrp: string, data: number[]): Buffer {
+  return crypto.createHash('sha256').update(Buffer.from(hrp, 'utf8')).update(wordsToBytes(data, true)).digest();
+}
+
+/** Encodes a BOLT11 invoice signed with the payee's 32-byte secret key. */
+export function encodeBolt11(fields: Bolt11InvoiceFields, secretKey: Uint8Array): string {
+  const hrp = `ln${NETWORK_PREFIX[fields.network]}${fields.amountMsat === undefined ? '' : encodeAmount(fields.amountMsat)}`;
+
+  const data = intToWords(fields.timestamp, TIMESTAMP_WORDS);
+  data.push(...taggedField('p', hexWords(fields.paymentHash, 'paymentHash')));
+  if (fields.paymentSecret !== undefined) data.push(...taggedField('s', hexWords(fields.paymentSecret, 'paymentSecret')));
+  if (fields.descriptionHash !== undefined) data.push(...taggedField('h', hexWords(fields.descriptionHash, 'descriptionHash')));
+  if (fields.description !== undefined || fields.descriptionHash === undefined) {
+    data.push(...taggedField('d', bytesToWords(Buffer.from(fields.description ?? '', 'utf8'))));
+  }
+  if (fields.expiry !== undefined && fields.expiry !== 3600) data.push(...taggedField('x', intToWords(fields.expiry)));
+  if (fields.minFinalCltvExpiry !== undefined && fields.minFinalCltvExpiry !== 18) {
+    data.push(...taggedField('c', intToWords(fields.minFinalCltvExpiry)));
+  }
+
+  const { signature, recovery } = ecdsaSignRecoverable(signingHash(hrp, data), secretKey);
+  return bech32Encode(hrp, [...data, ...bytesToWords(Buffer.concat([signature, Buffer.from([recovery])]))]);
+}
+
+/**
+ * Hex-encoded payee pubkey recovered from the invoice signature (or the `n` field when present).
+ * Throws `Bolt11DecodeError` when the signature is unusable.
+ */
+export function recoverBolt11PayeeKey(invoice: string): string {
+  const decoded = decodeBolt11(invoice);
+  if (decoded.payeeNodeKey) return decoded.payeeNodeKey;
+
+  const { words } = bech32Decode(invoice.trim().replace(/^lightning:/i, ''));
+  const hash = signingHash(decoded.hrp, words.slice(0, words.length - SIGNATURE_WORDS));
+  const key = ecdsaRecoverPublicKey(hash, Buffer.from(decoded.signature, 'hex'), decoded.recoveryFlag);
+  if (!key) throw new Bolt11DecodeError('invalid_data', 'invoice signature does not recover a public key');
+  return key.toString('hex');
+}
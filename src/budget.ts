@@ -0,0 +1,154 @@
+import { L402BudgetExceededError, type L402BudgetRejectReason } from './errors.js';
+import type { L402Challenge } from './index.js';
+
+export type SpendWindow = {
+  /** Max sats that may be spent within `windowMs`. */
+  maxSats: number;
+  /** Rolling window length in ms. */
+  windowMs: number;
+};
+
+export type L402BudgetOptions = {
+  /** Max sats for any single payment. */
+  maxSatsPerPayment?: number;
+  /** Rolling limit applied per host (`url.host`). */
+  perHost?: SpendWindow;
+  /** Rolling limit across all hosts. */
+  global?: SpendWindow;
+  /**
+   * If set, only these origins may be paid. Entries match an origin (`https://api.example.com`),
+   * a host (`api.example.com`) or a subdomain wildcard (`*.example.com`).
+   */
+  allowOrigins?: string[];
+  /** Origins that are never paid (same matching as `allowOrigins`; deny wins). */
+  denyOrigins?: string[];
+  /**
+   * Final say after all limits pass. Return false to refuse the payment.
+   * Receives the amount taken from the decoded invoice.
+   */
+  approve?: (challenge: L402Challenge, ctx: { url: URL; amountSats: number }) => boolean | Promise<boolean>;
+  now?: () => number;
+};
+
+/** A pending spend. Released if the payment fails so it doesn't count against the limits. */
+export type BudgetReservation = {
+  amountSats: number;
+  release(): void;
+};
+
+export type L402Budget = {
+  /**
+   * Checks a challenge against the policy and reserves its amount.
+   * Throws `L402BudgetExceededError` if the payment must not happen.
+   */
+  reserve(url: URL, challenge: L402Challenge): Promise<BudgetReservation>;
+  /**
+   * Sats spent within the window ending now (optionally for one host). Payments are kept for the longest
+   * configured window; without `perHost` / `global`, only the last 1000 are.
+   */
+  spent(windowMs: number, host?: string): number;
+};
+
+type SpendEntry = { host: string; sats: number; at: number };
+
+// Without a rolling window nothing ages entries out; this bounds the list for long-lived budgets.
+const MAX_UNWINDOWED_ENTRIES = 1000;
+
+function matchesOrigin(url: URL, pattern: string): boolean {
+  const p = pattern.trim().toLowerCase();
+  if (!p) return false;
+  if (p.includes('://')) return url.origin.toLowerCase() === p.replace(/\/+$/, '');
+  if (p.startsWith('*.')) return url.hostname.toLowerCase().endsWith(p.slice(1));
+  return url.host.toLowerCase() === p || url.hostname.toLowerCase() === p;
+}
+
+/**
+ * Creates a spending policy to pass as `budget` to `fetchWithL402`.
+ * Keep one instance around: the rolling windows live on it.
+ *
+ * Amounts always come from the decoded BOLT11 invoice (never from JSON `meta`), so invoices
+ * without an amount, or that fail to decode, are refused.
+ */
+export function createL402Budget(opts: L402BudgetOptions = {}): L402Budget {
+  const now = opts.now || Date.now;
+  const entries: SpendEntry[] = [];
+  const longestWindow = Math.max(opts.perHost?.windowMs ?? 0, opts.global?.windowMs ?? 0);
+
+  const prune = () => {
+    if (!longestWindow) {
+      if (entries.length > MAX_UNWINDOWED_ENTRIES) entries.splice(0, entries.length - MAX_UNWINDOWED_ENTRIES);
+      return;
+    }
+    const cutoff = now() - longestWindow;
+    while (entries.length && entries[0].at <= cutoff) entries.shift();
+  };
+
+  const spent = (windowMs: number, host?: string) => {
+    const cutoff = now() - windowMs;
+    let total = 0;
+    for (const e of entries) {
+      if (e.at > cutoff && (host === undefined || e.host === host)) total += e.sats;
+    }
+    return total;
+  };
+
+  return {
+    spent,
+
+    async reserve(url, challenge) {
+      const reject = (reason: L402BudgetRejectReason, message: string, amountSats?: number): never => {
+        throw new L402BudgetExceededError({ reason, challenge, url: url.href, amountSats, message: `budget: ${message}` });
+      };
+
+      if (opts.denyOrigins?.some((p) => matchesOrigin(url, p))) {
+        reject('origin_denied', `origin ${url.origin} is denied`);
+      }
+      if (opts.allowOrigins && !opts.allowOrigins.some((p) => matchesOrigin(url, p))) {
+        reject('origin_not_allowed', `origin ${url.origin} is not in allowOrigins`);
+      }
+
+      const amountSats = challenge.decoded?.amountSats;
+      if (amountSats === undefined) {
+        reject('unknown_amount', 'invoice amount unknown (amountless or undecodable invoice)');
+      }
+      const amount = amountSats as number;
+
+      if (opts.maxSatsPerPayment !== undefined && amount > opts.maxSatsPerPayment) {
+        reject('max_per_payment', `${amount} sats exceeds maxSatsPerPayment ${opts.maxSatsPerPayment}`, amount);
+      }
+
+      prune();
+      if (opts.perHost && spent(opts.perHost.windowMs, url.host) + amount > opts.perHost.maxSats) {
+        reject('per_host_window', `${amount} sats would exceed the per-host limit for ${url.host}`, amount);
+      }
+      if (opts.global && spent(opts.global.windowMs) + amount > opts.global.maxSats) {
+        reject('global_window', `${amount} sats would exceed the global limit`, amount);
+      }
+
+      // Reserve before approval so concurrent requests see each other's spend.
+      const entry: SpendEntry = { host: url.host, sats: amount, at: now() };
+      entries.push(entry);
+      prune();
+      const release = () => {
+        const i = entries.indexOf(entry);
+        if (i !== -1) entries.splice(i, 1);
+      };
+
+      if (opts.approve) {
+        let approved = false;
+        try {
+          approved = await opts.approve(challenge, { url, amountSats: amount });
+        } catch (err) {
+          release();
+          throw err;
+        }
+        if (!approved) {
+          release();
+          reject('not_approved', `payment of ${amount} sats was not approved`, amount);
+        }
+      }
+
+      return { amountSats: amount, release };
+    }
+  };
+}
@@ -0,0 +1,46 @@
+import type { L402Challenge, L402Scheme, SelectChallengeFn } from './index.js';
+import { DEFAULT_CLOCK_SKEW_MS } from './invoice_checks.js';
+
+export type ChallengeSelectorOptions = {
+  /**
+   * Acceptable schemes. JSON body challenges carry no scheme and are paid with an `L402` credential,
+   * so they count as `L402`.
+   */
+  schemes?: L402Scheme[];
+  /** Skip invoices above this many sats, and invoices without a decodable amount. */
+  maxSats?: number;
+  /** Skip invoices whose decoded expiry has passed (beyond `clockSkewMs`). Defaults to true. */
+  unexpired?: boolean;
+  /** How long past its expiry an invoice still counts as unexpired. Defaults to 60s, like `checkL402Invoice`. */
+  clockSkewMs?: number;
+  /** Among the remaining challenges: the server's order (`first`, default) or the lowest amount (`cheapest`). */
+  prefer?: 'first' | 'cheapest';
+  now?: () => number;
+};
+
+/**
+ * Builds a `selectChallenge` option from common preferences. Resolves `null` (pay nothing) when no challenge
+ * qualifies.
+ */
+export function createChallengeSelector(opts: ChallengeSelectorOptions = {}): SelectChallengeFn {
+  const now = opts.now || Date.now;
+  const unexpired = opts.unexpired ?? true;
+  const skew = Math.max(0, Number(opts.clockSkewMs ?? DEFAULT_CLOCK_SKEW_MS));
+
+  const acceptable = (c: L402Challenge) => {
+    if (opts.schemes && !opts.schemes.includes(c.scheme || 'L402')) return false;
+    const amount = c.decoded?.amountSats;
+    if (opts.maxSats !== undefined && (amount === undefined || amount > opts.maxSats)) return false;
+    if (unexpired && c.decoded && now() > c.decoded.expiresAt * 1000 + skew) return false;
+    return true;
+  };
+
+  return (candidates) => {
+    const remaining = candidates.filter(acceptable);
+    if (opts.prefer === 'cheapest') {
+      // Stable sort; amountless invoices go last.
+      remaining.sort((a, b) => (a.decoded?.amountSats ?? Infinity) - (b.decoded?.amountSats ?? Infinity));
+    }
+    return remaining[0] ?? null;
+  };
+}
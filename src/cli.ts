@@ -0,0 +1,383 @@
+#!/usr/bin/env node
+import fs from 'node:fs';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+
+import { decodeBolt11, type Bolt11Network } from './bolt11.js';
+import {
+  createL402Budget,
+  createNwcPayer,
+  fetchWithL402,
+  parseL402Challenge,
+  type L402Challenge,
+  type L402PaymentReceipt,
+  type PayFn
+} from './index.js';
+import { formatInteropJunit, formatInteropTable, loadPayerModule, runInteropHarness } from './interop.js';
+import { inspectMacaroon, type MacaroonInfo } from './macaroon.js';
+import { mockPreimage } from './mock_server.js';
+
+/**
+ * Command-line client for debugging paid endpoints (`l402 inspect|fetch|decode|interop`, see USAGE).
+ */
+
+const USAGE = `Usage:
+  l402 inspect <url> [options]    Request <url> and show its L402 challenge without paying
+  l402 fetch <url> [options]      Request <url>, pay the challenge with the chosen payer, print the body
+  l402 decode <value>             Decode a BOLT11 invoice or a macaroon
+  l402 interop [options]          Run the client against every mock challenge shape, or check --base-url
+
+Request options:
+  -X, --method <method>           HTTP method (default GET)
+  -H, --header 'name: value'      Request header (repeatable)
+  -d, --data <body>               Request body
+
+Payers (fetch, interop --base-url):
+  --payer <module>                Module exporting a PayFn (default or 'pay' export) or createPayer()
+  --preimage-file <path>          Lines of '<invoice|payment hash> <preimage>'; a lone preimage matches any invoice
+  --mock-payer                    Deterministic preimages of the bundled mock wallets
+  --proof <value>                 Send <value> verbatim as the proof
+  --nwc <uri>                     Nostr Wallet Connect URI (default: $NWC_URI)
+  --max-sats <n>                  Refuse invoices above <n> sats (or without an amount)
+  --network <name>                Refuse invoices not for mainnet, testnet, signet or regtest
+
+Interop:
+  --base-url <url>                Check your own server instead of the mocks (pays once per path)
+  --path <path>                   Path under --base-url to check (repeatable; default: the URL itself)
+  --format table|json|junit       Report format (default table)
+
+Output:
+  --json                          Machine-readable JSON on stdout
+  -h, --help                      Show this help
+`;
+
+export type CliIo = {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  env?: Record<string, string | undefined>;
+};
+
+const processIo: CliIo = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  env: process.env
+};
+
+class UsageError extends Error {}
+
+type CliOptions = {
+  json?: boolean;
+  method?: string;
+  header?: string[];
+  data?: string;
+  'preimage-file'?: string;
+  'mock-payer'?: boolean;
+  proof?: string;
+  nwc?: string;
+  'max-sats'?: string;
+  network?: string;
+  payer?: string;
+  'base-url'?: string;
+  path?: string[];
+  format?: string;
+  help?: boolean;
+};
+
+/**
+ * Payer that looks preimages up in a text file of `<invoice|payment hash> <preimage>` lines (`#` comments).
+ * The file is re-read on every payment, so it can be filled in while a request waits.
+ */
+export function createPreimageFilePayer(file: string): PayFn {
+  return async (challenge) => {
+    const byKey = new Map<string, string>();
+    let any: string | undefined;
+    for (const raw of (await fs.promises.readFile(file, 'utf8')).split('\n')) {
+      const line = raw.replace(/#.*/, '').trim();
+      if (!line) continue;
+      const [a, b] = line.split(/\s+/);
+      if (b === undefined) any = a;
+      else byKey.set(a.toLowerCase(), b);
+    }
+
+    const hash = challenge.decoded?.paymentHash;
+    const preimage = byKey.get(challenge.invoice.toLowerCase()) ?? (hash ? byKey.get(hash) : undefined) ?? any;
+    if (!preimage) throw new Error(`l402: no preimage for ${hash || challenge.invoice} in ${file}`);
+    return { preimage };
+  };
+}
+
+function requestInit(opts: CliOptions): RequestInit {
+  const headers = new Headers();
+  for (const h of opts.header || []) {
+    const i = h.indexOf(':');
+    if (i <= 0) throw new UsageError(`invalid header "${h}" (expected 'name: value')`);
+    headers.append(h.slice(0, i).trim(), h.slice(i + 1).trim());
+  }
+  const method = opts.method?.toUpperCase() || (opts.data !== undefined ? 'POST' : 'GET');
+  return { method, headers, ...(opts.data !== undefined ? { body: opts.data } : {}) };
+}
+
+async function payerFor(opts: CliOptions, env: Record<string, string | undefined>, command: string): Promise<PayFn> {
+  const nwcUri = opts.nwc || env.NWC_URI;
+  const chosen = [
+    opts.payer !== undefined && 'payer',
+    opts['preimage-file'] !== undefined && 'preimage-file',
+    opts['mock-payer'] && 'mock-payer',
+    opts.proof !== undefined && 'proof',
+    nwcUri && 'nwc'
+  ].filter(Boolean);
+  if (chosen.length > 1) throw new UsageError(`choose one payer (got ${chosen.join(', ')})`);
+
+  if (opts.payer !== undefined) return loadPayerModule(opts.payer);
+  if (opts['preimage-file'] !== undefined) return createPreimageFilePayer(opts['preimage-file']);
+  if (opts['mock-payer']) return async (challenge) => ({ preimage: mockPreimage(challenge.invoice) });
+  if (opts.proof !== undefined) {
+    const proof = opts.proof;
+    return async () => ({ proof });
+  }
+  if (nwcUri) return createNwcPayer(nwcUri);
+  throw new UsageError(`${command} needs a payer: --payer, --preimage-file, --mock-payer, --proof or --nwc`);
+}
+
+// `--max-sats` and `--network` as fetchWithL402 options.
+function safetyOptions(opts: CliOptions) {
+  let budget;
+  if (opts['max-sats'] !== undefined) {
+    const max = Number(opts['max-sats']);
+    if (!Number.isFinite(max) || max < 0) throw new UsageError(`invalid --max-sats "${opts['max-sats']}"`);
+    budget = createL402Budget({ maxSatsPerPayment: max });
+  }
+
+  const network = opts.network as Bolt11Network | undefined;
+  if (network && !['mainnet', 'testnet', 'signet', 'regtest'].includes(network)) {
+    throw new UsageError(`invalid --network "${network}"`);
+  }
+  return { budget, network };
+}
+
+function macaroonInfo(challenge: L402Challenge): MacaroonInfo | undefined {
+  const macaroon = challenge.meta?.macaroon;
+  if (typeof macaroon !== 'string') return undefined;
+  try {
+    return inspectMacaroon(macaroon);
+  } catch {
+    return undefined;
+  }
+}
+
+function challengeJson(challenge: L402Challenge) {
+  const { decodeError, ...rest } = challenge;
+  return {
+    ...rest,
+    ...(decodeError ? { decodeError: { code: decodeError.code, message: decodeError.message } } : {}),
+    ...(macaroonInfo(challenge) ? { macaroon: macaroonInfo(challenge) } : {})
+  };
+}
+
+// The preimage is a bearer secret; CLI output tends to end up in logs and tickets.
+function receiptJson(receipt: L402PaymentReceipt) {
+  const { preimage: _preimage, ...rest } = receipt;
+  return rest;
+}
+
+const time = (unixSeconds: number | undefined) =>
+  unixSeconds === undefined ? undefined : new Date(unixSeconds * 1000).toISOString();
+
+function fields(rows: Array<[string, unknown]>): string {
+  const shown = rows.filter(([, v]) => v !== undefined && v !== '' && !(Array.isArray(v) && !v.length));
+  const width = Math.max(0, ...shown.map(([k]) => k.length)) + 2;
+  return shown.map(([k, v]) => `${`${k}:`.padEnd(width)}${Array.isArray(v) ? v.join(', ') : v}\n`).join('');
+}
+
+function invoiceFields(decoded: ReturnType<typeof decodeBolt11>): Array<[string, unknown]> {
+  return [
+    ['network', decoded.network],
+    ['amount', decoded.amountSats !== undefined ? `${decoded.amountSats} sats` : 'any'],
+    ['payment hash', decoded.paymentHash],
+    ['description', decoded.description],
+    ['description hash', decoded.descriptionHash],
+    ['payee', decoded.payeeNodeKey],
+    ['created', time(decoded.timestamp)],
+    ['expires', time(decoded.expiresAt)]
+  ];
+}
+
+function macaroonFields(info: MacaroonInfo): Array<[string, unknown]> {
+  return [
+    ['format', info.format],
+    ['location', info.location],
+    ['identifier', info.identifier],
+    ['payment hash', info.l402?.paymentHash],
+    ['services', info.services.map((s) => `${s.name}:${s.tier}`)],
+    ['caveats', info.caveats],
+    ['expires', info.expiresAt !== undefined ? new Date(info.expiresAt).toISOString() : undefined],
+    ['third-party caveats', info.thirdPartyCaveats || undefined]
+  ];
+}
+
+function challengeText(challenge: L402Challenge): string {
+  const info = macaroonInfo(challenge);
+  return fields([
+    ['scheme', challenge.scheme],
+    ['invoice', challenge.invoice],
+    ...(challenge.decoded ? invoiceFields(challenge.decoded) : [['decode error', challenge.decodeError?.message]]),
+    ['proof header', challenge.proofHeader],
+    ...(info ? macaroonFields(info).map(([k, v]): [string, unknown] => [`macaroon ${k}`, v]) : [])
+  ] as Array<[string, unknown]>);
+}
+
+const json = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+
+async function inspect(url: string, opts: CliOptions, io: CliIo): Promise<number> {
+  const res = await fetch(url, requestInit(opts));
+  const challenge = res.status === 402 ? await parseL402Challenge(res) : null;
+  if (opts.json) {
+    io.stdout(json({ url, status: res.status, challenge: challenge ? challengeJson(challenge) : null }));
+  } else {
+    io.stdout(`${res.status} ${res.statusText}\n`);
+    if (challenge) io.stdout(challengeText(challenge));
+    else if (res.status === 402) io.stdout('no recognizable L402 challenge\n');
+    else io.stdout('no payment required\n');
+  }
+  return res.status === 402 && !challenge ? 1 : 0;
+}
+
+async function paidFetch(url: string, opts: CliOptions, io: CliIo): Promise<number> {
+  const { budget, network } = safetyOptions(opts);
+  const pay = await payerFor(opts, io.env || {}, 'fetch');
+
+  let challenge: L402Challenge | undefined;
+  const receipts: L402PaymentReceipt[] = [];
+  const res = await fetchWithL402(url, requestInit(opts), {
+    pay,
+    budget,
+    network,
+    onChallenge: (e) => {
+      challenge = e.challenge;
+      if (!opts.json) io.stderr(`402 challenge: ${e.challenge.decoded?.amountSats ?? '?'} sats, ${e.challenge.invoice}\n`);
+    },
+    onPayment: (e) => {
+      receipts.push(e.receipt);
+      if (!opts.json) io.stderr(`paid: ${e.receipt.paymentHash || e.receipt.invoice}\n`);
+    }
+  });
+  const body = await res.text();
+
+  if (opts.json) {
+    io.stdout(
+      json({
+        url,
+        status: res.status,
+        headers: Object.fromEntries(res.headers),
+        body,
+        challenge: challenge ? challengeJson(challenge) : null,
+        receipts: receipts.map(receiptJson),
+        paidSats: receipts.reduce((sum, r) => sum + (r.amountSats ?? 0), 0)
+      })
+    );
+  } else {
+    io.stderr(`${res.status} ${res.statusText}\n`);
+    io.stdout(body.endsWith('\n') || !body ? body : `${body}\n`);
+  }
+  return res.ok ? 0 : 1;
+}
+
+function decode(value: string, opts: CliOptions, io: CliIo): number {
+  const input = value.trim().replace(/^lightning:/i, '');
+  if (/^ln/i.test(input)) {
+    const decoded = decodeBolt11(input);
+    io.stdout(opts.json ? json({ type: 'bolt11', ...decoded }) : fields([['type', 'bolt11 invoice'], ...invoiceFields(decoded)]));
+    return 0;
+  }
+  const info = inspectMacaroon(input);
+  io.stdout(opts.json ? json({ type: 'macaroon', ...info }) : fields([['type', 'macaroon'], ...macaroonFields(info)]));
+  return 0;
+}
+
+async function interop(opts: CliOptions, io: CliIo): Promise<number> {
+  const format = opts.json ? 'json' : opts.format || 'table';
+  if (!['table', 'json', 'junit'].includes(format)) throw new UsageError(`invalid --format "${format}"`);
+  const baseUrl = opts['base-url'];
+  if (!baseUrl && opts.path?.length) throw new UsageError('--path needs --base-url');
+
+  const report = baseUrl
+    ? await runInteropHarness({
+        baseUrl,
+        paths: opts.path,
+        pay: await payerFor(opts, io.env || {}, 'interop --base-url'),
+        fetchOptions: safetyOptions(opts),
+        // Progress for slow external checks; reports go to stdout.
+        onResult: (r) => io.stderr(`${r.skipped ? 'skip' : r.ok ? 'ok' : 'FAIL'} ${r.name}\n`)
+      })
+    : await runInteropHarness();
+
+  io.stdout(format === 'json' ? json(report) : format === 'junit' ? formatInteropJunit(report) : formatInteropTable(report));
+  return report.ok ? 0 : 1;
+}
+
+/** Runs the CLI with `argv` (without the node and script paths). Resolves the process exit code. */
+export async function runCli(argv: string[], io: CliIo = processIo): Promise<number> {
+  let opts: CliOptions = {};
+  try {
+    const parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        json: { type: 'boolean' },
+        method: { type: 'string', short: 'X' },
+        header: { type: 'string', short: 'H', multiple: true },
+        data: { type: 'string', short: 'd' },
+        'preimage-file': { type: 'string' },
+        'mock-payer': { type: 'boolean' },
+        proof: { type: 'string' },
+        nwc: { type: 'string' },
+        'max-sats': { type: 'string' },
+        network: { type: 'string' },
+        payer: { type: 'string' },
+        'base-url': { type: 'string' },
+        path: { type: 'string', multiple: true },
+        format: { type: 'string' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+    opts = parsed.values;
+    const [command, target, ...extra] = parsed.positionals;
+
+    if (opts.help || !command) {
+      (opts.help ? io.stdout : io.stderr)(USAGE);
+      return opts.help ? 0 : 2;
+    }
+    if (!['inspect', 'fetch', 'decode', 'interop'].includes(command)) throw new UsageError(`unknown command "${command}"`);
+    if (command === 'interop') {
+      if (target) throw new UsageError(`unexpected argument "${target}"`);
+      return await interop(opts, io);
+    }
+    if (!target) throw new UsageError(`${command} needs an argument`);
+    if (extra.length) throw new UsageError(`unexpected argument "${extra[0]}"`);
+
+    if (command === 'decode') return decode(target, opts, io);
+    if (command === 'inspect') return await inspect(target, opts, io);
+    return await paidFetch(target, opts, io);
+  } catch (err) {
+    const usage = err instanceof UsageError || (err as { code?: string })?.code?.startsWith('ERR_PARSE_ARGS');
+    const e = err as Error;
+    if (opts.json && !usage) io.stdout(json({ error: { name: e?.name, message: e?.message } }));
+    else io.stderr(`l402: ${e?.message ?? String(err)}\n${usage ? "Run 'l402 --help' for usage.\n" : ''}`);
+    return usage ? 2 : 1;
+  }
+}
+
+// `bin` entries are symlinks, so compare against the resolved script path.
+function entryUrl(): string {
+  try {
+    return process.argv[1] ? pathToFileURL(fs.realpathSync(process.argv[1])).href : '';
+  } catch {
+    return '';
+  }
+}
+
+if (import.meta.url === entryUrl()) {
+  runCli(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,211 @@
+import type { Bolt11Network } from './bolt11.js';
+import type { L402Challenge, L402PaymentReceipt } from './index.js';
+import type { StoredToken } from './token_store.js';
+
+/** Base class for errors thrown by l402-kit. */
+export class L402Error extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+export type L402BudgetRejectReason =
+  | 'origin_denied'
+  | 'origin_not_allowed'
+  | 'unknown_amount'
+  | 'max_per_payment'
+  | 'per_host_window'
+  | 'global_window'
+  | 'not_approved';
+
+/** Thrown before `pay` runs when a challenge would violate the configured spending policy. */
+export class L402BudgetExceededError extends L402Error {
+  readonly reason: L402BudgetRejectReason;
+  readonly challenge: L402Challenge;
+  readonly url: string;
+  /** Amount taken from the decoded invoice, when known. */
+  readonly amountSats?: number;
+
+  constructor(opts: { reason: L402BudgetRejectReason; challenge: L402Challenge; url: string; amountSats?: number; message: string }) {
+    super(opts.message);
+    this.reason = opts.reason;
+    this.challenge = opts.challenge;
+    this.url = opts.url;
+    this.amountSats = opts.amountSats;
+  }
+}
+
+export type L402InvoiceRejectReason = 'wrong_network' | 'expired' | 'amount_mismatch';
+
+/** Thrown before `pay` runs when the invoice itself fails a sanity check. Subclassed per `reason`. */
+export class L402InvoiceRejectedError extends L402Error {
+  readonly reason: L402InvoiceRejectReason;
+  readonly challenge: L402Challenge;
+  readonly url: string;
+
+  constructor(opts: { reason: L402InvoiceRejectReason; challenge: L402Challenge; url: string; message: string }) {
+    super(opts.message);
+    this.reason = opts.reason;
+    this.challenge = opts.challenge;
+    this.url = opts.url;
+  }
+}
+
+/** The invoice is for another network than the configured `network`, or does not decode at all. */
+export class L402WrongNetworkError extends L402InvoiceRejectedError {
+  readonly expected: Bolt11Network;
+  /** Network of the invoice; absent when it did not decode. */
+  readonly actual?: Bolt11Network;
+
+  constructor(opts: { challenge: L402Challenge; url: string; expected: Bolt11Network; actual?: Bolt11Network; message: string }) {
+    super({ ...opts, reason: 'wrong_network' });
+    this.expected = opts.expected;
+    this.actual = opts.actual;
+  }
+}
+
+/** The invoice expired (beyond `clockSkewMs`) before it could be paid. */
+export class L402InvoiceExpiredError extends L402InvoiceRejectedError {
+  /** Invoice expiry, epoch ms. */
+  readonly expiresAt: number;
+
+  constructor(opts: { challenge: L402Challenge; url: string; expiresAt: number; message: string }) {
+    super({ ...opts, reason: 'expired' });
+    this.expiresAt = opts.expiresAt;
+  }
+}
+
+/** The invoice amount differs from the price the challenge `meta` advertised. */
+export class L402AmountMismatchError extends L402InvoiceRejectedError {
+  readonly invoiceMsat: number;
+  readonly advertisedMsat: number;
+
+  constructor(opts: { challenge: L402Challenge; url: string; invoiceMsat: number; advertisedMsat: number; message: string }) {
+    super({ ...opts, reason: 'amount_mismatch' });
+    this.invoiceMsat = opts.invoiceMsat;
+    this.advertisedMsat = opts.advertisedMsat;
+  }
+}
+
+/** A bundled payer adapter (NWC, LND, CLN) could not pay an invoice. */
+export class L402PayerError extends L402Error {
+  /** Adapter that failed, e.g. `nwc`. */
+  readonly payer: string;
+  /** Adapter-specific error code (e.g. NIP-47 `INSUFFICIENT_BALANCE`, or `TIMEOUT`). */
+  readonly code: string;
+
+  constructor(opts: { payer: string; code: string; message: string }) {
+    super(opts.message);
+    this.payer = opts.payer;
+    this.code = opts.code;
+  }
+}
+
+/**
+ * The payer returned a preimage whose sha256 is not the invoice's payment hash. The payment may still have
+ * gone through; `receipt` records what was paid so it can be reconciled.
+ */
+export class L402InvalidPreimageError extends L402Error {
+  readonly challenge: L402Challenge;
+  readonly receipt: L402PaymentReceipt;
+
+  constructor(opts: { challenge: L402Challenge; receipt: L402PaymentReceipt; message: string }) {
+    super(opts.message);
+    this.challenge = opts.challenge;
+    this.receipt = opts.receipt;
+  }
+}
+
+/**
+ * Thrown before paying when the request body was a stream that could not be kept for the retry
+ * (larger than `maxReplayBodyBytes`, or it failed while buffering).
+ */
+export class L402BodyNotReplayableError extends L402Error {
+  readonly url: string;
+  readonly maxBytes: number;
+
+  constructor(opts: { url: string; maxBytes: number; message: string }) {
+    super(opts.message);
+    this.url = opts.url;
+    this.maxBytes = opts.maxBytes;
+  }
+}
+
+/** `payTimeoutMs` or `deadlineMs` elapsed. Used as the abort reason of the signal handed to `pay`/`fetch`. */
+export class L402TimeoutError extends L402Error {
+  /** `pay`: a single payment took too long; `deadline`: the whole 402 → pay → retry cycle did. */
+  readonly phase: 'pay' | 'deadline';
+  readonly timeoutMs: number;
+
+  constructor(opts: { phase: 'pay' | 'deadline'; timeoutMs: number; message: string }) {
+    super(opts.message);
+    this.phase = opts.phase;
+    this.timeoutMs = opts.timeoutMs;
+  }
+}
+
+/**
+ * The request was aborted (or timed out) after a payment succeeded. The paid `credential` is attached, and
+ * was saved to the `tokenStore` if one is configured, so the next request can use it. `cause` is the abort reason.
+ */
+export class L402AbortedAfterPaymentError extends L402Error {
+  readonly credential: StoredToken;
+
+  constructor(opts: { credential: StoredToken; message: string; cause: unknown }) {
+    super(opts.message, { cause: opts.cause });
+    this.credential = opts.credential;
+  }
+}
+
+/**
+ * A request carrying a credential was redirected, but the `fetch` in use hides the target (a browser-style
+ * `opaqueredirect` response), so the credential could not be kept from another origin. If it had just been
+ * paid for, it was saved to the `tokenStore` first.
+ */
+export class L402UnsafeRedirectError extends L402Error {
+  /** URL that answered with the redirect. */
+  readonly url: string;
+  /** Header carrying the credential. */
+  readonly header: string;
+
+  constructor(opts: { url: string; header: string; message: string }) {
+    super(opts.message);
+    this.url = opts.url;
+    this.header = opts.header;
+  }
+}
+
+/**
+ * Base for the errors `fetchWithL402` throws in `strict` mode instead of returning a 402/401 response.
+ * `response` has not been read, so its body is still available.
+ */
+export class L402FetchError extends L402Error {
+  /** Challenge being handled, when one was parsed. */
+  readonly challenge?: L402Challenge;
+  /** Payments made so far for this request. */
+  readonly attempts: number;
+  readonly response: Response;
+
+  constructor(opts: { challenge?: L402Challenge; attempts: number; response: Response; message: string; cause?: unknown }) {
+    super(opts.message, opts.cause === undefined ? undefined : { cause: opts.cause });
+    this.challenge = opts.challenge;
+    this.attempts = opts.attempts;
+    this.response = opts.response;
+  }
+}
+
+/** The server answered 402 but no invoice could be found in its challenge. */
+export class L402ChallengeParseError extends L402FetchError {}
+
+/** `selectChallenge` declined every challenge the 402 offered. */
+export class L402NoAcceptableChallengeError extends L402FetchError {}
+
+/** `pay` threw; the original error is in `cause`. */
+export class L402PaymentFailedError extends L402FetchError {}
+
+/** The server answered 401/403 to the credential we just paid for. */
+export class L402ProofRejectedError extends L402FetchError {}
+
+/** The server still answered 402 after `max402Retries` payments. */
+export class L402RetriesExhaustedError extends L402FetchError {}
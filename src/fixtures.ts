@@ -0,0 +1,227 @@
+import fs from 'node:fs/promises';
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import path from 'node:path';
+
+import { parseAllChallenges, type L402Challenge } from './index.js';
+
+/**
+ * Recorded 402 responses and what the parser should make of them. A new interop quirk is one JSON file:
+ * the response as the server sent it, plus the expected `parseL402Challenge` output.
+ */
+
+export type ChallengeFixture = {
+  /** File-name-safe identifier; the replay server serves the fixture at `/<name>`. */
+  name: string;
+  description?: string;
+  /** Where the response came from: a server implementation, or `synthetic`. */
+  source?: string;
+  recordedAt?: string;
+  request?: { method: string; url: string };
+  response: {
+    status: number;
+    /** Lower-case header names. Repeated headers are joined with `, `. */
+    headers: Record<string, string>;
+    /** Raw text, or parsed JSON for JSON bodies. */
+    body?: string | unknown;
+  };
+  /**
+   * Expected first challenge (`null`: no challenge). Compared as a subset: only the listed fields are checked,
+   * recursively, so `decoded: { amountSats: 250 }` ignores the other decoded fields.
+   */
+  expected: Partial<Record<keyof L402Challenge, unknown>> | null;
+  /** Expected `parseAllChallenges` output, same subset rules; the count must match exactly. */
+  expectedAll?: Array<Partial<Record<keyof L402Challenge, unknown>>>;
+};
+
+// Never written to a fixture: credentials, and headers that describe the original transfer rather than the
+// (already decoded) body the fixture stores.
+const SKIPPED_HEADERS = new Set([
+  'authorization',
+  'cookie',
+  'set-cookie',
+  'proxy-authorization',
+  'x-api-key',
+  'content-length',
+  'content-encoding',
+  'transfer-encoding',
+  'connection',
+  'keep-alive',
+  'date'
+]);
+
+/** Builds the `Response` a fixture describes. */
+export function fixtureResponse(fixture: ChallengeFixture): Response {
+  const { body, headers, status } = fixture.response;
+  const text = body === undefined ? null : typeof body === 'string' ? body : JSON.stringify(body);
+  return new Response(text, { status, headers });
+}
+
+/** Paths where `actual` differs from the `expected` subset, e.g. `["meta.macaroon: expected \"a\", got \"b\""]`. */
+export function diffSubset(expected: unknown, actual: unknown, at = ''): string[] {
+  const label = at || '(root)';
+  if (expected === null || typeof expected !== 'object') {
+    return Object.is(expected, actual) ? [] : [`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+  }
+  if (actual === null || typeof actual !== 'object') return [`${label}: expected an object, got ${JSON.stringify(actual)}`];
+
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual)) return [`${label}: expected an array`];
+    if (actual.length !== expected.length) return [`${label}: expected ${expected.length} items, got ${actual.length}`];
+    return expected.flatMap((e, i) => diffSubset(e, actual[i], `${at}[${i}]`));
+  }
+  return Object.entries(expected).flatMap(([key, e]) =>
+    diffSubset(e, (actual as Record<string, unknown>)[key], at ? `${at}.${key}` : key)
+  );
+}
+
+/** Parses the fixture's response and returns every mismatch with its expectations (empty when it passes). */
+export async function checkChallengeFixture(fixture: ChallengeFixture): Promise<string[]> {
+  const all = await parseAllChallenges(fixtureResponse(fixture));
+  const first = all[0] ?? null;
+
+  const problems =
+    fixture.expected === null
+      ? first === null
+        ? []
+        : [`expected no challenge, got ${JSON.stringify(first.invoice)}`]
+      : first === null
+        ? ['expected a challenge, got none']
+        : diffSubset(fixture.expected, first);
+  if (fixture.expectedAll) problems.push(...diffSubset(fixture.expectedAll, all, 'all'));
+  return problems;
+}
+
+/** Reads every `*.json` fixture in `dir`, sorted by file name. */
+export async function loadChallengeFixtures(dir: string): Promise<ChallengeFixture[]> {
+  const files = (await fs.readdir(dir)).filter((f) => f.endsWith('.json')).sort();
+  const out: ChallengeFixture[] = [];
+  for (const file of files) {
+    const fixture = JSON.parse(await fs.readFile(path.join(dir, file), 'utf8')) as ChallengeFixture;
+    out.push({ ...fixture, name: fixture.name || path.basename(file, '.json') });
+  }
+  return out;
+}
+
+/**
+ * Writes `<dir>/<name>.json` (pretty-printed, trailing newline). Returns the path. Names must be plain file
+ * names: path separators and `..` are rejected, so a fixture can't be written outside `dir`.
+ */
+export async function saveChallengeFixture(dir: string, fixture: ChallengeFixture): Promise<string> {
+  const name = String(fixture.name ?? '');
+  if (!name || /[/\\\0]/.test(name) || name.includes('..')) {
+    throw new Error(`saveChallengeFixture: invalid fixture name ${JSON.stringify(name)}`);
+  }
+  await fs.mkdir(dir, { recursive: true });
+  const file = path.join(dir, `${fixture.name}.json`);
+  await fs.writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`, 'utf8');
+  return file;
+}
+
+export type FixtureRecorder = {
+  /** Pass as `fetch` (e.g. `fetchWithL402(url, init, { fetch: recorder.fetch, pay })`). */
+  fetch: typeof fetch;
+  /** Fixtures captured so far, in order. */
+  fixtures(): ChallengeFixture[];
+};
+
+function fixtureName(url: string, n: number): string {
+  let base = 'response';
+  try {
+    const u = new URL(url);
+    base = `${u.host}${u.pathname}`;
+  } catch {
+    // Keep `response`.
+  }
+  return `${base.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'response'}-${n}`;
+}
+
+/**
+ * Wraps a `fetch` to capture every 402 it sees as a fixture, with the current parser output as the
+ * expectation (review it before committing). Response cookies and transfer headers are not recorded.
+ */
+export function createFixtureRecorder(opts: { fetch?: typeof fetch; now?: () => number } = {}): FixtureRecorder {
+  const inner = opts.fetch || fetch;
+  const now = opts.now || Date.now;
+  const captured: ChallengeFixture[] = [];
+
+  const recordingFetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const res = await inner(input, init);
+    if (res.status !== 402) return res;
+
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const method = (init?.method || (input instanceof Request ? input.method : 'GET')).toUpperCase();
+    const headers: Record<string, string> = {};
+    res.headers.forEach((value, key) => {
+      if (!SKIPPED_HEADERS.has(key)) headers[key] = value;
+    });
+
+    const text = await res
+      .clone()
+      .text()
+      .catch(() => '');
+    let body: unknown = text;
+    if (/json/i.test(headers['content-type'] || '')) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // Keep the raw text.
+      }
+    }
+
+    const all = await parseAllChallenges(res);
+    // `decoded` is recomputed on replay and `decodeError` is an Error; keep the expectation readable.
+    const expectation = (c: L402Challenge) => {
+      const { decoded: _decoded, decodeError, ...rest } = c;
+      return decodeError ? { ...rest, decodeError: { code: decodeError.code } } : rest;
+    };
+
+    captured.push({
+      name: fixtureName(url, captured.length + 1),
+      source: 'recorded',
+      recordedAt: new Date(now()).toISOString(),
+      request: { method, url },
+      response: { status: res.status, headers, body },
+      expected: all[0] ? expectation(all[0]) : null,
+      expectedAll: all.map(expectation)
+    });
+    return res;
+  }) as typeof fetch;
+
+  return { fetch: recordingFetch, fixtures: () => captured.map((f) => ({ ...f })) };
+}
+
+/** Serves each fixture's response at `/<name>`, for clients other than this one or end-to-end runs. */
+export async function startFixtureReplayServer(fixtures: ChallengeFixture[]) {
+  const byPath = new Map(fixtures.map((f) => [`/${encodeURIComponent(f.name)}`, f]));
+
+  const server = http.createServer((req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    const fixture = byPath.get(url.pathname);
+    if (!fixture) {
+      res.writeHead(404, { 'content-type': 'text/plain' });
+      res.end('no such fixture');
+      return;
+    }
+    const { body, headers, status } = fixture.response;
+    res.writeHead(status, headers);
+    res.end(body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.listen(0, '127.0.0.1', () => resolve());
+    server.on('error', reject);
+  });
+
+  const addr = server.address();
+  if (!addr || typeof addr === 'string') throw new Error('failed to bind');
+  const baseUrl = `http://127.0.0.1:${addr.port}`;
+
+  return {
+    baseUrl,
+    urlFor: (name: string) => `${baseUrl}/${encodeURIComponent(name)}`,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((err?: Error | null) => (err ? reject(err) : resolve()))
+      )
+  };
+}
@@ -1,16 +1,177 @@
+import crypto from 'node:crypto';
+
+import type { L402Budget } from './budget.js';
+import { tryDecodeBolt11, type Bolt11DecodeError, type Bolt11Network, type DecodedBolt11 } from './bolt11.js';
+import { abortable } from './abort.js';
+import { parseAuthenticateHeader } from './auth_header.js';
+import {
+  L402AbortedAfterPaymentError,
+  L402ChallengeParseError,
+  L402InvalidPreimageError,
+  L402NoAcceptableChallengeError,
+  L402PaymentFailedError,
+  L402ProofRejectedError,
+  L402RetriesExhaustedError,
+  L402TimeoutError,
+  L402UnsafeRedirectError
+} from './errors.js';
+import { checkL402Invoice } from './invoice_checks.js';
+import type { ReceiptLedger } from './ledger.js';
+import { inspectMacaroon } from './macaroon.js';
+import { DEFAULT_MAX_REPLAY_BODY_BYTES, replayableBody, type ReplayableBody } from './replay.js';
+import { createL402SingleFlight, type L402SingleFlight } from './single_flight.js';
+import { defaultTokenKey, type StoredToken, type TokenKeyFn, type TokenStore } from './token_store.js';
+
+export { Bolt11DecodeError, decodeBolt11, encodeBolt11, recoverBolt11PayeeKey, tryDecodeBolt11 } from './bolt11.js';
+export type { Bolt11DecodeErrorCode, Bolt11InvoiceFields, Bolt11Network, DecodedBolt11 } from './bolt11.js';
+export { formatAuthChallenge, parseAuthenticateHeader } from './auth_header.js';
+export type { AuthChallenge } from './auth_header.js';
+export { createL402AxiosInterceptor } from './axios.js';
+export type { AxiosLikeInstance, L402AxiosOptions } from './axios.js';
+export { createL402Budget } from './budget.js';
+export { createChallengeSelector } from './challenge_select.js';
+export type { ChallengeSelectorOptions } from './challenge_select.js';
+export type { BudgetReservation, L402Budget, L402BudgetOptions, SpendWindow } from './budget.js';
+export {
+  L402AbortedAfterPaymentError,
+  L402AmountMismatchError,
+  L402BodyNotReplayableError,
+  L402BudgetExceededError,
+  L402ChallengeParseError,
+  L402Error,
+  L402FetchError,
+  L402InvalidPreimageError,
+  L402InvoiceExpiredError,
+  L402InvoiceRejectedError,
+  L402NoAcceptableChallengeError,
+  L402PayerError,
+  L402PaymentFailedError,
+  L402ProofRejectedError,
+  L402RetriesExhaustedError,
+  L402TimeoutError,
+  L402UnsafeRedirectError,
+  L402WrongNetworkError
+} from './errors.js';
+export type { L402BudgetRejectReason, L402InvoiceRejectReason } from './errors.js';
+export { advertisedPrice, checkL402Invoice, DEFAULT_CLOCK_SKEW_MS } from './invoice_checks.js';
+export type { InvoiceCheckOptions } from './invoice_checks.js';
+export { l402Middleware, verifyL402Authorization } from './middleware.js';
+export type {
+  CaveatSatisfier,
+  IssueInvoiceFn,
+  L402Middleware,
+  L402MiddlewareOptions,
+  L402RequestInfo,
+  L402VerifyFailure,
+  L402VerifyResult
+} from './middleware.js';
+export { createNwcPayer, parseNwcUri } from './nwc.js';
+export type { NwcConnection, NwcEncryption, NwcPayerOptions } from './nwc.js';
+export { createClnRestPayer, createLndRestPayer, feeLimitSats } from './rest_payers.js';
+export type { ClnRestPayerOptions, LndRestPayerOptions, RestPayerFeeOptions } from './rest_payers.js';
+export { buildSpendReport, createJsonlReceiptLedger, createMemoryReceiptLedger, spendReportToCsv } from './ledger.js';
+export type { MemoryReceiptLedger, ReceiptLedger, ReceiptLedgerEntry, SpendReport, SpendTotals } from './ledger.js';
+export { createL402SingleFlight, defaultSingleFlightKey } from './single_flight.js';
+export type { L402SingleFlight, L402SingleFlightOptions, SingleFlightKeyFn } from './single_flight.js';
+export { createMemoryTokenStore, defaultTokenKey } from './token_store.js';
+export type { MemoryTokenStore, StoredToken, TokenKeyFn, TokenStore } from './token_store.js';
+
+export type L402Scheme = 'L402' | 'LSAT';
+
+/** Where a challenge was found: a `WWW-Authenticate` header challenge or the JSON body. */
+export type L402ChallengeSource = 'www-authenticate' | 'body';
+
 export type L402Challenge = {
   invoice: string;
   /** Optional hint for what header to use on retry. */
   proofHeader?: string;
+  /** Auth scheme the server asked for (header challenges only). */
+  scheme?: L402Scheme;
+  source?: L402ChallengeSource;
   meta?: Record<string, unknown>;
+  /** BOLT11 fields decoded from `invoice` (amount, payment hash, expiry, ...). */
+  decoded?: DecodedBolt11;
+  /** Set instead of `decoded` when `invoice` is not a decodable BOLT11 string. */
+  decodeError?: Bolt11DecodeError;
+};
+
+/**
+ * What a `PayFn` may return:
+ * - `{ proof }`: an opaque string set verbatim on the proof header (JSON / custom-header servers).
+ * - `{ preimage, macaroon? }`: the library assembles `<scheme> <macaroon>:<preimage>`, falling back to
+ *   `challenge.meta.macaroon`. Without any macaroon the bare preimage is sent.
+ */
+export type PayResult = { proof: string } | { preimage: string; macaroon?: string };
+
+/** Passed to `PayFn` alongside the challenge. */
+export type PayContext = {
+  /**
+   * Aborts when the caller's signal does, or when `payTimeoutMs` / `deadlineMs` elapse (reason:
+   * `L402TimeoutError`). Payers should stop waiting when it fires; a payment already handed to a node or
+   * wallet may still settle.
+   */
+  signal: AbortSignal;
+};
+
+export type PayFn = (challenge: L402Challenge, ctx?: PayContext) => Promise<PayResult>;
+
+export type SelectChallengeFn = (
+  candidates: L402Challenge[],
+  ctx: { url: URL }
+) => L402Challenge | null | undefined | Promise<L402Challenge | null | undefined>;
+
+/** Record of a completed payment. */
+export type L402PaymentReceipt = {
+  url: string;
+  invoice: string;
+  /** From the decoded invoice, when available. */
+  paymentHash?: string;
+  amountSats?: number;
+  /** Set when the payer returned a preimage rather than an opaque proof. */
+  preimage?: string;
+  /** sha256 of `preimage` (hex); equals `paymentHash` for a valid payment. */
+  preimageHash?: string;
+  paidAt: number;
 };
 
-export type PayFn = (challenge: L402Challenge) => Promise<{ proof: string }>;
+export type L402ChallengeEvent = { url: string; challenge: L402Challenge; response: Response; attempt: number };
+export type L402PaymentEvent = {
+  url: string;
+  challenge: L402Challenge;
+  receipt: L402PaymentReceipt;
+  attempt: number;
+  /** Set when `ledger.record` threw. The payment went through regardless, and the request carries on. */
+  ledgerError?: unknown;
+};
+export type L402RetryEvent = {
+  url: string;
+  attempt: number;
+  /** Header carrying the credential on the retry; absent when retrying without one. */
+  header?: string;
+  /**
+   * `paid`: with a credential we just paid for. `shared`: with one another request paid for (single flight).
+   * `cache_rejected`: without the cached credential the server refused.
+   */
+  reason: 'paid' | 'shared' | 'cache_rejected';
+};
+export type L402CompleteEvent = {
+  url: string;
+  /** Final response status, absent when the request threw. */
+  status?: number;
+  error?: unknown;
+  /** Payments made by this request. */
+  attempts: number;
+  receipts: L402PaymentReceipt[];
+  /** Sum of known receipt amounts. */
+  paidSats: number;
+  durationMs: number;
+};
 
 export type FetchWithL402Options = {
   /**
    * Called when the server returns HTTP 402 with an L402 challenge.
-   * Should pay the invoice (or otherwise obtain proof) and return proof string.
+   * Should pay the invoice (or otherwise obtain proof) and return either a proof string
+   * or the payment preimage (see `PayResult`).
    */
   pay: PayFn;
 
@@ -19,71 +180,177 @@ export type FetchWithL402Options = {
 
   /** Max retries on 402. Defaults to 1 (i.e., one pay + retry). */
   max402Retries?: number;
+
+  /**
+   * Picks the challenge to pay when a 402 offers several (see `parseAllChallenges`, `createChallengeSelector`).
+   * Defaults to the first. Returning `null` pays nothing: the 402 is returned (strict mode throws
+   * `L402NoAcceptableChallengeError`).
+   */
+  selectChallenge?: SelectChallengeFn;
+
+  /**
+   * Cache for paid credentials. When set, a cached credential is attached to the first attempt,
+   * and pay+retry only happens if the server rejects it (401/402).
+   * Use `createMemoryTokenStore()` or back the `TokenStore` interface with your own storage.
+   */
+  tokenStore?: TokenStore;
+
+  /** Cache key for a request URL. Defaults to `defaultTokenKey` (origin + path). */
+  tokenKey?: TokenKeyFn;
+
+  /**
+   * Network the wallet pays on. Invoices for another network, or that don't decode, throw
+   * `L402WrongNetworkError` before `pay` runs.
+   */
+  network?: Bolt11Network;
+
+  /**
+   * Expired invoices throw `L402InvoiceExpiredError` before `pay` runs. This is how far past its expiry an
+   * invoice is still attempted, for clocks that disagree. Defaults to 60s.
+   */
+  clockSkewMs?: number;
+
+  /**
+   * Spending policy checked before every payment (see `createL402Budget`).
+   * A refused payment throws `L402BudgetExceededError` and `pay` is never called.
+   */
+  budget?: L402Budget;
+
+  /**
+   * Throw instead of returning the server's 402/401 response:
+   * - `L402ChallengeParseError`: 402 without a usable challenge.
+   * - `L402PaymentFailedError`: `pay` threw (original error in `cause`).
+   * - `L402ProofRejectedError`: 401/403 to a credential we just paid for.
+   * - `L402RetriesExhaustedError`: still 402 after `max402Retries` payments.
+   * Defaults to false.
+   */
+  strict?: boolean;
+
+  /**
+   * Stream request bodies (`ReadableStream`, Node `Readable`, a `Request`'s body) are buffered up to this
+   * many bytes so the paid retry can resend them. A larger body makes the kit throw
+   * `L402BodyNotReplayableError` instead of paying. Defaults to 1 MiB.
+   */
+  maxReplayBodyBytes?: number;
+
+  /**
+   * `fetch` implementation used for every attempt (e.g. one bound to an undici dispatcher with a proxy or
+   * client certificate, or a test double). Defaults to the global `fetch`.
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Shares one payment between concurrent requests for the same paywall (see `createL402SingleFlight`).
+   * Pass the same instance to every call that should coordinate. `createL402Fetch` creates one by default.
+   */
+  singleFlight?: L402SingleFlight;
+
+  /**
+   * Max time for one `pay` call. On expiry its signal aborts with `L402TimeoutError` (`phase: 'pay'`) and
+   * the kit stops waiting. If the payer still succeeds afterwards, its credential goes to `tokenStore`.
+   */
+  payTimeoutMs?: number;
+
+  /**
+   * Max time for the whole request → 402 → pay → retry cycle (until response headers). Aborts fetches and
+   * `pay` with `L402TimeoutError` (`phase: 'deadline'`).
+   */
+  deadlineMs?: number;
+
+  /** Called for every parsed 402 challenge, before any budget check or payment. */
+  onChallenge?: (event: L402ChallengeEvent) => void | Promise<void>;
+  /** Called after `pay` returns, with the receipt that goes to `ledger`. */
+  onPayment?: (event: L402PaymentEvent) => void | Promise<void>;
+  /** Called before each repeated request. */
+  onRetry?: (event: L402RetryEvent) => void | Promise<void>;
+  /** Called once per `fetchWithL402` call, when it returns or throws. */
+  onComplete?: (event: L402CompleteEvent) => void | Promise<void>;
+
+  /** Records a receipt for every payment (see `createMemoryReceiptLedger` / `createJsonlReceiptLedger`). */
+  ledger?: ReceiptLedger;
+  /** Label stored on ledger entries, for per-agent spend reports. */
+  agent?: string;
+};
+
+/** Options for `quoteL402`: everything `fetchWithL402` takes except the payer, which comes with `payAndFetch`. */
+export type L402QuoteOptions = Omit<FetchWithL402Options, 'pay'>;
+
+/** A priced 402, ready for `payAndFetch`. */
+export type L402Quote = {
+  paymentRequired: true;
+  url: string;
+  challenge: L402Challenge;
+  /** From the decoded invoice; absent for "any amount" or undecodable invoices. */
+  amountSats?: number;
+  /** Invoice expiry in epoch ms, from the decoded invoice. */
+  expiresAt?: number;
+  /** The 402 response itself. */
+  response: Response;
 };
 
-function parseAuthParams(s: string): Record<string, string> {
-  // Parses `k=v` / `k="v"` params from a WWW-Authenticate challenge.
-  // Still "best-effort" (not a full RFC 9110 parser), but robust across common L402/LSAT shapes.
-  //
-  // Implementations vary a lot:
-  // - comma-delimited: k=v, k2=v2
-  // - semicolon-delimited: k=v; k2=v2
-  // - space-delimited: k=v k2=v2
-  const out: Record<string, string> = {};
-
-  // Find all key=value occurrences, where value is either a quoted-string or a token.
-  // Examples:
-  //   macaroon="...", invoice="lnbc..."
-  //   macaroon=abc invoice=lnbc...
-  const re = /([a-zA-Z0-9_-]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^,;\s]+)/g;
-  for (const match of s.matchAll(re)) {
-    const k = String(match[1]).trim().toLowerCase();
-    let v = String(match[2] ?? '').trim();
-    if (v.startsWith('"') && v.endsWith('"') && v.length >= 2) v = v.slice(1, -1);
-    if (!k) continue;
-    out[k] = v;
+/** `quoteL402` result: a quote, or the response when the request needed no payment. */
+export type L402QuoteResult = L402Quote | { paymentRequired: false; response: Response };
+
+/** Per-call bookkeeping shared by the flow and `onComplete`. */
+type FlowStats = { attempts: number; receipts: L402PaymentReceipt[] };
+
+/** Where the flow stopped for a quote: enough to pay and retry without requesting the 402 again. */
+type QuotedChallenge = { challenge: L402Challenge; response: Response; replayable: ReplayableBody };
+
+/** `quote`: stop before paying the first challenge. `resume`: continue from a quoted challenge. */
+type FlowMode = { quote?: (quoted: QuotedChallenge) => void; resume?: QuotedChallenge };
+
+type PendingQuote = {
+  input: RequestInfo | URL;
+  init: RequestInit | undefined;
+  opts: L402QuoteOptions;
+  quoted: QuotedChallenge;
+};
+
+// Request state behind each unpaid quote; deleted when `payAndFetch` takes it, so a quote pays once.
+const pendingQuotes = new WeakMap<L402Quote, PendingQuote>();
+
+/** Runs a hook; instrumentation errors never break a (possibly paid) request. */
+async function emit<E>(hook: ((event: E) => void | Promise<void>) | undefined, event: E): Promise<void> {
+  if (!hook) return;
+  try {
+    await hook(event);
+  } catch {
+    // Ignored.
   }
+}
+
+function sha256Hex(hex: string): string | undefined {
+  const h = String(hex ?? '').trim().toLowerCase();
+  if (!/^[0-9a-f]{64}$/.test(h)) return undefined;
+  return crypto.createHash('sha256').update(Buffer.from(h, 'hex')).digest('hex');
+}
 
-  return out;
+function receiptFor(url: URL, challenge: L402Challenge, result: PayResult): L402PaymentReceipt {
+  const preimage = 'preimage' in result ? result.preimage : undefined;
+  const preimageHash = preimage !== undefined ? sha256Hex(preimage) : undefined;
+  return {
+    url: url.href,
+    invoice: challenge.invoice,
+    ...(challenge.decoded?.paymentHash ? { paymentHash: challenge.decoded.paymentHash } : {}),
+    ...(challenge.decoded?.amountSats !== undefined ? { amountSats: challenge.decoded.amountSats } : {}),
+    ...(preimage !== undefined ? { preimage } : {}),
+    ...(preimageHash ? { preimageHash } : {}),
+    paidAt: Date.now()
+  };
 }
 
-function parseWwwAuthenticateL402(res: Response): L402Challenge | null {
+function parseWwwAuthenticateL402(res: Response): L402Challenge[] {
   const h = res.headers.get('www-authenticate');
-  if (!h) return null;
-
-  // Common shape: `L402 macaroon="...", invoice="lnbc..."`
-  // Some implementations use `LSAT` scheme; we treat both.
-  //
-  // Note: multiple WWW-Authenticate values may be concatenated with `,` by some fetch impls.
-  // We split only on commas that look like they're starting a new auth challenge.
-  const segments = h
-    .split(/,(?=\s*(?:L402|LSAT)\s)/i)
-    .map((s) => s.trim())
-    .filter(Boolean);
-
-  for (const seg of segments) {
-    // Some servers format as `L402, macaroon="...", invoice="..."` (note comma after scheme)
-    // instead of `L402 macaroon="...", invoice="..."`.
-    const commaScheme = seg.match(/^(L402|LSAT)\s*,\s*(.*)$/i);
-    let scheme: string;
-    let rest: string;
-
-    if (commaScheme) {
-      scheme = commaScheme[1].trim().toLowerCase();
-      rest = commaScheme[2].trim();
-    } else {
-      const space = seg.indexOf(' ');
-      scheme = (space === -1 ? seg : seg.slice(0, space)).trim().toLowerCase();
-      rest = space === -1 ? '' : seg.slice(space + 1).trim();
-      // Be forgiving: strip trailing punctuation from the scheme token (e.g. `l402,`).
-      scheme = scheme.replace(/[^a-z0-9]+$/gi, '');
-      rest = rest.replace(/^,\s*/, '');
-    }
+  if (!h) return [];
 
+  // Common shape: `L402 macaroon="...", invoice="lnbc..."`. Some implementations use the `LSAT` scheme;
+  // we treat both. Several header values may arrive joined with `,`, next to unrelated schemes.
+  const challenges: L402Challenge[] = [];
+  for (const { scheme: sent, params } of parseAuthenticateHeader(h)) {
+    const scheme = sent.toLowerCase();
     if (scheme !== 'l402' && scheme !== 'lsat') continue;
 
-    const params = parseAuthParams(rest);
-
     // Invoice param variants seen in the wild.
     const invoice =
       params.invoice ||
@@ -101,15 +368,17 @@ function parseWwwAuthenticateL402(res: Response): L402Challenge | null {
     const proofHeader =
       params.proof_header || params.proofheader || params['proof-header'] || params.header || undefined;
 
-    return {
+    challenges.push({
       invoice,
+      scheme: scheme === 'lsat' ? 'LSAT' : 'L402',
       // Default convention for LSAT/L402 header challenges is to retry with Authorization.
       proofHeader: proofHeader ? String(proofHeader) : 'authorization',
-      meta
-    };
+      meta,
+      source: 'www-authenticate'
+    });
   }
 
-  return null;
+  return challenges;
 }
 
 function extractInvoiceCandidate(obj: any): string | null {
@@ -137,15 +406,17 @@ function extractProofHeaderHint(obj: any): string | undefined {
   return typeof v === 'string' && v.trim() ? v : undefined;
 }
 
-function parseJsonChallenge(bodyText: string): L402Challenge | null {
+function parseJsonChallenges(bodyText: string): L402Challenge[] {
   // Accept JSON bodies that carry a BOLT11 invoice.
   // Variants seen in the wild include:
   // - direct keys: invoice, payment_request, paymentRequest, pr, bolt11
   // - wrapped: { l402: { invoice: ... } } or { challenge: { invoice: ... } }
   // - error wrappers: { error: { invoice: ... } } / { error: { l402: { invoice: ... } } }
+  // - several options: { challenges: [...] } / { options: [...] } / { offers: [...] } / { invoices: [...] },
+  //   with invoice strings or objects (which may carry their own proof header hint and meta)
   try {
     const j = JSON.parse(bodyText);
-    if (!j || typeof j !== 'object') return null;
+    if (!j || typeof j !== 'object') return [];
 
     // We do "best-effort" extraction across a few common wrapper shapes.
     const candidates: any[] = [
@@ -163,13 +434,6 @@ function parseJsonChallenge(bodyText: string): L402Challenge | null {
       (j as any)?.data?.challenge
     ];
 
-    let invoice: string | null = null;
-    for (const c of candidates) {
-      invoice = extractInvoiceCandidate(c);
-      if (invoice) break;
-    }
-    if (typeof invoice !== 'string' || !invoice.trim()) return null;
-
     // Proof header hint might live at top-level or within common wrappers.
     const proofHintCandidates: any[] = [
       j,
@@ -190,19 +454,233 @@ function parseJsonChallenge(bodyText: string): L402Challenge | null {
       if (proofHeader) break;
     }
 
-    const meta =
-      (typeof (j as any).meta === 'object' && (j as any).meta ? (j as any).meta : undefined) ??
-      (typeof (j as any)?.l402?.meta === 'object' && (j as any).l402.meta ? (j as any).l402.meta : undefined);
+    const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+    const meta = isObject((j as any).meta) ? (j as any).meta : isObject((j as any)?.l402?.meta) ? (j as any).l402.meta : undefined;
+
+    const challenges: L402Challenge[] = [];
+    const add = (invoice: string | null, hint: string | undefined, m: Record<string, unknown> | undefined) => {
+      if (!invoice || challenges.some((c) => c.invoice === invoice)) return;
+      challenges.push({ invoice, proofHeader: hint, meta: m, source: 'body' });
+    };
+
+    for (const c of candidates) add(extractInvoiceCandidate(c), proofHeader, meta);
+
+    for (const holder of [j, (j as any).l402, (j as any).data]) {
+      if (!isObject(holder)) continue;
+      for (const key of ['challenges', 'options', 'offers', 'invoices']) {
+        const list = holder[key];
+        if (!Array.isArray(list)) continue;
+        for (const item of list) {
+          if (typeof item === 'string') add(item.trim() ? item : null, proofHeader, meta);
+          else if (isObject(item)) {
+            add(extractInvoiceCandidate(item), extractProofHeaderHint(item) ?? proofHeader, isObject(item.meta) ? item.meta : meta);
+          }
+        }
+      }
+    }
+
+    return challenges;
+  } catch {
+    return [];
+  }
+}
+
+/** Every challenge in the response: header challenges first, then body ones with a different invoice. */
+function parseChallenges(res: Response, bodyText: string): L402Challenge[] {
+  const header = parseWwwAuthenticateL402(res);
+  const body = parseJsonChallenges(bodyText).filter((c) => !header.some((h) => h.invoice === c.invoice));
+  const challenges = [...header, ...body];
+
+  // Decoding is informational: an undecodable invoice is still handed to `pay`.
+  for (const challenge of challenges) {
+    const { decoded, error } = tryDecodeBolt11(challenge.invoice);
+    if (decoded) challenge.decoded = decoded;
+    else challenge.decodeError = error;
+  }
+  return challenges;
+}
+
+/**
+ * Every L402 challenge a 402 response offers (each `WWW-Authenticate` L402/LSAT challenge, then the invoices
+ * in its JSON body), with `source` set. Does not consume `res`.
+ */
+export async function parseAllChallenges(res: Response): Promise<L402Challenge[]> {
+  const bodyText = await res
+    .clone()
+    .text()
+    .catch(() => '');
+  return parseChallenges(res, bodyText);
+}
+
+/**
+ * Parses the L402 challenge of a 402 response (header preferred over JSON body) without consuming `res`,
+ * or resolves `null` when there is none.
+ */
+export async function parseL402Challenge(res: Response): Promise<L402Challenge | null> {
+  return (await parseAllChallenges(res))[0] ?? null;
+}
+
+/**
+ * Formats an L402/LSAT credential: `L402 <macaroon>:<preimage>`.
+ * Suitable for the `Authorization` header.
+ */
+export function formatL402Credential(opts: { macaroon: string; preimage: string; scheme?: L402Scheme }): string {
+  const scheme = opts.scheme || 'L402';
+  return `${scheme} ${opts.macaroon}:${opts.preimage}`;
+}
+
+/** Turns whatever `PayFn` returned into the header value to retry with. */
+export function resolveProof(challenge: L402Challenge, result: PayResult): string {
+  if ('proof' in result && typeof result.proof === 'string') return result.proof;
+
+  const { preimage, macaroon: explicitMacaroon } = result as { preimage: string; macaroon?: string };
+  if (typeof preimage !== 'string' || !preimage.trim()) {
+    throw new Error('fetchWithL402: pay() must return { proof } or { preimage }');
+  }
+
+  const metaMacaroon = challenge.meta?.macaroon;
+  const macaroon = explicitMacaroon || (typeof metaMacaroon === 'string' ? metaMacaroon : undefined);
+  if (!macaroon) return preimage;
+
+  return formatL402Credential({ macaroon, preimage, scheme: challenge.scheme });
+}
+
+function requestUrl(input: RequestInfo | URL): URL {
+  if (input instanceof URL) return input;
+  if (typeof input === 'string') return new URL(input);
+  return new URL(input.url);
+}
+
+/**
+ * Throws `L402InvalidPreimageError` when the payer returned a preimage that does not hash to the decoded
+ * invoice's payment hash. Retrying with it would only earn another 402.
+ */
+function checkPreimage(url: URL, challenge: L402Challenge, result: PayResult): void {
+  if (!('preimage' in result)) return;
+  const paymentHash = challenge.decoded?.paymentHash;
+  if (!paymentHash) return;
 
-    return { invoice, proofHeader, meta };
+  if (sha256Hex(result.preimage) === paymentHash) return;
+
+  throw new L402InvalidPreimageError({
+    message: `fetchWithL402: preimage does not match invoice payment hash ${paymentHash}`,
+    challenge,
+    receipt: receiptFor(url, challenge, result)
+  });
+}
+
+/** Identifies an invoice across encodings: by payment hash when it decoded. */
+function invoiceKey(invoice: string | undefined, paymentHash: string | undefined): string | undefined {
+  return paymentHash || invoice?.trim().toLowerCase() || undefined;
+}
+
+/** Expiry from the macaroon's `expires=` / `*_valid_until=` caveats, if it parses. */
+function macaroonExpiresAt(macaroon: string | undefined): number | undefined {
+  if (!macaroon) return undefined;
+  try {
+    return inspectMacaroon(macaroon).expiresAt;
   } catch {
-    return null;
+    return undefined;
   }
 }
 
-function parseChallenge(res: Response, bodyText: string): L402Challenge | null {
-  // Prefer header-based challenges when present.
-  return parseWwwAuthenticateL402(res) || parseJsonChallenge(bodyText);
+/**
+ * Calls `pay` with a signal that also aborts after `timeoutMs`, and stops waiting once it fires. A payer that
+ * ignores the signal keeps running; `onLate` gets its result if it still succeeds.
+ */
+async function callPay(
+  pay: PayFn,
+  challenge: L402Challenge,
+  opts: { signal?: AbortSignal | null; timeoutMs?: number; onLate: (result: PayResult) => void }
+): Promise<PayResult> {
+  const timeoutMs = Number(opts.timeoutMs ?? 0);
+  const timeout = timeoutMs > 0 ? new AbortController() : undefined;
+  const timer = timeout
+    ? setTimeout(() => {
+        const message = `fetchWithL402: pay did not finish within ${timeoutMs}ms`;
+        timeout.abort(new L402TimeoutError({ phase: 'pay', timeoutMs, message }));
+      }, timeoutMs)
+    : undefined;
+
+  const signals = [opts.signal, timeout?.signal].filter((s): s is AbortSignal => !!s);
+  const signal = signals.length > 1 ? AbortSignal.any(signals) : (signals[0] ?? new AbortController().signal);
+  if (signal.aborted) {
+    clearTimeout(timer);
+    throw signal.reason;
+  }
+  const payment = Promise.resolve().then(() => pay(challenge, { signal }));
+  try {
+    return await abortable(payment, signal);
+  } catch (err) {
+    if (signal.aborted) payment.then(opts.onLate, () => {});
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const MAX_REDIRECTS = 20;
+// Never sent to another origin (what `fetch` strips on a cross-origin redirect, plus the credential's header).
+const ORIGIN_BOUND_HEADERS = ['authorization', 'proxy-authorization', 'cookie'];
+// Describe a body the redirect dropped.
+const BODY_HEADERS = ['content-type', 'content-encoding', 'content-language', 'content-location'];
+
+/**
+ * Sends a request that carries a credential, following redirects itself. `fetch` strips only `Authorization`
+ * when a redirect crosses origins, so a credential on `x-l402-proof` (or any custom header) would reach the new
+ * host. Here the credential stays on same-origin hops and is dropped from the first hop that leaves.
+ *
+ * A spec `fetch` in a browser answers a manual redirect with an opaque, status-0 response that hides the target.
+ * Then only an `Authorization` credential is safe to hand back to `fetch`; others throw `L402UnsafeRedirectError`.
+ */
+async function fetchWithCredential(
+  fetchImpl: typeof fetch,
+  input: RequestInfo | URL,
+  init: RequestInit,
+  credentialHeader: string,
+  replayBody: () => Promise<BodyInit | null | undefined>
+): Promise<Response> {
+  const redirect = init.redirect ?? (input instanceof Request ? input.redirect : 'follow');
+  if (redirect !== 'follow') return fetchImpl(input as any, init);
+
+  let url = requestUrl(input);
+  const origin = url.origin;
+  let method = (init.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+  let hopInit: RequestInit = { ...init, redirect: 'manual' };
+  let res = await fetchImpl(input as any, hopInit);
+  if (res.type === 'opaqueredirect') {
+    if (credentialHeader.toLowerCase() === 'authorization') return fetchImpl(input as any, init);
+    throw new L402UnsafeRedirectError({
+      message: `fetchWithL402: ${url.href} redirected to a location this fetch hides; not following it with the ${credentialHeader} credential`,
+      url: url.href,
+      header: credentialHeader
+    });
+  }
+
+  for (let hops = 0; REDIRECT_STATUSES.has(res.status) && res.headers.has('location'); hops++) {
+    if (hops >= MAX_REDIRECTS) throw new TypeError(`fetchWithL402: more than ${MAX_REDIRECTS} redirects`);
+    const next = new URL(res.headers.get('location')!, url);
+    await res.body?.cancel().catch(() => {});
+
+    const headers = new Headers(hopInit.headers);
+    if (next.origin !== origin) {
+      for (const name of [credentialHeader, ...ORIGIN_BOUND_HEADERS]) headers.delete(name);
+    }
+    // As `fetch` does: 303 (other than HEAD), and 301/302 after a POST, continue as a GET without the body.
+    let body: BodyInit | null | undefined;
+    if ((res.status === 303 && method !== 'HEAD') || ((res.status === 301 || res.status === 302) && method === 'POST')) {
+      method = 'GET';
+      for (const name of BODY_HEADERS) headers.delete(name);
+    } else {
+      body = await replayBody();
+    }
+
+    url = next;
+    hopInit = { ...hopInit, method, headers, body: body ?? null };
+    res = await fetchImpl(url.href, hopInit);
+  }
+  return res;
 }
 
 export async function fetchWithL402(
@@ -211,32 +689,390 @@ export async function fetchWithL402(
   opts: FetchWithL402Options
 ): Promise<Response> {
   if (!opts?.pay) throw new Error('fetchWithL402: opts.pay is required');
+  return runL402(input, init, opts);
+}
+
+async function runL402(
+  input: RequestInfo | URL,
+  init: RequestInit | undefined,
+  opts: FetchWithL402Options,
+  mode: FlowMode = {}
+): Promise<Response> {
+  const started = Date.now();
+  const stats: FlowStats = { attempts: 0, receipts: [] };
+  const complete = (outcome: { status?: number; error?: unknown }) =>
+    emit(opts.onComplete, {
+      url: typeof input === 'string' ? input : input instanceof URL ? input.href : input.url,
+      ...outcome,
+      attempts: stats.attempts,
+      receipts: stats.receipts,
+      paidSats: stats.receipts.reduce((sum, r) => sum + (r.amountSats ?? 0), 0),
+      durationMs: Date.now() - started
+    });
+
+  let res: Response;
+  try {
+    res = await runWithDeadline(input, init, opts, stats, mode);
+  } catch (err) {
+    await complete({ error: err });
+    throw err;
+  }
+  await complete({ status: res.status });
+  return res;
+}
+
+async function runWithDeadline(
+  input: RequestInfo | URL,
+  init: RequestInit | undefined,
+  opts: FetchWithL402Options,
+  stats: FlowStats,
+  mode: FlowMode
+): Promise<Response> {
+  if (opts.deadlineMs === undefined) return l402Flow(input, init, opts, stats, mode);
+
+  const deadlineMs = Math.max(0, Number(opts.deadlineMs));
+  const deadline = new AbortController();
+  const timer = setTimeout(() => {
+    const message = `fetchWithL402: no response within the ${deadlineMs}ms deadline`;
+    deadline.abort(new L402TimeoutError({ phase: 'deadline', timeoutMs: deadlineMs, message }));
+  }, deadlineMs);
+
+  const callerSignal = init?.signal ?? (input instanceof Request ? input.signal : undefined);
+  const signal = callerSignal ? AbortSignal.any([callerSignal, deadline.signal]) : deadline.signal;
+  try {
+    return await l402Flow(input, { ...init, signal }, opts, stats, mode);
+  } finally {
+    clearTimeout(timer);
+  }
+}
 
+async function l402Flow(
+  input: RequestInfo | URL,
+  init: RequestInit | undefined,
+  opts: FetchWithL402Options,
+  stats: FlowStats,
+  mode: FlowMode = {}
+): Promise<Response> {
   const maxRetries = Math.max(0, Number(opts.max402Retries ?? 1));
   const defaultProofHeader = String(opts.proofHeader || 'x-l402-proof');
+  const fetchImpl = opts.fetch ?? fetch;
 
-  // Clone init each attempt (headers are mutable).
-  const baseInit: RequestInit = { ...init };
+  const url = requestUrl(input);
 
-  let attempt = 0;
-  while (true) {
-    const res = await fetch(input as any, { ...baseInit, headers: new Headers(baseInit.headers || undefined) });
+  // Clone init each attempt (headers are mutable). Passing `headers` to fetch replaces a Request's own
+  // headers, so start from those unless init brings its own (as fetch would).
+  const initialHeaders = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+  const baseInit: RequestInit = { ...init, headers: initialHeaders };
 
-    if (res.status !== 402) return res;
+  // Stream bodies are one-shot: tee them now so the paid retry can resend the same bytes.
+  const replayable =
+    mode.resume?.replayable ??
+    replayableBody(input, init, {
+      url: url.href,
+      maxBytes: Math.max(0, Number(opts.maxReplayBodyBytes ?? DEFAULT_MAX_REPLAY_BODY_BYTES))
+    });
+  let body = replayable.initial;
+  let streaming = replayable.streaming;
+  const useReplayBody = async () => {
+    body = await replayable.replay();
+    streaming = false;
+  };
+  const store = opts.tokenStore;
+  const tokenKey = store ? (opts.tokenKey || defaultTokenKey)(url) : '';
 
-    if (attempt >= maxRetries) return res;
+  // Credential currently attached to the request: either a cached one, or one we just paid for.
+  let cached: StoredToken | undefined = store && !mode.resume ? await store.get(tokenKey) : undefined;
+  // Custom stores may not check expiry; an expired credential would only cost a 402 round trip.
+  if (cached?.expiresAt !== undefined && cached.expiresAt <= Date.now()) {
+    await store!.delete(tokenKey);
+    cached = undefined;
+  }
+  let pending: StoredToken | undefined;
 
-    const bodyText = await res.text().catch(() => '');
-    const challenge = parseChallenge(res, bodyText);
-    if (!challenge) return res;
+  // Invoices behind the credentials this request has sent. A 402 offering one of them again means the server
+  // rejected the credential (expired, revoked); it is not a new price, and paying it again would lose the money.
+  const paidInvoices = new Set<string>();
+  const notePaid = (token: StoredToken | undefined) => {
+    const key = invoiceKey(token?.invoice, token?.paymentHash);
+    if (key) paidInvoices.add(key);
+  };
+  notePaid(cached);
 
-    const { proof } = await opts.pay(challenge);
-    const hdrName = String(challenge.proofHeader || defaultProofHeader);
+  const strict = Boolean(opts.strict);
+  const signal = init?.signal ?? (input instanceof Request ? input.signal : undefined);
+  let challenge: L402Challenge | undefined;
 
+  let sharedCredentialTried = false;
+  let resumed = mode.resume;
+  while (true) {
     const headers = new Headers(baseInit.headers || undefined);
-    headers.set(hdrName, proof);
+    if (cached) headers.set(cached.header, cached.value);
+    const credential = cached ?? pending;
+    const attemptInit: RequestInit = {
+      ...baseInit,
+      headers,
+      ...(body != null ? { body } : {}),
+      // Required by Node's fetch for stream bodies; not in the DOM RequestInit type.
+      ...(streaming ? ({ duplex: 'half' } as RequestInit) : {})
+    };
+    const requestedAt = Date.now();
+    let res: Response;
+    try {
+      res = resumed
+        ? resumed.response
+        : credential
+          ? await fetchWithCredential(fetchImpl, input, attemptInit, credential.header, replayable.replay)
+          : await fetchImpl(input as any, attemptInit);
+    } catch (err) {
+      if (!pending) throw err;
+      // We paid but never heard back: keep the credential so the money isn't wasted.
+      if (store) await store.set(tokenKey, pending);
+      if (!signal?.aborted) throw err;
+      throw new L402AbortedAfterPaymentError({
+        message: 'fetchWithL402: aborted after paying; the paid credential is attached',
+        credential: pending,
+        cause: err
+      });
+    }
+
+    if (cached && (res.status === 401 || res.status === 402)) {
+      // The server rejected the cached credential: forget it and go through the normal flow.
+      await store!.delete(tokenKey);
+      cached = undefined;
+      if (res.status === 401) {
+        await useReplayBody();
+        await emit(opts.onRetry, { url: url.href, attempt: stats.attempts, reason: 'cache_rejected' });
+        continue;
+      }
+    } else if (res.status !== 402) {
+      if (strict && pending && (res.status === 401 || res.status === 403)) {
+        throw new L402ProofRejectedError({
+          message: `fetchWithL402: server rejected the paid credential (HTTP ${res.status})`,
+          challenge,
+          attempts: stats.attempts,
+          response: res
+        });
+      }
+      if (store && pending && res.status !== 401 && res.status !== 403) await store.set(tokenKey, pending);
+      return res;
+    }
+
+    // Parses a clone so the response we hand back (or attach to an error) is still readable. A quoted
+    // response may have been read since, so reuse its challenge.
+    const offered = resumed ? [resumed.challenge] : await parseAllChallenges(res);
+    const candidates = offered.filter((c) => !paidInvoices.has(invoiceKey(c.invoice, c.decoded?.paymentHash)!));
+    if (offered.length && !candidates.length) {
+      if (!strict) return res;
+      throw new L402ProofRejectedError({
+        message: 'fetchWithL402: server rejected the credential and offered the invoice it was paid with',
+        challenge: offered[0],
+        attempts: stats.attempts,
+        response: res
+      });
+    }
+    const parsed =
+      resumed || !opts.selectChallenge || !candidates.length
+        ? candidates[0]
+        : await opts.selectChallenge(candidates, { url });
+    resumed = undefined;
+    if (!parsed && candidates.length) {
+      if (!strict) return res;
+      throw new L402NoAcceptableChallengeError({
+        message: `fetchWithL402: selectChallenge declined all ${candidates.length} challenge(s)`,
+        challenge,
+        attempts: stats.attempts,
+        response: res
+      });
+    }
+    if (!parsed) {
+      if (!strict) return res;
+      throw new L402ChallengeParseError({
+        message: 'fetchWithL402: 402 response did not contain a recognizable challenge',
+        challenge,
+        attempts: stats.attempts,
+        response: res
+      });
+    }
+    challenge = parsed;
+    await emit(opts.onChallenge, { url: url.href, challenge, response: res, attempt: stats.attempts });
+
+    if (stats.attempts >= maxRetries) {
+      if (!strict) return res;
+      throw new L402RetriesExhaustedError({
+        message: `fetchWithL402: still 402 after ${stats.attempts} payment(s)`,
+        challenge,
+        attempts: stats.attempts,
+        response: res
+      });
+    }
+
+    // Before any money moves: make sure the retry can carry the original body.
+    await useReplayBody();
 
-    baseInit.headers = headers;
-    attempt += 1;
+    if (mode.quote) {
+      mode.quote({ challenge, response: res, replayable });
+      return res;
+    }
+
+    const current = challenge;
+    const tokenFor = (result: PayResult): StoredToken => {
+      const proof = resolveProof(current, result);
+      const hdrName = String(current.proofHeader || defaultProofHeader);
+
+      const rawMacaroon = ('macaroon' in result && result.macaroon) || current.meta?.macaroon;
+      const macaroon = typeof rawMacaroon === 'string' ? rawMacaroon : undefined;
+      const expiresAt = macaroonExpiresAt(macaroon);
+      return {
+        header: hdrName.toLowerCase(),
+        value: proof,
+        macaroon,
+        invoice: current.invoice,
+        ...(current.decoded?.paymentHash ? { paymentHash: current.decoded.paymentHash } : {}),
+        createdAt: Date.now(),
+        ...(expiresAt !== undefined ? { expiresAt } : {})
+      };
+    };
+    const recordPayment = async (result: PayResult) => {
+      const receipt = receiptFor(url, current, result);
+      stats.receipts.push(receipt);
+      // The money has moved: a failing ledger must not cost the credential.
+      let ledgerError: unknown;
+      if (opts.ledger) {
+        const { preimage: _preimage, ...entry } = receipt;
+        try {
+          await opts.ledger.record({ ...entry, ...(opts.agent ? { agent: opts.agent } : {}) });
+        } catch (err) {
+          ledgerError = err;
+        }
+      }
+      await emit(opts.onPayment, {
+        url: url.href,
+        challenge: current,
+        receipt,
+        attempt: stats.attempts,
+        ...(ledgerError !== undefined ? { ledgerError } : {})
+      });
+    };
+    // A payment we stopped waiting for may still settle; record it, and cache its credential if valid.
+    const onLatePayment = (result: PayResult) => {
+      recordPayment(result).catch(() => {});
+      try {
+        checkPreimage(url, current, result);
+      } catch {
+        return;
+      }
+      if (store) Promise.resolve(store.set(tokenKey, tokenFor(result))).catch(() => {});
+    };
+
+    const payForChallenge = async (): Promise<StoredToken> => {
+      checkL402Invoice(url, current, { network: opts.network, clockSkewMs: opts.clockSkewMs });
+      const reservation = opts.budget ? await opts.budget.reserve(url, current) : undefined;
+      let result: PayResult;
+      try {
+        result = await callPay(opts.pay, current, { signal, timeoutMs: opts.payTimeoutMs, onLate: onLatePayment });
+      } catch (err) {
+        // A payment cut short by an abort or timeout may still settle, so it stays counted against the budget.
+        if (!(err instanceof L402TimeoutError) && !signal?.aborted) reservation?.release();
+        if (!strict || signal?.aborted) throw err;
+        throw new L402PaymentFailedError({
+          message: `fetchWithL402: payment failed: ${String((err as Error)?.message || err)}`,
+          challenge: current,
+          attempts: stats.attempts,
+          response: res,
+          cause: err
+        });
+      }
+      await recordPayment(result);
+      checkPreimage(url, current, result);
+      return tokenFor(result);
+    };
+
+    // Each request rides along with someone else's payment at most once; after that it pays itself.
+    let shared = false;
+    if (opts.singleFlight && !sharedCredentialTried) {
+      const flight = await opts.singleFlight.run(url, current, payForChallenge, { signal, requestedAt });
+      pending = flight.token;
+      if (flight.leader) stats.attempts += 1;
+      else shared = sharedCredentialTried = true;
+    } else {
+      pending = await payForChallenge();
+      stats.attempts += 1;
+    }
+    notePaid(pending);
+
+    const retryHeaders = new Headers(initialHeaders);
+    retryHeaders.set(pending.header, pending.value);
+    baseInit.headers = retryHeaders;
+    await emit(opts.onRetry, {
+      url: url.href,
+      attempt: stats.attempts,
+      header: pending.header,
+      reason: shared ? 'shared' : 'paid'
+    });
   }
 }
+
+/**
+ * Returns a drop-in `fetch` that handles 402 challenges with `opts`, for code (and libraries) that
+ * accept a custom `fetch`.
+ */
+export function createL402Fetch(opts: FetchWithL402Options): typeof fetch {
+  if (!opts?.pay) throw new Error('createL402Fetch: opts.pay is required');
+  const shared: FetchWithL402Options = { ...opts, singleFlight: opts.singleFlight ?? createL402SingleFlight() };
+  return (input, init) => fetchWithL402(input, init, shared);
+}
+
+/**
+ * Sends the request without paying. Resolves the response when no payment is needed, or a quote with the
+ * parsed challenge (amount, expiry) that `payAndFetch` can settle without requesting the 402 again. A 402
+ * that cannot be quoted throws as in strict mode (`L402ChallengeParseError`, `L402NoAcceptableChallengeError`,
+ * ...), so it is never mistaken for a free response.
+ */
+export async function quoteL402(
+  input: RequestInfo | URL,
+  init?: RequestInit,
+  opts: L402QuoteOptions = {}
+): Promise<L402QuoteResult> {
+  let quoted: QuotedChallenge | undefined;
+  const flowOpts: FetchWithL402Options = {
+    ...opts,
+    strict: true,
+    pay: async () => {
+      throw new Error('quoteL402: does not pay');
+    }
+  };
+  const stats: FlowStats = { attempts: 0, receipts: [] };
+  const response = await runWithDeadline(input, init, flowOpts, stats, {
+    quote: (q) => {
+      quoted = q;
+    }
+  });
+  if (!quoted) return { paymentRequired: false, response };
+
+  const { decoded } = quoted.challenge;
+  const quote: L402Quote = {
+    paymentRequired: true,
+    url: requestUrl(input).href,
+    challenge: quoted.challenge,
+    ...(decoded?.amountSats !== undefined ? { amountSats: decoded.amountSats } : {}),
+    ...(decoded ? { expiresAt: decoded.expiresAt * 1000 } : {}),
+    response
+  };
+  pendingQuotes.set(quote, { input, init, opts, quoted });
+  return quote;
+}
+
+/**
+ * Pays a quote from `quoteL402` and retries the original request with the credential. Takes a payer, or
+ * full `fetchWithL402` options that override the quote's. Each quote can be paid once.
+ */
+export async function payAndFetch(quote: L402Quote, payer: PayFn | FetchWithL402Options): Promise<Response> {
+  const pendingQuote = pendingQuotes.get(quote);
+  if (!pendingQuote) throw new Error('payAndFetch: quote was already paid or did not come from quoteL402');
+  const opts: FetchWithL402Options =
+    typeof payer === 'function' ? { ...pendingQuote.opts, pay: payer } : { ...pendingQuote.opts, ...payer };
+  if (!opts.pay) throw new Error('payAndFetch: a payer is required');
+
+  pendingQuotes.delete(quote);
+  return runL402(pendingQuote.input, pendingQuote.init, opts, { resume: pendingQuote.quoted });
+}
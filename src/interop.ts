@@ -1,75 +1,383 @@
-import assert from 'node:assert/strict';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
 
-import { fetchWithL402 } from './index.js';
-import { startMockL402Server } from './mock_server.js';
+import {
+  createMemoryTokenStore,
+  fetchWithL402,
+  parseL402Challenge,
+  type FetchWithL402Options,
+  type L402Challenge,
+  type PayFn
+} from './index.js';
+import { MOCK_L402_SCENARIOS, startMockL402Server, type MockL402ScenarioName, type MockL402ServerOpts } from './mock_server.js';
 
 /**
- * Minimal runnable harness that exercises several common L402 challenge variants.
+ * Interop harness: runs `fetchWithL402` against every challenge shape the mock server can emit (or against
+ * your own server) and reports a pass/fail matrix as a table, JSON or JUnit XML.
  *
  * Usage:
  *   npm run interop
+ *   l402 interop --format junit > interop.xml
+ *   l402 interop --base-url https://api.example.com/paid --payer ./payer.js
  */
-export async function runInteropHarness() {
-  const results: Array<{ name: string; status: number; body: any }> = [];
 
-  const run = async (name: string, fn: () => Promise<Response>) => {
-    const res = await fn();
-    const body = await res.json().catch(() => null);
-    results.push({ name, status: res.status, body });
-  };
+type JsonVariant = NonNullable<MockL402ServerOpts['challengeJsonVariant']>;
+type InvoiceKey = NonNullable<MockL402ServerOpts['invoiceKey']>;
+
+// Objects rather than arrays so the compiler flags variants added to the mock server but missing here.
+const JSON_VARIANTS = Object.keys({
+  flat: true,
+  l402: true,
+  challenge: true,
+  data: true,
+  details: true,
+  error: true,
+  'error.l402': true,
+  'data.l402': true,
+  'data.challenge': true
+} satisfies Record<JsonVariant, true>) as JsonVariant[];
+
+const INVOICE_KEYS = Object.keys({
+  invoice: true,
+  payment_request: true,
+  paymentRequest: true,
+  payreq: true,
+  pr: true,
+  bolt11: true,
+  'bolt-11': true,
+  bolt_11: true
+} satisfies Record<InvoiceKey, true>) as InvoiceKey[];
+
+/** Final status `fetchWithL402` should end with for each fault scenario (it doesn't retry 401/429/5xx). */
+const SCENARIO_STATUS: Record<MockL402ScenarioName, number> = {
+  'happy-path': 200,
+  'reject-first-proof': 401,
+  'new-invoice-every-402': 200,
+  'malformed-www-authenticate': 402,
+  slow: 200,
+  'error-after-payment': 500,
+  'retry-after': 429,
+  'expiring-macaroon': 200,
+  'redirect-after-payment': 200,
+  'flaky-gateway': 502
+};
 
-  // JSON variants.
-  for (const v of ['flat', 'l402', 'data', 'error.l402', 'details'] as const) {
-    const srv = await startMockL402Server({ challengeJsonVariant: v, invoiceKey: 'payment_request', includeProofHeaderHint: true });
+/** Scenarios where the right status can hide a wrong client: a check on the final body, returning the failure. */
+const SCENARIO_BODY_CHECKS: Partial<Record<MockL402ScenarioName, (body: string) => string | undefined>> = {
+  // The second origin reports whether the paid credential followed the redirect.
+  'redirect-after-payment': (body) => {
+    let receivedProof: unknown;
     try {
-      await run(`json:${v}`, () =>
-        fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
-          pay: async (challenge) => {
-            assert.ok(challenge.invoice);
-            // Our mock includes a proofHeader hint; client should respect it.
-            assert.ok(challenge.proofHeader);
-            return { proof: 'paid' };
-          }
-        })
-      );
-    } finally {
-      await srv.close();
+      receivedProof = JSON.parse(body).receivedProof;
+    } catch {
+      // Not the redirect target's answer; the status check reports it.
     }
+    return receivedProof === true ? 'paid credential was sent to the redirect origin' : undefined;
   }
+};
+
+export type InteropCase = {
+  name: string;
+  /** Matrix coordinates, e.g. `{ challenge: 'json:data', invoiceKey: 'pr', hint: 'yes' }`. */
+  dimensions: Record<string, string>;
+  opts: MockL402ServerOpts;
+};
+
+export type InteropCaseResult = {
+  name: string;
+  dimensions: Record<string, string>;
+  ok: boolean;
+  /** Not run because an earlier check on the same target failed. */
+  skipped?: boolean;
+  status?: number;
+  detail?: string;
+  durationMs: number;
+};
+
+export type InteropReport = {
+  /** `mock`, or the external base URL. */
+  target: string;
+  ok: boolean;
+  passed: number;
+  failed: number;
+  skipped: number;
+  results: InteropCaseResult[];
+};
+
+export type InteropOptions = {
+  /** Check this server instead of the bundled mocks. Requires `pay`. */
+  baseUrl?: string;
+  /** Paths to check, resolved against `baseUrl` (default: `baseUrl` itself). */
+  paths?: string[];
+  /** Pays the target's invoices. Each path is paid once; the credential is then reused. */
+  pay?: PayFn;
+  /** Passed to every `fetchWithL402` call (`network`, `budget`, `fetch`, ...), in mock mode too. */
+  fetchOptions?: Omit<FetchWithL402Options, 'pay' | 'tokenStore'>;
+  /** Also run `MOCK_L402_SCENARIOS` in mock mode (default true). */
+  scenarios?: boolean;
+  onResult?: (result: InteropCaseResult) => void;
+};
+
+/**
+ * Cross-product of the mock server's challenge shapes: every JSON variant and the `WWW-Authenticate` header,
+ * times every invoice key name, with and without a proof-header hint.
+ */
+export function interopMatrix(): InteropCase[] {
+  const cases: InteropCase[] = [];
+  const challenges: Array<{ label: string; opts: MockL402ServerOpts }> = [
+    ...JSON_VARIANTS.map((v) => ({ label: `json:${v}`, opts: { challengeJsonVariant: v } })),
+    // Header challenges use `Authorization`, as real L402 servers do.
+    { label: 'www-authenticate', opts: { challengeInHeader: true, proofHeader: 'authorization' } }
+  ];
+  for (const challenge of challenges) {
+    for (const invoiceKey of INVOICE_KEYS) {
+      for (const hint of [false, true]) {
+        cases.push({
+          name: `${challenge.label} ${invoiceKey}${hint ? ' +hint' : ''}`,
+          dimensions: { challenge: challenge.label, invoiceKey, hint: hint ? 'yes' : 'no' },
+          opts: { ...challenge.opts, invoiceKey, includeProofHeaderHint: hint }
+        });
+      }
+    }
+  }
+  return cases;
+}
+
+const describe = (err: unknown) => `${(err as Error)?.name || 'Error'}: ${(err as Error)?.message ?? String(err)}`;
 
-  // WWW-Authenticate challenge (L402/LSAT style).
-  {
-    const srv = await startMockL402Server({
-      challengeInHeader: true,
-      proofHeader: 'authorization',
-      includeProofHeaderHint: true,
-      invoiceKey: 'payreq'
+async function runMockCase(c: InteropCase, opts: InteropOptions): Promise<InteropCaseResult> {
+  const started = Date.now();
+  const srv = await startMockL402Server(c.opts);
+  try {
+    let seen: L402Challenge | undefined;
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+      ...opts.fetchOptions,
+      pay: async (challenge, ctx) => {
+        seen = challenge;
+        return srv.pay(challenge, ctx);
+      }
     });
+    await res.arrayBuffer();
+
+    let detail: string | undefined;
+    if (!seen) detail = 'no challenge parsed';
+    else if (seen.invoice !== 'lnbc1mockinvoice') detail = `parsed invoice ${JSON.stringify(seen.invoice)}`;
+    else if (res.status !== 200) detail = `proof sent on ${seen.proofHeader || 'the default header'} was refused`;
+    return { name: c.name, dimensions: c.dimensions, ok: !detail, status: res.status, detail, durationMs: Date.now() - started };
+  } catch (err) {
+    return { name: c.name, dimensions: c.dimensions, ok: false, detail: describe(err), durationMs: Date.now() - started };
+  } finally {
+    await srv.close();
+  }
+}
+
+async function runScenario(name: MockL402ScenarioName, opts: InteropOptions): Promise<InteropCaseResult> {
+  const started = Date.now();
+  const dimensions = { scenario: name };
+  const srv = await startMockL402Server({ scenario: name });
+  try {
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, { ...opts.fetchOptions, pay: srv.pay });
+    const body = await res.text();
+    const detail =
+      res.status !== SCENARIO_STATUS[name] ? `expected ${SCENARIO_STATUS[name]}` : SCENARIO_BODY_CHECKS[name]?.(body);
+    return {
+      name: `scenario ${name}`,
+      dimensions,
+      ok: detail === undefined,
+      status: res.status,
+      detail,
+      durationMs: Date.now() - started
+    };
+  } catch (err) {
+    return { name: `scenario ${name}`, dimensions, ok: false, detail: describe(err), durationMs: Date.now() - started };
+  } finally {
+    await srv.close();
+  }
+}
+
+// Checks for one URL on an external server: a parsable challenge, a paid retry, then reuse without paying.
+async function runExternal(url: string, opts: InteropOptions, emit: (r: InteropCaseResult) => void) {
+  const fetchImpl = opts.fetchOptions?.fetch || fetch;
+  const pay = opts.pay!;
+  let started = Date.now();
+
+  let challenge: L402Challenge | null = null;
+  try {
+    const res = await fetchImpl(url);
+    challenge = res.status === 402 ? await parseL402Challenge(res) : null;
+    await res.arrayBuffer();
+    const detail =
+      res.status !== 402
+        ? `expected 402, got ${res.status}`
+        : !challenge
+          ? 'no L402 challenge in the 402'
+          : challenge.decodeError
+            ? `invoice does not decode (${challenge.decodeError.code})`
+            : `${challenge.scheme || 'json'} ${challenge.decoded?.amountSats ?? '?'} sats, proof on ${challenge.proofHeader || 'default header'}`;
+    emit({
+      name: `${url} challenge`,
+      dimensions: { url, check: 'challenge' },
+      ok: Boolean(challenge && !challenge.decodeError),
+      status: res.status,
+      detail,
+      durationMs: Date.now() - started
+    });
+  } catch (err) {
+    emit({ name: `${url} challenge`, dimensions: { url, check: 'challenge' }, ok: false, detail: describe(err), durationMs: Date.now() - started });
+  }
+
+  const tokenStore = createMemoryTokenStore();
+  let payments = 0;
+  const counting: PayFn = (c, ctx) => {
+    payments += 1;
+    return pay(c, ctx);
+  };
+
+  for (const check of ['paid', 'reuse'] as const) {
+    const dimensions = { url, check };
+    if (!challenge) {
+      emit({ name: `${url} ${check}`, dimensions, ok: false, skipped: true, detail: 'no usable challenge', durationMs: 0 });
+      continue;
+    }
+    started = Date.now();
+    const before = payments;
     try {
-      await run('www-authenticate:l402', () =>
-        fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
-          pay: async (challenge) => {
-            assert.ok(challenge.invoice);
-            assert.equal(challenge.proofHeader, 'authorization');
-            return { proof: 'paid' };
-          }
-        })
-      );
-    } finally {
-      await srv.close();
+      const res = await fetchWithL402(url, undefined, { ...opts.fetchOptions, tokenStore, pay: counting });
+      await res.arrayBuffer();
+      const paid = payments - before;
+      const detail = !res.ok
+        ? `ended with ${res.status}`
+        : check === 'reuse' && paid > 0
+          ? 'paid again instead of reusing the credential'
+          : undefined;
+      emit({ name: `${url} ${check}`, dimensions, ok: !detail, status: res.status, detail, durationMs: Date.now() - started });
+    } catch (err) {
+      emit({ name: `${url} ${check}`, dimensions, ok: false, detail: describe(err), durationMs: Date.now() - started });
+    }
+  }
+}
+
+/** Runs the matrix (and scenarios) against the mock server, or the checks against `opts.baseUrl`. */
+export async function runInteropHarness(opts: InteropOptions = {}): Promise<InteropReport> {
+  const results: InteropCaseResult[] = [];
+  const emit = (r: InteropCaseResult) => {
+    results.push(r);
+    opts.onResult?.(r);
+  };
+
+  if (opts.baseUrl) {
+    if (typeof opts.pay !== 'function') throw new Error('runInteropHarness: pay is required with baseUrl');
+    const urls = opts.paths?.length ? opts.paths.map((p) => new URL(p, opts.baseUrl).href) : [new URL(opts.baseUrl).href];
+    for (const url of urls) await runExternal(url, opts, emit);
+  } else {
+    for (const c of interopMatrix()) emit(await runMockCase(c, opts));
+    if (opts.scenarios ?? true) {
+      for (const name of Object.keys(MOCK_L402_SCENARIOS) as MockL402ScenarioName[]) emit(await runScenario(name, opts));
     }
   }
 
-  const ok = results.every((r) => r.status === 200);
-  return { ok, results };
+  const skipped = results.filter((r) => r.skipped).length;
+  const failed = results.filter((r) => !r.ok && !r.skipped).length;
+  return {
+    target: opts.baseUrl || 'mock',
+    ok: failed === 0 && skipped === 0,
+    passed: results.filter((r) => r.ok).length,
+    failed,
+    skipped,
+    results
+  };
+}
+
+/**
+ * Loads a payer from a module: its default export or `pay` export (a `PayFn`), or `createPayer()` returning one.
+ * Relative paths resolve against the working directory.
+ */
+export async function loadPayerModule(specifier: string): Promise<PayFn> {
+  const url = /^[./]|^[a-z]:[\\/]/i.test(specifier) ? pathToFileURL(path.resolve(specifier)).href : specifier;
+  const mod = await import(url);
+  const pay = typeof mod.createPayer === 'function' ? await mod.createPayer() : mod.pay || mod.default;
+  if (typeof pay !== 'function') {
+    throw new Error(`${specifier}: expected a default or "pay" export (a PayFn), or a createPayer() factory`);
+  }
+  return pay;
+}
+
+function pad(cells: string[][]): string {
+  const widths = cells[0].map((_, i) => Math.max(...cells.map((row) => row[i].length)));
+  return cells.map((row) => row.map((c, i) => c.padEnd(widths[i])).join('  ').trimEnd()).join('\n');
+}
+
+/**
+ * Plain-text report. Matrix cases are drawn as a grid of challenge shape x invoice key, each cell reading
+ * `<without hint>/<with hint>`; everything else is listed. Failures are listed with their detail.
+ */
+export function formatInteropTable(report: InteropReport): string {
+  const out: string[] = [`L402 interop: ${report.target}`, ''];
+  const mark = (r?: InteropCaseResult) => (!r ? ' ' : r.skipped ? 'skip' : r.ok ? 'ok' : 'FAIL');
+
+  const matrix = report.results.filter((r) => r.dimensions.challenge && r.dimensions.invoiceKey);
+  if (matrix.length) {
+    const rows = [...new Set(matrix.map((r) => r.dimensions.challenge))];
+    const cols = [...new Set(matrix.map((r) => r.dimensions.invoiceKey))];
+    const find = (row: string, col: string, hint: string) =>
+      matrix.find((r) => r.dimensions.challenge === row && r.dimensions.invoiceKey === col && r.dimensions.hint === hint);
+    out.push(
+      pad([
+        ['challenge \\ invoice key', ...cols],
+        ...rows.map((row) => [row, ...cols.map((col) => `${mark(find(row, col, 'no'))}/${mark(find(row, col, 'yes'))}`)])
+      ]),
+      '(cells: without / with proof-header hint)',
+      ''
+    );
+  }
+
+  const rest = report.results.filter((r) => !matrix.includes(r));
+  if (rest.length) {
+    out.push(pad(rest.map((r) => [mark(r), r.name, r.status === undefined ? '' : String(r.status), r.detail || ''])), '');
+  }
+
+  const failures = matrix.filter((r) => !r.ok && !r.skipped);
+  if (failures.length) out.push('Failures:', ...failures.map((r) => `  ${r.name}: ${r.detail}`), '');
+
+  out.push(`${report.passed} passed, ${report.failed} failed, ${report.skipped} skipped`);
+  return `${out.join('\n')}\n`;
+}
+
+const xml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+/** JUnit XML, one `<testcase>` per result, for CI test reporters. */
+export function formatInteropJunit(report: InteropReport): string {
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const total = report.results.reduce((sum, r) => sum + r.durationMs, 0);
+  const cases = report.results.map((r) => {
+    const classname = `l402.interop.${Object.keys(r.dimensions)[0] || 'case'}`;
+    const open = `    <testcase classname="${xml(classname)}" name="${xml(r.name)}" time="${seconds(r.durationMs)}"`;
+    if (r.skipped) return `${open}>\n      <skipped message="${xml(r.detail || '')}"/>\n    </testcase>`;
+    if (!r.ok) {
+      const message = r.detail || `status ${r.status}`;
+      return `${open}>\n      <failure message="${xml(message)}">${xml(message)}</failure>\n    </testcase>`;
+    }
+    return `${open}/>`;
+  });
+  const counts = `tests="${report.results.length}" failures="${report.failed}" skipped="${report.skipped}" time="${seconds(total)}"`;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="l402-interop" ${counts}>`,
+    `  <testsuite name="${xml(report.target)}" ${counts}>`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    ''
+  ].join('\n');
 }
 
 if (import.meta.url === `file://${process.argv[1]}`) {
-  runInteropHarness()
-    .then(({ ok, results }) => {
-      // eslint-disable-next-line no-console
-      console.log(JSON.stringify({ ok, results }, null, 2));
-      process.exit(ok ? 0 : 1);
+  // `npm run interop -- <options>` is `l402 interop <options>`.
+  import('./cli.js')
+    .then(({ runCli }) => runCli(['interop', ...process.argv.slice(2)]))
+    .then((code) => {
+      process.exitCode = code;
     })
     .catch((err) => {
       // eslint-disable-next-line no-console
@@ -0,0 +1,85 @@
+import type { Bolt11Network } from './bolt11.js';
+import { L402AmountMismatchError, L402InvoiceExpiredError, L402WrongNetworkError } from './errors.js';
+import type { L402Challenge } from './index.js';
+
+/** Default tolerance for the expiry check: our clock may run ahead of the server that minted the invoice. */
+export const DEFAULT_CLOCK_SKEW_MS = 60_000;
+
+export type InvoiceCheckOptions = {
+  /** Network the wallet pays on. When set, invoices for other networks, or that don't decode, are refused. */
+  network?: Bolt11Network;
+  /** How long past its expiry an invoice is still attempted. Defaults to 60s; `Infinity` disables the check. */
+  clockSkewMs?: number;
+  now?: () => number;
+};
+
+// Price fields servers put in challenge metadata.
+const SAT_KEYS = ['amountSats', 'amount_sats', 'priceSats', 'price_sats', 'sats', 'amount', 'price'];
+const MSAT_KEYS = ['amountMsat', 'amount_msat', 'priceMsat', 'price_msat', 'msat'];
+
+function numeric(v: unknown): number | undefined {
+  const n = typeof v === 'string' && v.trim() ? Number(v) : v;
+  return typeof n === 'number' && Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+/** Price advertised in `meta`, if any. `amount`/`price` are read as sats. */
+export function advertisedPrice(meta: Record<string, unknown> | undefined): { msat: number; unit: 'sat' | 'msat' } | undefined {
+  if (!meta) return undefined;
+  for (const key of MSAT_KEYS) {
+    const msat = numeric(meta[key]);
+    if (msat !== undefined) return { msat, unit: 'msat' };
+  }
+  for (const key of SAT_KEYS) {
+    const sats = numeric(meta[key]);
+    if (sats !== undefined) return { msat: sats * 1000, unit: 'sat' };
+  }
+  return undefined;
+}
+
+/**
+ * Sanity checks on a challenge's invoice before paying it: network, expiry and amount versus the price in
+ * `meta`. Throws a subclass of `L402InvoiceRejectedError`. Undecodable invoices only fail the network check.
+ */
+export function checkL402Invoice(url: URL, challenge: L402Challenge, opts: InvoiceCheckOptions = {}): void {
+  const decoded = challenge.decoded;
+
+  if (opts.network && decoded?.network !== opts.network) {
+    throw new L402WrongNetworkError({
+      message: decoded
+        ? `fetchWithL402: invoice is for ${decoded.network}, wallet is configured for ${opts.network}`
+        : `fetchWithL402: cannot check the network of an undecodable invoice (wallet is on ${opts.network})`,
+      challenge,
+      url: url.href,
+      expected: opts.network,
+      actual: decoded?.network
+    });
+  }
+  if (!decoded) return;
+
+  const skew = Math.max(0, Number(opts.clockSkewMs ?? DEFAULT_CLOCK_SKEW_MS));
+  const expiresAt = decoded.expiresAt * 1000;
+  const now = (opts.now || Date.now)();
+  if (now > expiresAt + skew) {
+    throw new L402InvoiceExpiredError({
+      message: `fetchWithL402: invoice expired at ${new Date(expiresAt).toISOString()}`,
+      challenge,
+      url: url.href,
+      expiresAt
+    });
+  }
+
+  const advertised = advertisedPrice(challenge.meta);
+  if (advertised && decoded.amountMsat !== undefined) {
+    // A price in sats matches the invoice amount rounded up to a whole sat.
+    const invoice = advertised.unit === 'sat' ? (decoded.amountSats ?? 0) * 1000 : decoded.amountMsat;
+    if (invoice !== advertised.msat) {
+      throw new L402AmountMismatchError({
+        message: `fetchWithL402: invoice is for ${decoded.amountMsat} msat but the challenge advertised ${advertised.msat} msat`,
+        challenge,
+        url: url.href,
+        invoiceMsat: decoded.amountMsat,
+        advertisedMsat: advertised.msat
+      });
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import type { L402PaymentReceipt } from './index.js';
+
+/**
+ * Payment receipts for accounting. Entries never contain the preimage (a bearer secret), only its hash.
+ */
+
+export type ReceiptLedgerEntry = Omit<L402PaymentReceipt, 'preimage'> & {
+  /** `agent` option of the request that paid, for per-agent reports. */
+  agent?: string;
+};
+
+export interface ReceiptLedger {
+  record(entry: ReceiptLedgerEntry): void | Promise<void>;
+  list(): ReceiptLedgerEntry[] | Promise<ReceiptLedgerEntry[]>;
+}
+
+export type MemoryReceiptLedger = {
+  record(entry: ReceiptLedgerEntry): void;
+  list(): ReceiptLedgerEntry[];
+};
+
+export function createMemoryReceiptLedger(): MemoryReceiptLedger {
+  const entries: ReceiptLedgerEntry[] = [];
+  return {
+    record: (entry) => {
+      entries.push({ ...entry });
+    },
+    list: () => entries.map((e) => ({ ...e }))
+  };
+}
+
+/**
+ * Append-only JSON Lines file, one receipt per line. Writes are serialized, so concurrent payments
+ * never interleave lines. Unparsable lines (e.g. a torn final write) are skipped by `list`.
+ */
+export function createJsonlReceiptLedger(file: string): ReceiptLedger {
+  let queue: Promise<void> = Promise.resolve();
+  // Created on the first write, so a bad path rejects that `record` call instead of going unhandled.
+  let dirReady = false;
+
+  return {
+    record(entry) {
+      const line = `${JSON.stringify(entry)}\n`;
+      const write = queue.then(async () => {
+        if (!dirReady) {
+          await fs.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+          dirReady = true;
+        }
+        await fs.appendFile(file, line, 'utf8');
+      });
+      queue = write.catch(() => {});
+      return write;
+    },
+    async list() {
+      await queue;
+      let text: string;
+      try {
+        text = await fs.readFile(file, 'utf8');
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException)?.code === 'ENOENT') return [];
+        throw err;
+      }
+      const out: ReceiptLedgerEntry[] = [];
+      for (const line of text.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          out.push(JSON.parse(line));
+        } catch {
+          // Skip partial lines.
+        }
+      }
+      return out;
+    }
+  };
+}
+
+export type SpendTotals = {
+  payments: number;
+  /** Sum of known amounts. */
+  sats: number;
+  /** Payments whose invoice had no decodable amount (not included in `sats`). */
+  unknownAmount: number;
+};
+
+export type SpendReport = SpendTotals & {
+  from?: number;
+  to?: number;
+  byAgent: Record<string, SpendTotals>;
+  byHost: Record<string, SpendTotals>;
+};
+
+function add(totals: SpendTotals, e: ReceiptLedgerEntry) {
+  totals.payments += 1;
+  if (typeof e.amountSats === 'number') totals.sats += e.amountSats;
+  else totals.unknownAmount += 1;
+}
+
+const empty = (): SpendTotals => ({ payments: 0, sats: 0, unknownAmount: 0 });
+
+/** Totals per agent (entries without one are under `unassigned`) and per host, optionally within [since, until). */
+export function buildSpendReport(entries: ReceiptLedgerEntry[], opts: { since?: number; until?: number } = {}): SpendReport {
+  // Null-prototype maps: agent names come from callers, and `__proto__` must stay an ordinary key.
+  const report: SpendReport = { ...empty(), byAgent: Object.create(null), byHost: Object.create(null) };
+  for (const e of entries) {
+    if (opts.since !== undefined && e.paidAt < opts.since) continue;
+    if (opts.until !== undefined && e.paidAt >= opts.until) continue;
+
+    add(report, e);
+    add((report.byAgent[e.agent || 'unassigned'] ??= empty()), e);
+    let host = 'unknown';
+    try {
+      host = new URL(e.url).host;
+    } catch {
+      // Keep `unknown`.
+    }
+    add((report.byHost[host] ??= empty()), e);
+
+    if (report.from === undefined || e.paidAt < report.from) report.from = e.paidAt;
+    if (report.to === undefined || e.paidAt > report.to) report.to = e.paidAt;
+  }
+  return report;
+}
+
+/**
+ * `agent,payments,sats,unknown_amount` rows, for spreadsheets. Agent names starting with `=`, `+`, `-` or `@`
+ * get a leading `'` so spreadsheets don't evaluate them as formulas.
+ */
+export function spendReportToCsv(report: SpendReport): string {
+  const quote = (s: string) => {
+    const text = /^[=+\-@\t\r]/.test(s) ? `'${s}` : s;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows = ['agent,payments,sats,unknown_amount'];
+  for (const agent of Object.keys(report.byAgent).sort()) {
+    const t = report.byAgent[agent];
+    rows.push([quote(agent), t.payments, t.sats, t.unknownAmount].join(','));
+  }
+  return `${rows.join('\n')}\n`;
+}
@@ -0,0 +1,371 @@
+import crypto from 'node:crypto';
+
+/**
+ * Self-contained macaroons (HMAC-SHA256 chain, first-party caveats) compatible with libmacaroons /
+ * gopkg.in/macaroon.v2, which L402 servers such as Aperture use.
+ *
+ * Serialization: V2 binary (what L402 headers carry, base64-encoded) and the legacy V1 base64 packet
+ * format. Also available as `l402-kit/macaroon`.
+ */
+
+export type MacaroonFormat = 'v1' | 'v2';
+
+export type MacaroonCaveat = {
+  /** Caveat predicate, e.g. `expires=1700000000`. */
+  identifier: Buffer;
+  /** Only set on third-party caveats, which this module can decode but not discharge. */
+  location?: string;
+  vid?: Buffer;
+};
+
+export type Macaroon = {
+  location?: string;
+  identifier: Buffer;
+  caveats: MacaroonCaveat[];
+  /** 32-byte HMAC chain tail. */
+  signature: Buffer;
+};
+
+// libmacaroons never keys the chain with the root key directly.
+const KEY_GENERATOR = Buffer.from('macaroons-key-generator');
+
+function hmac(key: Uint8Array, data: Uint8Array): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+function toBuffer(v: string | Uint8Array): Buffer {
+  return typeof v === 'string' ? Buffer.from(v, 'utf8') : Buffer.from(v);
+}
+
+export function mintMacaroon(opts: {
+  rootKey: string | Uint8Array;
+  identifier: string | Uint8Array;
+  location?: string;
+  caveats?: string[];
+}): Macaroon {
+  const identifier = toBuffer(opts.identifier);
+  let m: Macaroon = {
+    location: opts.location,
+    identifier,
+    caveats: [],
+    signature: hmac(hmac(KEY_GENERATOR, toBuffer(opts.rootKey)), identifier)
+  };
+  for (const c of opts.caveats || []) m = addFirstPartyCaveat(m, c);
+  return m;
+}
+
+/** Returns a new macaroon with the caveat appended (the signature chain is extended, not recomputed). */
+export function addFirstPartyCaveat(m: Macaroon, caveat: string | Uint8Array): Macaroon {
+  const identifier = toBuffer(caveat);
+  return {
+    ...m,
+    caveats: [...m.caveats, { identifier }],
+    signature: hmac(m.signature, identifier)
+  };
+}
+
+/** Checks the HMAC chain against the root key. Caveat predicates are not evaluated here. */
+export function verifyMacaroonSignature(m: Macaroon, rootKey: string | Uint8Array): boolean {
+  let sig = hmac(hmac(KEY_GENERATOR, toBuffer(rootKey)), m.identifier);
+  for (const c of m.caveats) {
+    // Third-party caveats need discharge macaroons, which we don't support.
+    if (c.vid) return false;
+    sig = hmac(sig, c.identifier);
+  }
+  return sig.length === m.signature.length && crypto.timingSafeEqual(sig, m.signature);
+}
+
+// V2 binary field types.
+const FIELD_EOS = 0;
+const FIELD_LOCATION = 1;
+const FIELD_IDENTIFIER = 2;
+const FIELD_VID = 4;
+const FIELD_SIGNATURE = 6;
+
+function writeVarint(out: number[], n: number) {
+  let v = n;
+  while (v >= 0x80) {
+    out.push((v & 0x7f) | 0x80);
+    v = Math.floor(v / 128);
+  }
+  out.push(v);
+}
+
+function writeField(out: number[], type: number, data: Uint8Array) {
+  writeVarint(out, type);
+  writeVarint(out, data.length);
+  for (const b of data) out.push(b);
+}
+
+/** libmacaroons V2 binary format. */
+export function encodeMacaroonV2(m: Macaroon): Buffer {
+  const out: number[] = [2];
+  if (m.location) writeField(out, FIELD_LOCATION, Buffer.from(m.location, 'utf8'));
+  writeField(out, FIELD_IDENTIFIER, m.identifier);
+  out.push(FIELD_EOS);
+  for (const c of m.caveats) {
+    if (c.location) writeField(out, FIELD_LOCATION, Buffer.from(c.location, 'utf8'));
+    writeField(out, FIELD_IDENTIFIER, c.identifier);
+    if (c.vid) writeField(out, FIELD_VID, c.vid);
+    out.push(FIELD_EOS);
+  }
+  out.push(FIELD_EOS);
+  writeField(out, FIELD_SIGNATURE, m.signature);
+  return Buffer.from(out);
+}
+
+export function decodeMacaroonV2(buf: Uint8Array): Macaroon {
+  const b = Buffer.from(buf);
+  if (b[0] !== 2) throw new Error('macaroon: not a V2 binary macaroon');
+  let pos = 1;
+
+  const readVarint = () => {
+    let n = 0;
+    let mul = 1;
+    while (true) {
+      if (pos >= b.length) throw new Error('macaroon: truncated varint');
+      const byte = b[pos++];
+      n += (byte & 0x7f) * mul;
+      if (!(byte & 0x80)) return n;
+      mul *= 128;
+      if (mul > 2 ** 35) throw new Error('macaroon: varint too long');
+    }
+  };
+
+  // Reads one section of fields up to EOS.
+  const readSection = () => {
+    const fields: Array<{ type: number; data: Buffer }> = [];
+    while (true) {
+      const type = readVarint();
+      if (type === FIELD_EOS) return fields;
+      const len = readVarint();
+      if (pos + len > b.length) throw new Error('macaroon: truncated field');
+      fields.push({ type, data: b.subarray(pos, pos + len) });
+      pos += len;
+    }
+  };
+
+  const field = (fields: Array<{ type: number; data: Buffer }>, type: number) => fields.find((f) => f.type === type)?.data;
+
+  const header = readSection();
+  const identifier = field(header, FIELD_IDENTIFIER);
+  if (!identifier) throw new Error('macaroon: missing identifier');
+  const location = field(header, FIELD_LOCATION)?.toString('utf8');
+
+  const caveats: MacaroonCaveat[] = [];
+  while (true) {
+    const section = readSection();
+    if (!section.length) break;
+    const id = field(section, FIELD_IDENTIFIER);
+    if (!id) throw new Error('macaroon: caveat without identifier');
+    const loc = field(section, FIELD_LOCATION)?.toString('utf8');
+    const vid = field(section, FIELD_VID);
+    caveats.push({ identifier: Buffer.from(id), ...(loc ? { location: loc } : {}), ...(vid ? { vid: Buffer.from(vid) } : {}) });
+  }
+
+  if (readVarint() !== FIELD_SIGNATURE) throw new Error('macaroon: missing signature');
+  const sigLen = readVarint();
+  if (sigLen !== 32 || pos + sigLen > b.length) throw new Error('macaroon: invalid signature');
+  const signature = Buffer.from(b.subarray(pos, pos + sigLen));
+
+  return { ...(location ? { location } : {}), identifier: Buffer.from(identifier), caveats, signature };
+}
+
+function v1Packet(key: string, value: Uint8Array): Buffer {
+  const body = Buffer.concat([Buffer.from(`${key} `), Buffer.from(value), Buffer.from('\n')]);
+  const len = body.length + 4;
+  if (len > 0xffff) throw new Error('macaroon: V1 packet too large');
+  return Buffer.concat([Buffer.from(len.toString(16).padStart(4, '0')), body]);
+}
+
+/** libmacaroons V1 format: length-prefixed `key value\n` packets, URL-safe base64 without padding. */
+export function encodeMacaroonV1(m: Macaroon): string {
+  const packets: Buffer[] = [];
+  packets.push(v1Packet('location', Buffer.from(m.location || '', 'utf8')));
+  packets.push(v1Packet('identifier', m.identifier));
+  for (const c of m.caveats) {
+    packets.push(v1Packet('cid', c.identifier));
+    if (c.vid) packets.push(v1Packet('vid', c.vid));
+    if (c.location) packets.push(v1Packet('cl', Buffer.from(c.location, 'utf8')));
+  }
+  packets.push(v1Packet('signature', m.signature));
+  return Buffer.concat(packets).toString('base64url');
+}
+
+export function decodeMacaroonV1(buf: Uint8Array): Macaroon {
+  const b = Buffer.from(buf);
+  let pos = 0;
+  let location: string | undefined;
+  let identifier: Buffer | undefined;
+  let signature: Buffer | undefined;
+  const caveats: MacaroonCaveat[] = [];
+
+  while (pos < b.length) {
+    const lenHex = b.subarray(pos, pos + 4).toString('latin1');
+    if (!/^[0-9a-f]{4}$/i.test(lenHex)) throw new Error('macaroon: invalid V1 packet header');
+    const len = parseInt(lenHex, 16);
+    if (len < 6 || pos + len > b.length || b[pos + len - 1] !== 0x0a) throw new Error('macaroon: invalid V1 packet');
+    const body = b.subarray(pos + 4, pos + len - 1);
+    pos += len;
+
+    const sp = body.indexOf(0x20);
+    if (sp === -1) throw new Error('macaroon: invalid V1 packet');
+    const key = body.subarray(0, sp).toString('latin1');
+    const value = Buffer.from(body.subarray(sp + 1));
+
+    if (signature) throw new Error('macaroon: data after V1 signature');
+    switch (key) {
+      case 'location':
+        location = value.toString('utf8') || undefined;
+        break;
+      case 'identifier':
+        identifier = value;
+        break;
+      case 'cid':
+        caveats.push({ identifier: value });
+        break;
+      case 'vid':
+      case 'cl': {
+        const last = caveats[caveats.length - 1];
+        if (!last) throw new Error(`macaroon: ${key} without cid`);
+        if (key === 'vid') last.vid = value;
+        else last.location = value.toString('utf8');
+        break;
+      }
+      case 'signature':
+        signature = value;
+        break;
+      default:
+        throw new Error(`macaroon: unknown V1 field "${key}"`);
+    }
+  }
+
+  if (!identifier) throw new Error('macaroon: missing identifier');
+  if (!signature || signature.length !== 32) throw new Error('macaroon: missing signature');
+  return { ...(location ? { location } : {}), identifier, caveats, signature };
+}
+
+/**
+ * Base64 string form. V2 (default) uses standard padded base64, as carried in L402 headers;
+ * V1 uses URL-safe base64 like libmacaroons.
+ */
+export function serializeMacaroon(m: Macaroon, format: MacaroonFormat = 'v2'): string {
+  return format === 'v1' ? encodeMacaroonV1(m) : encodeMacaroonV2(m).toString('base64');
+}
+
+/** Detects V1 vs V2 from the decoded bytes. */
+export function macaroonFormat(s: string): MacaroonFormat {
+  const bin = Buffer.from(String(s ?? '').trim().replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+  return bin[0] === 2 ? 'v2' : 'v1';
+}
+
+/** Parses either format; accepts standard or URL-safe base64, with or without padding. */
+export function parseMacaroon(s: string): Macaroon {
+  const bin = Buffer.from(String(s ?? '').trim().replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+  if (!bin.length) throw new Error('macaroon: empty');
+  return bin[0] === 2 ? decodeMacaroonV2(bin) : decodeMacaroonV1(bin);
+}
+
+/** First-party caveat predicates as strings. */
+export function caveatStrings(m: Macaroon): string[] {
+  return m.caveats.filter((c) => !c.vid).map((c) => c.identifier.toString('utf8'));
+}
+
+export type L402Identifier = {
+  version: number;
+  /** Hex-encoded 32-byte payment hash the macaroon is bound to. */
+  paymentHash: string;
+  /** Hex-encoded 32-byte token id. */
+  tokenId: string;
+};
+
+/** L402 identifier layout (as minted by Aperture): uint16 version (0) || payment_hash || token_id. */
+export function encodeL402Identifier(id: { paymentHash: string; tokenId?: string }): Buffer {
+  const paymentHash = Buffer.from(id.paymentHash, 'hex');
+  const tokenId = id.tokenId ? Buffer.from(id.tokenId, 'hex') : crypto.randomBytes(32);
+  if (paymentHash.length !== 32 || tokenId.length !== 32) throw new Error('macaroon: L402 ids must be 32 bytes');
+  return Buffer.concat([Buffer.from([0, 0]), paymentHash, tokenId]);
+}
+
+export function decodeL402Identifier(identifier: Uint8Array): L402Identifier | null {
+  const b = Buffer.from(identifier);
+  if (b.length !== 66 || b.readUInt16BE(0) !== 0) return null;
+  return { version: 0, paymentHash: b.subarray(2, 34).toString('hex'), tokenId: b.subarray(34, 66).toString('hex') };
+}
+
+/** Splits `condition=value` (or `condition value`); `value` is '' when absent. */
+export function parseCaveat(caveat: string): { condition: string; value: string } {
+  const m = caveat.match(/^\s*([^=\s]+)\s*(?:[=\s]\s*(.*?))?\s*$/s);
+  if (!m) return { condition: caveat.trim(), value: '' };
+  return { condition: m[1], value: m[2] ?? '' };
+}
+
+export type MacaroonService = { name: string; tier: number };
+
+export type MacaroonInfo = {
+  format: MacaroonFormat;
+  location?: string;
+  /** Hex-encoded identifier. */
+  identifier: string;
+  /** Set when the identifier has the L402 (Aperture) layout. */
+  l402?: L402Identifier;
+  /** First-party caveats in order. */
+  caveats: string[];
+  /** From `services=name:tier,...`. */
+  services: MacaroonService[];
+  /** From `<service>_capabilities=a,b`. */
+  capabilities: Record<string, string[]>;
+  /**
+   * Earliest expiry in epoch ms, from `expires=` or `<service>_valid_until=` (unix seconds).
+   * Later caveats can only narrow a macaroon, so the earliest one wins.
+   */
+  expiresAt?: number;
+  thirdPartyCaveats: number;
+};
+
+function parseServices(value: string): MacaroonService[] {
+  return value
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((s) => {
+      const [name, tier] = s.split(':');
+      return { name: name.trim(), tier: Number(tier ?? 0) || 0 };
+    });
+}
+
+/** Decodes a macaroon string and interprets the caveats L402 servers commonly mint. */
+export function inspectMacaroon(input: string | Macaroon): MacaroonInfo {
+  const m = typeof input === 'string' ? parseMacaroon(input) : input;
+  const caveats = caveatStrings(m);
+  const info: MacaroonInfo = {
+    format: typeof input === 'string' ? macaroonFormat(input) : 'v2',
+    ...(m.location ? { location: m.location } : {}),
+    identifier: m.identifier.toString('hex'),
+    caveats,
+    services: [],
+    capabilities: {},
+    thirdPartyCaveats: m.caveats.filter((c) => c.vid).length
+  };
+
+  const l402 = decodeL402Identifier(m.identifier);
+  if (l402) info.l402 = l402;
+
+  for (const c of caveats) {
+    const { condition, value } = parseCaveat(c);
+    if (condition === 'services') {
+      // Repeated services caveats restrict further; keep the last one, as Aperture does.
+      info.services = parseServices(value);
+    } else if (condition.endsWith('_capabilities')) {
+      info.capabilities[condition.slice(0, -'_capabilities'.length)] = value
+        .split(',')
+        .map((s) => s.trim())
+        .filter(Boolean);
+    } else if (condition === 'expires' || condition.endsWith('_valid_until')) {
+      const t = Number(value);
+      if (Number.isFinite(t) && (info.expiresAt === undefined || t * 1000 < info.expiresAt)) info.expiresAt = t * 1000;
+    }
+  }
+
+  return info;
+}
@@ -0,0 +1,215 @@
+import crypto from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+import type { L402Scheme } from './index.js';
+import {
+  caveatStrings,
+  decodeL402Identifier,
+  encodeL402Identifier,
+  mintMacaroon,
+  parseCaveat,
+  parseMacaroon,
+  serializeMacaroon,
+  verifyMacaroonSignature
+} from './macaroon.js';
+
+/**
+ * Server side of L402: mint a macaroon bound to an invoice's payment hash, challenge with
+ * `WWW-Authenticate: L402 macaroon="...", invoice="..."`, and verify `Authorization: L402 <mac>:<preimage>`.
+ */
+
+export type IssueInvoiceFn = (ctx: {
+  amountSats: number;
+  req: IncomingMessage;
+}) => Promise<{ invoice: string; paymentHash: string }>;
+
+export type CaveatSatisfier = (value: string, req: IncomingMessage | undefined) => boolean;
+
+export type L402MiddlewareOptions = {
+  /** Creates an invoice for `amountSats` on your node/wallet and returns it with its payment hash (hex). */
+  issueInvoice: IssueInvoiceFn;
+  /** Secret used to mint and verify macaroons. Keep it stable across restarts. */
+  rootKey: string | Uint8Array;
+  /** Price in sats, fixed or per request. */
+  price: number | ((req: IncomingMessage) => number | Promise<number>);
+  /** Extra first-party caveats minted into each macaroon, e.g. `services=weather:0`. */
+  caveats?: (req: IncomingMessage) => string[] | Promise<string[]>;
+  /** Adds an `expires=<unix seconds>` caveat to minted macaroons. */
+  ttlSeconds?: number;
+  /**
+   * Checkers for `condition=value` caveats, keyed by condition. `expires` is built in.
+   * Caveats without a checker fail verification.
+   */
+  caveatSatisfiers?: Record<string, CaveatSatisfier>;
+  /** Macaroon location field. */
+  location?: string;
+  /** Scheme to challenge with (default `L402`). Both `L402` and `LSAT` credentials are accepted. */
+  scheme?: L402Scheme;
+  now?: () => number;
+};
+
+/** What a verified credential proved; attached to `req.l402` by the middleware. */
+export type L402RequestInfo = {
+  paymentHash: string;
+  tokenId: string;
+  preimage: string;
+  caveats: string[];
+};
+
+export type L402VerifyFailure =
+  | 'missing'
+  | 'malformed'
+  | 'invalid_macaroon'
+  | 'invalid_signature'
+  | 'invalid_preimage'
+  | 'caveat_failed'
+  | 'expired';
+
+export type L402VerifyResult = { ok: true; info: L402RequestInfo } | { ok: false; reason: L402VerifyFailure; detail?: string };
+
+export type L402Middleware = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next?: (err?: unknown) => void
+) => Promise<boolean>;
+
+function builtinSatisfiers(now: () => number): Record<string, CaveatSatisfier> {
+  return {
+    expires: (value) => {
+      const t = Number(value);
+      return Number.isFinite(t) && now() < t * 1000;
+    }
+  };
+}
+
+/**
+ * Verifies an `Authorization` header value against the root key. Does not write a response. Headers with
+ * another scheme (`Bearer`, `Basic`, ...) carry no L402 credential and count as `missing`.
+ */
+export function verifyL402Authorization(
+  header: string | undefined,
+  opts: {
+    rootKey: string | Uint8Array;
+    caveatSatisfiers?: Record<string, CaveatSatisfier>;
+    req?: IncomingMessage;
+    now?: () => number;
+  }
+): L402VerifyResult {
+  if (!header || !header.trim()) return { ok: false, reason: 'missing' };
+
+  if (!/^(?:L402|LSAT)(?:\s|$)/i.test(header.trim())) return { ok: false, reason: 'missing', detail: 'not an L402 credential' };
+  const m = header.trim().match(/^(?:L402|LSAT)\s+(\S+)$/i);
+  if (!m) return { ok: false, reason: 'malformed' };
+  const token = m[1];
+  const sep = token.lastIndexOf(':');
+  if (sep <= 0) return { ok: false, reason: 'malformed' };
+  const preimage = token.slice(sep + 1).toLowerCase();
+  if (!/^[0-9a-f]{64}$/.test(preimage)) return { ok: false, reason: 'malformed', detail: 'preimage must be 32 bytes hex' };
+
+  let mac;
+  try {
+    mac = parseMacaroon(token.slice(0, sep));
+  } catch (err) {
+    return { ok: false, reason: 'invalid_macaroon', detail: String((err as Error)?.message || err) };
+  }
+
+  const id = decodeL402Identifier(mac.identifier);
+  if (!id) return { ok: false, reason: 'invalid_macaroon', detail: 'unknown identifier format' };
+  if (!verifyMacaroonSignature(mac, opts.rootKey)) return { ok: false, reason: 'invalid_signature' };
+
+  const hash = crypto.createHash('sha256').update(Buffer.from(preimage, 'hex')).digest('hex');
+  if (hash !== id.paymentHash) return { ok: false, reason: 'invalid_preimage' };
+
+  const caveats = caveatStrings(mac);
+  const satisfiers = { ...builtinSatisfiers(opts.now || Date.now), ...opts.caveatSatisfiers };
+  for (const c of caveats) {
+    const { condition, value } = parseCaveat(c);
+    const check: CaveatSatisfier | undefined = satisfiers[condition];
+    if (!check) return { ok: false, reason: 'caveat_failed', detail: c };
+    if (!check(value, opts.req)) {
+      return { ok: false, reason: condition === 'expires' ? 'expired' : 'caveat_failed', detail: c };
+    }
+  }
+
+  return { ok: true, info: { paymentHash: id.paymentHash, tokenId: id.tokenId, preimage, caveats } };
+}
+
+/**
+ * Node http / Express-style middleware.
+ *
+ * - No L402 credential, or an expired one: responds 402 with a fresh challenge.
+ * - Invalid credential (bad signature, wrong preimage, failed caveat): responds 401, with a fresh challenge
+ *   in `WWW-Authenticate`.
+ * - Valid credential: sets `req.l402`, calls `next()` if given, and resolves `true`. An error thrown by
+ *   `next()` propagates to the caller instead of being passed back to `next(err)`.
+ *
+ * Without `next`, use the resolved boolean: `if (await l402(req, res)) serve(req, res);`
+ */
+export function l402Middleware(opts: L402MiddlewareOptions): L402Middleware {
+  if (typeof opts?.issueInvoice !== 'function') throw new Error('l402Middleware: issueInvoice is required');
+  if (!opts.rootKey || !opts.rootKey.length) throw new Error('l402Middleware: rootKey is required');
+  if (opts.price === undefined) throw new Error('l402Middleware: price is required');
+
+  const now = opts.now || Date.now;
+  const scheme = opts.scheme || 'L402';
+
+  const challenge = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    status = 402,
+    body: Record<string, unknown> = { error: 'payment_required' }
+  ) => {
+    const amountSats = typeof opts.price === 'function' ? await opts.price(req) : opts.price;
+    const { invoice, paymentHash } = await opts.issueInvoice({ amountSats, req });
+
+    const caveats = [...((await opts.caveats?.(req)) || [])];
+    if (opts.ttlSeconds) caveats.push(`expires=${Math.floor(now() / 1000) + opts.ttlSeconds}`);
+
+    const macaroon = serializeMacaroon(
+      mintMacaroon({
+        rootKey: opts.rootKey,
+        identifier: encodeL402Identifier({ paymentHash }),
+        location: opts.location,
+        caveats
+      })
+    );
+
+    res.writeHead(status, {
+      'content-type': 'application/json',
+      'www-authenticate': `${scheme} macaroon="${macaroon}", invoice="${invoice}"`
+    });
+    res.end(JSON.stringify({ ...body, macaroon, invoice, amountSats }));
+  };
+
+  return async (req, res, next) => {
+    let info: L402RequestInfo;
+    try {
+      const result = verifyL402Authorization(req.headers.authorization, {
+        rootKey: opts.rootKey,
+        caveatSatisfiers: opts.caveatSatisfiers,
+        req,
+        now
+      });
+
+      if (!result.ok) {
+        if (result.reason === 'missing' || result.reason === 'expired') await challenge(req, res);
+        else await challenge(req, res, 401, { error: 'invalid_credential', reason: result.reason });
+        return false;
+      }
+      info = result.info;
+    } catch (err) {
+      if (next) {
+        next(err);
+      } else if (!res.headersSent) {
+        res.writeHead(500, { 'content-type': 'text/plain' });
+        res.end('internal error');
+      }
+      return false;
+    }
+
+    // Outside the try: a handler that throws must not be called a second time with its own error.
+    (req as IncomingMessage & { l402?: L402RequestInfo }).l402 = info;
+    next?.();
+    return true;
+  };
+}
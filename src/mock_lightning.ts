@@ -0,0 +1,128 @@
+import crypto from 'node:crypto';
+
+import { encodeBolt11, tryDecodeBolt11, type Bolt11Network } from './bolt11.js';
+import { L402PayerError } from './errors.js';
+import type { PayFn } from './index.js';
+import { getPublicKey } from './secp256k1.js';
+
+/**
+ * In-process stand-in for a Lightning node: issues real, signed BOLT11 invoices (regtest by default) from a
+ * throwaway key and keeps the preimage behind each one. Nothing is routed; "paying" an invoice just settles it.
+ * With a `seed`, keys and preimages are deterministic.
+ */
+
+export type MockLightningNodeOpts = {
+  network?: Bolt11Network;
+  /** Derives the node key and every preimage. Random when omitted. */
+  seed?: string;
+  now?: () => number;
+};
+
+export type MockLightningInvoice = {
+  invoice: string;
+  /** Hex sha256 of `preimage`. */
+  paymentHash: string;
+  preimage: string;
+  amountSats: number;
+  description: string;
+  /** Unix seconds. */
+  expiresAt: number;
+  settled: boolean;
+};
+
+export type MockLightningNode = {
+  /** Hex-encoded 33-byte node pubkey; the payee key of every invoice. */
+  nodeId: string;
+  network: Bolt11Network;
+  createInvoice(opts: { amountSats: number; description?: string; expirySeconds?: number }): MockLightningInvoice;
+  /** Preimage behind an invoice (or payment hash) this node issued, whether or not it is settled. */
+  getPreimage(invoiceOrHash: string): string | undefined;
+  /** Marks an invoice as paid and returns its preimage. Throws for unknown hashes. */
+  settle(paymentHash: string): string;
+  isSettled(paymentHash: string): boolean;
+  invoices(): MockLightningInvoice[];
+};
+
+const sha256 = (data: Uint8Array | string) => crypto.createHash('sha256').update(data).digest();
+
+export function createMockLightningNode(opts: MockLightningNodeOpts = {}): MockLightningNode {
+  const network = opts.network || 'regtest';
+  const now = opts.now || Date.now;
+  const seed = opts.seed ?? crypto.randomBytes(32).toString('hex');
+  // sha256 output is below the curve order with overwhelming probability.
+  const secretKey = sha256(`mock-lightning-node:${seed}`);
+  const nodeId = getPublicKey(secretKey).toString('hex');
+
+  const byHash = new Map<string, MockLightningInvoice>();
+  let counter = 0;
+
+  const lookup = (invoiceOrHash: string) => {
+    const key = String(invoiceOrHash || '').trim().toLowerCase();
+    if (/^[0-9a-f]{64}$/.test(key)) return byHash.get(key);
+    const { decoded } = tryDecodeBolt11(key);
+    const entry = decoded?.paymentHash ? byHash.get(decoded.paymentHash) : undefined;
+    return entry?.invoice === key ? entry : undefined;
+  };
+
+  return {
+    nodeId,
+    network,
+    createInvoice({ amountSats, description = '', expirySeconds = 3600 }) {
+      if (!Number.isSafeInteger(amountSats) || amountSats <= 0) {
+        throw new RangeError(`createInvoice: amountSats must be a positive integer, got ${amountSats}`);
+      }
+      counter += 1;
+      const preimage = sha256(`mock-lightning-preimage:${seed}:${counter}`).toString('hex');
+      const paymentHash = sha256(Buffer.from(preimage, 'hex')).toString('hex');
+      const timestamp = Math.floor(now() / 1000);
+      const invoice = encodeBolt11(
+        {
+          network,
+          amountMsat: amountSats * 1000,
+          timestamp,
+          paymentHash,
+          paymentSecret: sha256(`mock-lightning-secret:${seed}:${counter}`).toString('hex'),
+          description,
+          expiry: expirySeconds
+        },
+        secretKey
+      );
+      const entry: MockLightningInvoice = {
+        invoice,
+        paymentHash,
+        preimage,
+        amountSats,
+        description,
+        expiresAt: timestamp + expirySeconds,
+        settled: false
+      };
+      byHash.set(paymentHash, entry);
+      return { ...entry };
+    },
+    getPreimage: (invoiceOrHash) => lookup(invoiceOrHash)?.preimage,
+    settle(paymentHash) {
+      const entry = byHash.get(String(paymentHash).toLowerCase());
+      if (!entry) throw new Error(`settle: unknown payment hash ${paymentHash}`);
+      entry.settled = true;
+      return entry.preimage;
+    },
+    isSettled: (paymentHash) => byHash.get(String(paymentHash).toLowerCase())?.settled ?? false,
+    invoices: () => [...byHash.values()].map((e) => ({ ...e }))
+  };
+}
+
+/**
+ * A `PayFn` that settles invoices issued by `node` and returns their preimage, as a wallet would.
+ * Throws `L402PayerError` (`payer: 'mock'`) with `UNKNOWN_INVOICE`, `ALREADY_PAID` or `INVOICE_EXPIRED`.
+ */
+export function createMockPayer(node: MockLightningNode, opts: { now?: () => number } = {}): PayFn {
+  const now = opts.now || Date.now;
+  return async (challenge) => {
+    const fail = (code: string, message: string) => new L402PayerError({ payer: 'mock', code, message: `mock payer: ${message}` });
+    const entry = node.invoices().find((e) => e.invoice === challenge.invoice.trim().toLowerCase());
+    if (!entry) throw fail('UNKNOWN_INVOICE', 'invoice was not issued by this node');
+    if (entry.settled) throw fail('ALREADY_PAID', 'invoice is already paid');
+    if (entry.expiresAt * 1000 <= now()) throw fail('INVOICE_EXPIRED', 'invoice has expired');
+    return { preimage: node.settle(entry.paymentHash) };
+  };
+}
@@ -0,0 +1,193 @@
+import crypto from 'node:crypto';
+import http from 'node:http';
+import type { Duplex } from 'node:stream';
+
+import {
+  finalizeEvent,
+  getPublicKeyHex,
+  matchesFilter,
+  nip04,
+  nip44,
+  verifyEvent,
+  type NostrEvent,
+  type NostrFilter
+} from './nostr.js';
+import { mockPreimage } from './mock_server.js';
+import { NWC_INFO_KIND, NWC_REQUEST_KIND, NWC_RESPONSE_KIND, type NwcEncryption } from './nwc.js';
+import { acceptWebSocket, type WsConnection } from './ws.js';
+
+export type MockNwcPayOutcome = { preimage: string; fees_paid?: number } | { error: { code: string; message: string } };
+
+export type MockNwcWalletOpts = {
+  /**
+   * Encryption schemes advertised in the wallet's info event (default: `['nip44_v2', 'nip04']`).
+   * An empty list omits the tag, like wallets that predate NIP-44.
+   */
+  encryption?: NwcEncryption[];
+
+  /**
+   * Decides the outcome of each `pay_invoice`. Defaults to success with a preimage derived from
+   * the invoice (`mockPreimage(invoice)`). Return a never-settling promise to simulate a hung wallet.
+   */
+  payInvoice?: (invoice: string) => MockNwcPayOutcome | Promise<MockNwcPayOutcome>;
+};
+
+export type MockNwcRequest = { method: string; params: any; encryption: NwcEncryption };
+
+/**
+ * Local Nostr relay + NIP-47 wallet service in one process, for offline tests of `createNwcPayer`.
+ * `connectionUri` is ready to hand to the payer.
+ */
+export async function startMockNwcWallet(opts: MockNwcWalletOpts = {}) {
+  const walletSecret = crypto.randomBytes(32).toString('hex');
+  const clientSecret = crypto.randomBytes(32).toString('hex');
+  const walletPubkey = getPublicKeyHex(walletSecret);
+  const encryption = opts.encryption ?? ['nip44_v2', 'nip04'];
+  const payInvoice = opts.payInvoice ?? ((invoice: string): MockNwcPayOutcome => ({ preimage: mockPreimage(invoice) }));
+
+  const requests: MockNwcRequest[] = [];
+  const stored: NostrEvent[] = [
+    finalizeEvent(
+      {
+        kind: NWC_INFO_KIND,
+        tags: encryption.length ? [['encryption', encryption.join(' ')]] : [],
+        content: 'pay_invoice'
+      },
+      walletSecret
+    )
+  ];
+
+  const clients = new Set<{ ws: WsConnection; subs: Map<string, NostrFilter[]> }>();
+  const sockets = new Set<Duplex>();
+
+  const broadcast = (ev: NostrEvent) => {
+    for (const c of clients) {
+      for (const [subId, filters] of c.subs) {
+        if (filters.some((f) => matchesFilter(ev, f))) c.ws.send(JSON.stringify(['EVENT', subId, ev]));
+      }
+    }
+  };
+
+  const handleRequest = async (ev: NostrEvent) => {
+    const nip44Tag = ev.tags.find((t) => t[0] === 'encryption')?.[1] === 'nip44_v2';
+    const scheme: NwcEncryption = nip44Tag ? 'nip44_v2' : 'nip04';
+    const conversationKey = nip44.getConversationKey(walletSecret, ev.pubkey);
+
+    const encrypt = (plaintext: string) =>
+      scheme === 'nip44_v2'
+        ? nip44.encrypt(plaintext, conversationKey)
+        : nip04.encrypt(walletSecret, ev.pubkey, plaintext);
+
+    let body: any;
+    try {
+      body = JSON.parse(
+        scheme === 'nip44_v2' ? nip44.decrypt(ev.content, conversationKey) : nip04.decrypt(walletSecret, ev.pubkey, ev.content)
+      );
+    } catch {
+      return;
+    }
+    requests.push({ method: String(body?.method), params: body?.params, encryption: scheme });
+
+    let response: Record<string, unknown>;
+    if (body?.method !== 'pay_invoice') {
+      response = { result_type: body?.method, error: { code: 'NOT_IMPLEMENTED', message: 'mock only pays invoices' } };
+    } else {
+      const outcome = await payInvoice(String(body?.params?.invoice ?? ''));
+      response =
+        'error' in outcome
+          ? { result_type: 'pay_invoice', error: outcome.error }
+          : { result_type: 'pay_invoice', result: { preimage: outcome.preimage, fees_paid: outcome.fees_paid ?? 0 } };
+    }
+
+    broadcast(
+      finalizeEvent(
+        {
+          kind: NWC_RESPONSE_KIND,
+          tags: [
+            ['p', ev.pubkey],
+            ['e', ev.id]
+          ],
+          content: encrypt(JSON.stringify(response))
+        },
+        walletSecret
+      )
+    );
+  };
+
+  const server = http.createServer((_req, res) => {
+    res.writeHead(426, { 'content-type': 'text/plain' });
+    res.end('websocket only');
+  });
+
+  server.on('upgrade', (req, socket: Duplex, head: Buffer) => {
+    const ws = acceptWebSocket(req, socket, head);
+    if (!ws) return;
+    sockets.add(socket);
+    const client = { ws, subs: new Map<string, NostrFilter[]>() };
+    clients.add(client);
+    ws.onClose(() => {
+      clients.delete(client);
+      sockets.delete(socket);
+    });
+
+    ws.onMessage((text) => {
+      let msg: any;
+      try {
+        msg = JSON.parse(text);
+      } catch {
+        return;
+      }
+      if (!Array.isArray(msg)) return;
+
+      if (msg[0] === 'REQ' && typeof msg[1] === 'string') {
+        const filters = msg.slice(2) as NostrFilter[];
+        client.subs.set(msg[1], filters);
+        for (const ev of stored) {
+          if (filters.some((f) => matchesFilter(ev, f))) ws.send(JSON.stringify(['EVENT', msg[1], ev]));
+        }
+        ws.send(JSON.stringify(['EOSE', msg[1]]));
+        return;
+      }
+
+      if (msg[0] === 'CLOSE') {
+        client.subs.delete(msg[1]);
+        return;
+      }
+
+      if (msg[0] === 'EVENT' && msg[1] && typeof msg[1] === 'object') {
+        const ev = msg[1] as NostrEvent;
+        const ok = verifyEvent(ev);
+        ws.send(JSON.stringify(['OK', ev.id, ok, ok ? '' : 'invalid: bad signature']));
+        if (!ok) return;
+
+        broadcast(ev);
+        if (ev.kind === NWC_REQUEST_KIND && ev.tags.some((t) => t[0] === 'p' && t[1] === walletPubkey)) {
+          void handleRequest(ev);
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.listen(0, '127.0.0.1', () => resolve());
+    server.on('error', reject);
+  });
+
+  const addr = server.address();
+  if (!addr || typeof addr === 'string') throw new Error('failed to bind');
+  const relayUrl = `ws://127.0.0.1:${addr.port}`;
+
+  return {
+    relayUrl,
+    walletPubkey,
+    clientSecret,
+    connectionUri: `nostr+walletconnect://${walletPubkey}?relay=${encodeURIComponent(relayUrl)}&secret=${clientSecret}`,
+    /** Decrypted requests received by the wallet service, in order. */
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        for (const s of sockets) s.destroy();
+        server.close((err?: Error | null) => (err ? reject(err) : resolve()));
+      })
+  };
+}
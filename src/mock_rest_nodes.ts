@@ -0,0 +1,143 @@
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+
+import { mockPreimage } from './mock_server.js';
+
+/**
+ * Local HTTP stand-ins for the LND and Core Lightning REST endpoints used by the bundled payers.
+ * They never touch a real node: payment outcomes come from the `pay` callback.
+ */
+
+export type MockNodePayOutcome =
+  | { preimage: string }
+  /** LND: `FAILURE_REASON_*`; CLN: a `pay` error code (e.g. 205). */
+  | { failure: string | number; message?: string }
+  /** Never answer (to exercise client timeouts). */
+  | { hang: true };
+
+export type MockNodeRequest = { path: string; headers: IncomingMessage['headers']; body: any };
+
+export type MockRestNodeOpts = {
+  /** Decides each payment. Defaults to success with `mockPreimage(invoice)`. */
+  pay?: (invoice: string, body: any) => MockNodePayOutcome | Promise<MockNodePayOutcome>;
+};
+
+function readBody(req: IncomingMessage): Promise<any> {
+  return new Promise((resolve) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (c: Buffer) => chunks.push(c));
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || 'null'));
+      } catch {
+        resolve(null);
+      }
+    });
+  });
+}
+
+async function listen(handler: (req: IncomingMessage, res: ServerResponse) => void) {
+  const server = http.createServer(handler);
+  const sockets = new Set<import('node:net').Socket>();
+  server.on('connection', (s) => {
+    sockets.add(s);
+    s.on('close', () => sockets.delete(s));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.listen(0, '127.0.0.1', () => resolve());
+    server.on('error', reject);
+  });
+
+  const addr = server.address();
+  if (!addr || typeof addr === 'string') throw new Error('failed to bind');
+
+  return {
+    baseUrl: `http://127.0.0.1:${addr.port}`,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        // Hung requests would otherwise keep the server open.
+        for (const s of sockets) s.destroy();
+        server.close((err?: Error | null) => (err ? reject(err) : resolve()));
+      })
+  };
+}
+
+/** Emulates LND's `POST /v2/router/send` (streamed JSON lines, `Grpc-Metadata-macaroon` auth). */
+export async function startMockLndRest(opts: MockRestNodeOpts & { macaroonHex?: string } = {}) {
+  const macaroonHex = (opts.macaroonHex || '0201036c6e64').toLowerCase();
+  const pay = opts.pay ?? ((invoice: string): MockNodePayOutcome => ({ preimage: mockPreimage(invoice) }));
+  const requests: MockNodeRequest[] = [];
+
+  const srv = await listen(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (req.method !== 'POST' || url.pathname !== '/v2/router/send') {
+      res.writeHead(404, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ code: 5, message: 'Not Found' }));
+      return;
+    }
+
+    const body = await readBody(req);
+    requests.push({ path: url.pathname, headers: req.headers, body });
+
+    if (String(req.headers['grpc-metadata-macaroon'] || '').toLowerCase() !== macaroonHex) {
+      res.writeHead(401, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ code: 2, message: 'verification failed: signature mismatch after caveat verification' }));
+      return;
+    }
+
+    const invoice = String(body?.payment_request || '');
+    const outcome = await pay(invoice, body);
+    if ('hang' in outcome) return;
+
+    res.writeHead(200, { 'content-type': 'application/json' });
+    // Real LND sends IN_FLIGHT updates unless no_inflight_updates is set; emit one anyway so
+    // clients must read the final line.
+    res.write(`${JSON.stringify({ result: { payment_request: invoice, status: 'IN_FLIGHT' } })}\n`);
+    if ('preimage' in outcome) {
+      res.end(`${JSON.stringify({ result: { payment_request: invoice, status: 'SUCCEEDED', payment_preimage: outcome.preimage } })}\n`);
+    } else {
+      res.end(`${JSON.stringify({ result: { payment_request: invoice, status: 'FAILED', failure_reason: String(outcome.failure) } })}\n`);
+    }
+  });
+
+  return { ...srv, macaroonHex, requests };
+}
+
+/** Emulates Core Lightning's clnrest `POST /v1/pay` (`Rune` header auth). */
+export async function startMockClnRest(opts: MockRestNodeOpts & { rune?: string } = {}) {
+  const rune = opts.rune || 'mock-rune';
+  const pay = opts.pay ?? ((invoice: string): MockNodePayOutcome => ({ preimage: mockPreimage(invoice) }));
+  const requests: MockNodeRequest[] = [];
+
+  const srv = await listen(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (req.method !== 'POST' || url.pathname !== '/v1/pay') {
+      res.writeHead(404, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ code: 404, message: 'Not Found' }));
+      return;
+    }
+
+    const body = await readBody(req);
+    requests.push({ path: url.pathname, headers: req.headers, body });
+
+    if (req.headers.rune !== rune) {
+      res.writeHead(401, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ code: 1501, message: 'Not authorized: Not derived from master' }));
+      return;
+    }
+
+    const outcome = await pay(String(body?.bolt11 || ''), body);
+    if ('hang' in outcome) return;
+
+    if ('failure' in outcome) {
+      res.writeHead(500, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ code: Number(outcome.failure), message: outcome.message || 'payment failed' }));
+      return;
+    }
+
+    res.writeHead(201, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ status: 'complete', payment_preimage: outcome.preimage, parts: 1 }));
+  });
+
+  return { ...srv, rune, requests };
+}
@@ -1,5 +1,10 @@
+import crypto from 'node:crypto';
 import http, { IncomingMessage, ServerResponse } from 'node:http';
 
+import type { PayFn } from './index.js';
+import { l402Middleware, verifyL402Authorization } from './middleware.js';
+import { createMockLightningNode, createMockPayer, type MockLightningNode } from './mock_lightning.js';
+
 export type MockL402ServerOpts = {
   /** Path that requires payment (default: /paid) */
   path?: string;
@@ -34,8 +39,119 @@ export type MockL402ServerOpts = {
 
   /** If true, include a macaroon param in header challenges (default true). */
   includeMacaroon?: boolean;
+
+  /** If true, every 402 carries a new invoice (`lnbc1mockinvoice1`, `lnbc1mockinvoice2`, ...), like a real paywall. */
+  uniqueInvoices?: boolean;
+
+  /** Artificial latency (ms) before answering with a 402 challenge. */
+  delayMs?: number;
+
+  /** Artificial latency (ms) before answering a request that carries the required proof. */
+  paidDelayMs?: number;
+
+  /**
+   * Serve real L402 credentials instead of the fixed proof: each 402 carries a signed regtest invoice from a
+   * mock Lightning node and a macaroon bound to its payment hash, and retries must send
+   * `Authorization: L402 <macaroon>:<preimage>`. The proof and challenge-shape options above are ignored.
+   * Pay with `createMockPayer(server.node)`, or look preimages up with `getPreimage`.
+   */
+  lightning?: MockLightningOpts;
+
+  // Fault injection. Each applies to the paid path only; see `MOCK_L402_SCENARIOS` for named presets.
+
+  /** Answer the first valid proof with 401, as if the server lost track of the payment. */
+  rejectFirstProof?: boolean;
+  /** Send an unparsable `WWW-Authenticate` challenge (unterminated quote, no invoice) and no JSON body. */
+  malformedChallenge?: boolean;
+  /** Answer the first N requests carrying a valid proof with 500 (the payment went through, the handler failed). */
+  failAfterPayment?: number;
+  /** Throttle the first `times` (default 1) requests with `status` (default 429) and `Retry-After: <seconds>`. */
+  retryAfter?: { seconds: number; status?: number; times?: number };
+  /**
+   * Answer valid proofs with a 307 to the same path on a second server (a different origin), which replies
+   * `{ ok, redirected: true, receivedProof }` so tests can see whether the credential followed the redirect.
+   */
+  redirectAfterPayment?: boolean;
+  /** Per-request script for the paid path: request N gets step N, then normal behaviour resumes. */
+  script?: MockL402Step[];
+
+  /** Start from a named preset; explicit options override it. */
+  scenario?: MockL402ScenarioName;
 };
 
+/**
+ * One scripted response. `default` serves whatever the server would have; `challenge` forces a 402 even with a
+ * valid proof; `ok` serves the paid response without checking the proof.
+ */
+export type MockL402Step =
+  | 'default'
+  | 'challenge'
+  | 'ok'
+  | { status: number; headers?: Record<string, string>; body?: string | object; delayMs?: number };
+
+export type MockLightningOpts = {
+  /** Node that issues the invoices (default: a fresh regtest node). */
+  node?: MockLightningNode;
+  /** Price per request (default 10 sats). */
+  priceSats?: number;
+  /** Invoice expiry (default 3600s). */
+  expirySeconds?: number;
+  /** Macaroon root key (default: random). */
+  rootKey?: string;
+  /** Adds an `expires` caveat to minted macaroons. */
+  ttlSeconds?: number;
+  /** Clock for macaroon expiry (the node keeps its own). */
+  now?: () => number;
+};
+
+export type MockL402ScenarioName =
+  | 'happy-path'
+  | 'reject-first-proof'
+  | 'new-invoice-every-402'
+  | 'malformed-www-authenticate'
+  | 'slow'
+  | 'error-after-payment'
+  | 'retry-after'
+  | 'expiring-macaroon'
+  | 'redirect-after-payment'
+  | 'flaky-gateway';
+
+export type MockL402Scenario = {
+  description: string;
+  opts: MockL402ServerOpts;
+};
+
+/** Named fault-injection presets, for harnesses and tests that iterate over them. */
+export const MOCK_L402_SCENARIOS: Readonly<Record<MockL402ScenarioName, MockL402Scenario>> = {
+  'happy-path': { description: 'challenge, then accept the proof', opts: {} },
+  'reject-first-proof': { description: 'first valid proof gets 401', opts: { rejectFirstProof: true } },
+  'new-invoice-every-402': { description: 'every 402 carries a fresh invoice', opts: { uniqueInvoices: true } },
+  'malformed-www-authenticate': {
+    description: 'unparsable WWW-Authenticate challenge',
+    opts: { challengeInHeader: true, malformedChallenge: true }
+  },
+  slow: { description: '200ms before the challenge and before the paid response', opts: { delayMs: 200, paidDelayMs: 200 } },
+  'error-after-payment': { description: 'first valid proof gets 500', opts: { failAfterPayment: 1 } },
+  'retry-after': { description: 'first request gets 429 with Retry-After: 1', opts: { retryAfter: { seconds: 1 } } },
+  'expiring-macaroon': {
+    description: 'real macaroons with a 2s expires caveat; stale ones are re-challenged',
+    opts: { lightning: { ttlSeconds: 2 } }
+  },
+  'redirect-after-payment': {
+    description: 'valid proof gets a 307 to a different origin',
+    opts: { redirectAfterPayment: true }
+  },
+  'flaky-gateway': {
+    description: 'first request gets 502 from a proxy, then normal behaviour',
+    opts: { script: [{ status: 502, headers: { 'content-type': 'text/plain' }, body: 'bad gateway' }] }
+  }
+};
+
+/** Deterministic 32-byte preimage (hex) the bundled mock payers/wallets return for an invoice. */
+export function mockPreimage(invoice: string): string {
+  return crypto.createHash('sha256').update(`mock-preimage:${invoice}`).digest('hex');
+}
+
 function buildJsonChallenge(opts: {
   variant: NonNullable<MockL402ServerOpts['challengeJsonVariant']>;
   invoiceKey: NonNullable<MockL402ServerOpts['invoiceKey']>;
@@ -70,7 +186,21 @@ function buildJsonChallenge(opts: {
   }
 }
 
-export async function startMockL402Server(opts: MockL402ServerOpts = {}) {
+async function listen(server: http.Server): Promise<string> {
+  await new Promise<void>((resolve, reject) => {
+    server.listen(0, '127.0.0.1', () => resolve());
+    server.on('error', reject);
+  });
+  const addr = server.address();
+  if (!addr || typeof addr === 'string') throw new Error('failed to bind');
+  return `http://127.0.0.1:${addr.port}`;
+}
+
+const closeServer = (server: http.Server) =>
+  new Promise<void>((resolve, reject) => server.close((err?: Error | null) => (err ? reject(err) : resolve())));
+
+export async function startMockL402Server(options: MockL402ServerOpts = {}) {
+  const opts: MockL402ServerOpts = options.scenario ? { ...MOCK_L402_SCENARIOS[options.scenario].opts, ...options } : options;
   const path = opts.path || '/paid';
   const proofHeader = (opts.proofHeader || 'x-l402-proof').toLowerCase();
   const requiredProof = opts.requiredProof || 'paid';
@@ -79,78 +209,207 @@ export async function startMockL402Server(opts: MockL402ServerOpts = {}) {
   const invoiceKey = opts.invoiceKey || 'invoice';
   const includeProofHeaderHint = Boolean(opts.includeProofHeaderHint);
   const includeMacaroon = opts.includeMacaroon ?? true;
+  let issued = 0;
+  let requests = 0;
+  let validProofs = 0;
+  let throttled = 0;
 
-  const server = http.createServer((req: IncomingMessage, res: ServerResponse) => {
-    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  // Key generation is slow-ish, so only servers that use the node pay for it.
+  let lazyNode: MockLightningNode | undefined;
+  const node = () => (lazyNode ??= opts.lightning?.node || createMockLightningNode());
+  const rootKey = opts.lightning?.rootKey || crypto.randomBytes(32).toString('hex');
+  const l402 = opts.lightning
+    ? l402Middleware({
+        rootKey,
+        price: opts.lightning.priceSats ?? 10,
+        ttlSeconds: opts.lightning.ttlSeconds,
+        now: opts.lightning.now,
+        issueInvoice: async ({ amountSats }) =>
+          node().createInvoice({ amountSats, description: `mock L402 ${path}`, expirySeconds: opts.lightning?.expirySeconds })
+      })
+    : undefined;
 
-    if (url.pathname === '/healthz') {
+  const hasValidProof = (req: IncomingMessage) =>
+    l402
+      ? verifyL402Authorization(req.headers.authorization, { rootKey, req, now: opts.lightning?.now }).ok
+      : req.headers[proofHeader] !== undefined && String(req.headers[proofHeader]) === requiredProof;
+
+  // Second origin for `redirectAfterPayment`.
+  let redirectServer: http.Server | undefined;
+  let redirectBaseUrl = '';
+  if (opts.redirectAfterPayment) {
+    redirectServer = http.createServer((req, res) => {
       res.writeHead(200, { 'content-type': 'application/json' });
-      res.end(JSON.stringify({ ok: true }));
+      res.end(
+        JSON.stringify({
+          ok: true,
+          redirected: true,
+          receivedProof: Boolean(req.headers.authorization || req.headers[proofHeader])
+        })
+      );
+    });
+    redirectBaseUrl = await listen(redirectServer);
+  }
+
+  const challenge = (res: ServerResponse) => {
+    if (opts.malformedChallenge) {
+      res.writeHead(402, { 'content-type': 'text/plain', 'www-authenticate': 'L402 macaroon="mockmacaroon, invoice=' });
+      res.end('payment required');
       return;
     }
 
-    if (url.pathname !== path) {
-      res.writeHead(404, { 'content-type': 'text/plain' });
-      res.end('not found');
+    const invoice = opts.uniqueInvoices ? `lnbc1mockinvoice${++issued}` : 'lnbc1mockinvoice';
+    if (opts.challengeInHeader) {
+      const macaroon = includeMacaroon ? 'mockmacaroon' : undefined;
+      // Common L402/LSAT style.
+      const parts = [
+        'L402',
+        ...(macaroon ? [`macaroon="${macaroon}"`] : []),
+        // Exercise non-"invoice" invoice param names as well.
+        // We always include "invoice" too, since some clients are strict.
+        `invoice="${invoice}"`,
+        ...(invoiceKey !== 'invoice' ? [`${invoiceKey}="${invoice}"`] : []),
+        ...(includeProofHeaderHint ? [`proof_header="${proofHeader}"`] : [])
+      ];
+
+      res.writeHead(402, {
+        'content-type': 'text/plain',
+        'www-authenticate': parts.join(', ')
+      });
+      res.end('payment required');
       return;
     }
 
-    const proof = req.headers[proofHeader] ? String(req.headers[proofHeader]) : '';
-    if (proof !== requiredProof) {
-      if (opts.challengeInHeader) {
-        const macaroon = includeMacaroon ? 'mockmacaroon' : undefined;
-        // Common L402/LSAT style.
-        const parts = [
-          'L402',
-          ...(macaroon ? [`macaroon="${macaroon}"`] : []),
-          // Exercise non-"invoice" invoice param names as well.
-          // We always include "invoice" too, since some clients are strict.
-          `invoice="lnbc1mockinvoice"`,
-          ...(invoiceKey !== 'invoice' ? [`${invoiceKey}="lnbc1mockinvoice"`] : []),
-          ...(includeProofHeaderHint ? [`proof_header="${proofHeader}"`] : [])
-        ];
-
-        res.writeHead(402, {
-          'content-type': 'text/plain',
-          'www-authenticate': parts.join(', ')
+    res.writeHead(402, { 'content-type': 'application/json' });
+    res.end(
+      JSON.stringify(
+        buildJsonChallenge({
+          variant: challengeJsonVariant,
+          invoiceKey,
+          invoice,
+          proofHeader,
+          includeProofHeaderHint
+        })
+      )
+    );
+  };
+
+  const paid = (res: ServerResponse) => {
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ ok: true, paid: true }));
+  };
+
+  const respondPaidPath = (req: IncomingMessage, res: ServerResponse) => {
+    const step = opts.script?.[requests];
+    requests += 1;
+    if (step === 'challenge') {
+      if (l402) {
+        // The middleware challenges requests without a credential.
+        delete req.headers.authorization;
+        void l402(req, res);
+      } else {
+        challenge(res);
+      }
+      return;
+    }
+    if (step === 'ok') {
+      paid(res);
+      return;
+    }
+    if (step && step !== 'default') {
+      const body = typeof step.body === 'string' || step.body === undefined ? step.body || '' : JSON.stringify(step.body);
+      const send = () => {
+        res.writeHead(step.status, {
+          ...(typeof step.body === 'object' ? { 'content-type': 'application/json' } : {}),
+          ...step.headers
         });
-        res.end('payment required');
+        res.end(body);
+      };
+      if (step.delayMs) setTimeout(send, step.delayMs);
+      else send();
+      return;
+    }
+
+    if (opts.retryAfter && throttled < (opts.retryAfter.times ?? 1)) {
+      throttled += 1;
+      res.writeHead(opts.retryAfter.status ?? 429, { 'content-type': 'text/plain', 'retry-after': String(opts.retryAfter.seconds) });
+      res.end('slow down');
+      return;
+    }
+
+    if (hasValidProof(req)) {
+      validProofs += 1;
+      if (opts.rejectFirstProof && validProofs === 1) {
+        res.writeHead(401, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ error: 'invalid_credential', reason: 'rejected' }));
+        return;
+      }
+      if (opts.failAfterPayment && validProofs <= opts.failAfterPayment) {
+        res.writeHead(500, { 'content-type': 'text/plain' });
+        res.end('internal error');
         return;
       }
+      if (redirectServer) {
+        res.writeHead(307, { location: `${redirectBaseUrl}${req.url || path}` });
+        res.end();
+        return;
+      }
+    }
 
-      res.writeHead(402, { 'content-type': 'application/json' });
-      res.end(
-        JSON.stringify(
-          buildJsonChallenge({
-            variant: challengeJsonVariant,
-            invoiceKey,
-            invoice: 'lnbc1mockinvoice',
-            proofHeader,
-            includeProofHeaderHint
-          })
-        )
-      );
+    if (l402) {
+      void l402(req, res, () => {
+        const info = (req as IncomingMessage & { l402?: { paymentHash: string } }).l402;
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ ok: true, paid: true, paymentHash: info?.paymentHash }));
+      });
       return;
     }
 
-    res.writeHead(200, { 'content-type': 'application/json' });
-    res.end(JSON.stringify({ ok: true, paid: true }));
-  });
+    if (hasValidProof(req)) paid(res);
+    else challenge(res);
+  };
 
-  await new Promise<void>((resolve, reject) => {
-    server.listen(0, '127.0.0.1', () => resolve());
-    server.on('error', reject);
+  const respond = (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    if (url.pathname === '/healthz') {
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ ok: true }));
+      return;
+    }
+
+    if (url.pathname !== path) {
+      res.writeHead(404, { 'content-type': 'text/plain' });
+      res.end('not found');
+      return;
+    }
+
+    respondPaidPath(req, res);
+  };
+
+  const server = http.createServer((req: IncomingMessage, res: ServerResponse) => {
+    const delay = (hasValidProof(req) ? opts.paidDelayMs : opts.delayMs) || 0;
+    if (delay > 0) setTimeout(() => respond(req, res), delay);
+    else respond(req, res);
   });
 
-  const addr = server.address();
-  if (!addr || typeof addr === 'string') throw new Error('failed to bind');
-  const baseUrl = `http://127.0.0.1:${addr.port}`;
+  const baseUrl = await listen(server);
 
   return {
     baseUrl,
-    close: () =>
-      new Promise<void>((resolve, reject) =>
-        server.close((err?: Error | null) => (err ? reject(err) : resolve()))
-      )
+    /** Lightning node behind `lightning` mode. */
+    get node() {
+      return node();
+    },
+    settle: (paymentHash: string) => node().settle(paymentHash),
+    getPreimage: (invoiceOrHash: string) => node().getPreimage(invoiceOrHash),
+    /** A payer this server accepts: the mock node's wallet in `lightning` mode, else the required proof. */
+    pay: (l402 ? createMockPayer(node()) : async () => ({ proof: requiredProof })) as PayFn,
+    /** Requests seen on the paid path. */
+    requests: () => requests,
+    close: async () => {
+      await closeServer(server);
+      if (redirectServer) await closeServer(redirectServer);
+    }
   };
 }
@@ -0,0 +1,174 @@
+import crypto from 'node:crypto';
+
+import { getXOnlyPublicKey, schnorrSign, schnorrVerify, sharedSecretX } from './secp256k1.js';
+
+/**
+ * The slice of Nostr needed for Nostr Wallet Connect: event signing (NIP-01) and
+ * payload encryption (NIP-04, NIP-44 v2).
+ */
+
+export type NostrEvent = {
+  id: string;
+  pubkey: string;
+  created_at: number;
+  kind: number;
+  tags: string[][];
+  content: string;
+  sig: string;
+};
+
+export type UnsignedNostrEvent = Pick<NostrEvent, 'kind' | 'tags' | 'content'> & { created_at?: number };
+
+export type NostrFilter = {
+  ids?: string[];
+  kinds?: number[];
+  authors?: string[];
+  since?: number;
+  limit?: number;
+  [tag: `#${string}`]: string[] | undefined;
+};
+
+function hexToBytes(hex: string): Buffer {
+  if (!/^[0-9a-f]*$/i.test(hex) || hex.length % 2) throw new Error('nostr: invalid hex');
+  return Buffer.from(hex, 'hex');
+}
+
+export function getPublicKeyHex(secretKeyHex: string): string {
+  return getXOnlyPublicKey(hexToBytes(secretKeyHex)).toString('hex');
+}
+
+export function getEventHash(e: Omit<NostrEvent, 'id' | 'sig'>): string {
+  const serialized = JSON.stringify([0, e.pubkey, e.created_at, e.kind, e.tags, e.content]);
+  return crypto.createHash('sha256').update(serialized).digest('hex');
+}
+
+export function finalizeEvent(template: UnsignedNostrEvent, secretKeyHex: string): NostrEvent {
+  const unsigned = {
+    pubkey: getPublicKeyHex(secretKeyHex),
+    created_at: template.created_at ?? Math.floor(Date.now() / 1000),
+    kind: template.kind,
+    tags: template.tags,
+    content: template.content
+  };
+  const id = getEventHash(unsigned);
+  const sig = schnorrSign(hexToBytes(id), hexToBytes(secretKeyHex)).toString('hex');
+  return { id, ...unsigned, sig };
+}
+
+export function verifyEvent(e: NostrEvent): boolean {
+  try {
+    if (getEventHash(e) !== e.id) return false;
+    return schnorrVerify(hexToBytes(e.sig), hexToBytes(e.id), hexToBytes(e.pubkey));
+  } catch {
+    return false;
+  }
+}
+
+export function matchesFilter(e: NostrEvent, f: NostrFilter): boolean {
+  if (f.ids && !f.ids.includes(e.id)) return false;
+  if (f.kinds && !f.kinds.includes(e.kind)) return false;
+  if (f.authors && !f.authors.includes(e.pubkey)) return false;
+  if (f.since !== undefined && e.created_at < f.since) return false;
+  for (const [k, values] of Object.entries(f)) {
+    if (!k.startsWith('#') || !Array.isArray(values)) continue;
+    const name = k.slice(1);
+    const wanted = values as string[];
+    if (!e.tags.some((t) => t[0] === name && wanted.includes(t[1]))) return false;
+  }
+  return true;
+}
+
+/** NIP-04: AES-256-CBC with the raw ECDH x-coordinate as key. Deprecated, but still widely deployed. */
+export const nip04 = {
+  encrypt(secretKeyHex: string, peerPubkeyHex: string, plaintext: string): string {
+    const key = sharedSecretX(hexToBytes(secretKeyHex), hexToBytes(peerPubkeyHex));
+    const iv = crypto.randomBytes(16);
+    const cipher = crypto.createCipheriv('aes-256-cbc', key, iv);
+    const ct = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return `${ct.toString('base64')}?iv=${iv.toString('base64')}`;
+  },
+
+  decrypt(secretKeyHex: string, peerPubkeyHex: string, payload: string): string {
+    const [ct, iv] = payload.split('?iv=');
+    if (!ct || !iv) throw new Error('nip04: invalid payload');
+    const key = sharedSecretX(hexToBytes(secretKeyHex), hexToBytes(peerPubkeyHex));
+    const decipher = crypto.createDecipheriv('aes-256-cbc', key, Buffer.from(iv, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(ct, 'base64')), decipher.final()]).toString('utf8');
+  }
+};
+
+function hmacSha256(key: Uint8Array, ...parts: Uint8Array[]): Buffer {
+  const h = crypto.createHmac('sha256', key);
+  for (const p of parts) h.update(p);
+  return h.digest();
+}
+
+function hkdfExpand(prk: Uint8Array, info: Uint8Array, length: number): Buffer {
+  const blocks: Buffer[] = [];
+  let prev: Buffer = Buffer.alloc(0);
+  for (let i = 1; Buffer.concat(blocks).length < length; i++) {
+    prev = hmacSha256(prk, prev, info, Buffer.from([i]));
+    blocks.push(prev);
+  }
+  return Buffer.concat(blocks).subarray(0, length);
+}
+
+function nip44PaddedLength(len: number): number {
+  if (len <= 32) return 32;
+  const nextPower = 1 << (Math.floor(Math.log2(len - 1)) + 1);
+  const chunk = nextPower <= 256 ? 32 : nextPower / 8;
+  return chunk * (Math.floor((len - 1) / chunk) + 1);
+}
+
+function nip44MessageKeys(conversationKey: Uint8Array, nonce: Uint8Array) {
+  const keys = hkdfExpand(conversationKey, nonce, 76);
+  return { chachaKey: keys.subarray(0, 32), chachaNonce: keys.subarray(32, 44), hmacKey: keys.subarray(44, 76) };
+}
+
+function chacha20(key: Uint8Array, nonce: Uint8Array, data: Uint8Array): Buffer {
+  // node:crypto takes a 16-byte IV: 32-bit little-endian block counter (0) followed by the 96-bit nonce.
+  const iv = Buffer.concat([Buffer.alloc(4), Buffer.from(nonce)]);
+  const cipher = crypto.createCipheriv('chacha20', key, iv);
+  return Buffer.concat([cipher.update(data), cipher.final()]);
+}
+
+/** NIP-44 v2: ChaCha20 + HMAC-SHA256 with HKDF-derived keys and length-hiding padding. */
+export const nip44 = {
+  getConversationKey(secretKeyHex: string, peerPubkeyHex: string): Buffer {
+    const shared = sharedSecretX(hexToBytes(secretKeyHex), hexToBytes(peerPubkeyHex));
+    // HKDF-extract(salt = "nip44-v2", ikm = shared x).
+    return hmacSha256(Buffer.from('nip44-v2'), shared);
+  },
+
+  encrypt(plaintext: string, conversationKey: Uint8Array, nonce: Uint8Array = crypto.randomBytes(32)): string {
+    const unpadded = Buffer.from(plaintext, 'utf8');
+    if (unpadded.length < 1 || unpadded.length > 65535) throw new Error('nip44: invalid plaintext length');
+
+    const padded = Buffer.alloc(2 + nip44PaddedLength(unpadded.length));
+    padded.writeUInt16BE(unpadded.length, 0);
+    unpadded.copy(padded, 2);
+
+    const { chachaKey, chachaNonce, hmacKey } = nip44MessageKeys(conversationKey, nonce);
+    const ciphertext = chacha20(chachaKey, chachaNonce, padded);
+    const mac = hmacSha256(hmacKey, nonce, ciphertext);
+    return Buffer.concat([Buffer.from([2]), Buffer.from(nonce), ciphertext, mac]).toString('base64');
+  },
+
+  decrypt(payload: string, conversationKey: Uint8Array): string {
+    if (!payload || payload.startsWith('#')) throw new Error('nip44: unknown encryption version');
+    const data = Buffer.from(payload, 'base64');
+    if (data.length < 99 || data[0] !== 2) throw new Error('nip44: invalid payload');
+
+    const nonce = data.subarray(1, 33);
+    const ciphertext = data.subarray(33, data.length - 32);
+    const mac = data.subarray(data.length - 32);
+
+    const { chachaKey, chachaNonce, hmacKey } = nip44MessageKeys(conversationKey, nonce);
+    if (!crypto.timingSafeEqual(mac, hmacSha256(hmacKey, nonce, ciphertext))) throw new Error('nip44: invalid MAC');
+
+    const padded = chacha20(chachaKey, chachaNonce, ciphertext);
+    const len = padded.readUInt16BE(0);
+    if (len < 1 || 2 + nip44PaddedLength(len) !== padded.length) throw new Error('nip44: invalid padding');
+    return padded.subarray(2, 2 + len).toString('utf8');
+  }
+};
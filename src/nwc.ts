@@ -0,0 +1,266 @@
+import crypto from 'node:crypto';
+
+import { L402PayerError } from './errors.js';
+import type { PayFn } from './index.js';
+import { finalizeEvent, getPublicKeyHex, nip04, nip44, verifyEvent, type NostrEvent } from './nostr.js';
+import { connectWebSocket, type WsConnection } from './ws.js';
+
+/**
+ * Nostr Wallet Connect (NIP-47) payer: sends `pay_invoice` requests to a wallet service over a relay.
+ */
+
+export const NWC_INFO_KIND = 13194;
+export const NWC_REQUEST_KIND = 23194;
+export const NWC_RESPONSE_KIND = 23195;
+
+export type NwcEncryption = 'nip04' | 'nip44_v2';
+
+export type NwcConnection = {
+  walletPubkey: string;
+  relays: string[];
+  /** Client secret key (hex). */
+  secret: string;
+  clientPubkey: string;
+  lud16?: string;
+};
+
+export type NwcPayerOptions = {
+  /** Overall deadline for one payment (connect + request + response). Defaults to 60s. */
+  timeoutMs?: number;
+  /**
+   * Payload encryption. `auto` (default) reads the wallet's info event (kind 13194) and uses
+   * NIP-44 when advertised, NIP-04 otherwise.
+   */
+  encryption?: NwcEncryption | 'auto';
+};
+
+/** Parses `nostr+walletconnect://<wallet-pubkey>?relay=...&secret=...`. */
+export function parseNwcUri(uri: string): NwcConnection {
+  const m = String(uri ?? '').trim().match(/^nostr\+walletconnect:(?:\/\/)?([0-9a-f]{64})\?(.*)$/i);
+  if (!m) throw new Error('nwc: invalid connection URI');
+
+  const params = new URLSearchParams(m[2]);
+  const relays = params.getAll('relay').filter(Boolean);
+  const secret = (params.get('secret') || '').toLowerCase();
+  if (!relays.length) throw new Error('nwc: connection URI has no relay');
+  if (!/^[0-9a-f]{64}$/.test(secret)) throw new Error('nwc: connection URI has no valid secret');
+
+  return {
+    walletPubkey: m[1].toLowerCase(),
+    relays,
+    secret,
+    clientPubkey: getPublicKeyHex(secret),
+    lud16: params.get('lud16') || undefined
+  };
+}
+
+function nwcError(code: string, message: string): L402PayerError {
+  return new L402PayerError({ payer: 'nwc', code, message: `nwc: ${message}` });
+}
+
+/** Routes relay messages (`["EVENT", sub, ev]`, `["EOSE", sub]`, `["OK", id, ok, msg]`) to waiters. */
+function relaySession(ws: WsConnection) {
+  const handlers = new Set<(msg: unknown[]) => void>();
+  const closeHandlers = new Set<() => void>();
+  ws.onMessage((text) => {
+    let msg: unknown;
+    try {
+      msg = JSON.parse(text);
+    } catch {
+      return;
+    }
+    if (!Array.isArray(msg)) return;
+    for (const h of [...handlers]) h(msg);
+  });
+  ws.onClose(() => {
+    for (const h of [...closeHandlers]) h();
+  });
+
+  return {
+    send: (msg: unknown[]) => ws.send(JSON.stringify(msg)),
+    on(h: (msg: unknown[]) => void) {
+      handlers.add(h);
+      return () => handlers.delete(h);
+    },
+    onClose(h: () => void) {
+      closeHandlers.add(h);
+      return () => closeHandlers.delete(h);
+    }
+  };
+}
+
+type RelaySession = ReturnType<typeof relaySession>;
+
+async function detectEncryption(
+  session: RelaySession,
+  conn: NwcConnection,
+  waitMs: number,
+  signal?: AbortSignal
+): Promise<NwcEncryption> {
+  const subId = `info-${crypto.randomBytes(4).toString('hex')}`;
+  let info: NostrEvent | undefined;
+
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(done, waitMs);
+    const off = session.on((msg) => {
+      if (msg[1] !== subId) return;
+      if (msg[0] === 'EVENT') {
+        // A relay could forge an info event without NIP-44 to downgrade the encryption.
+        const ev = msg[2] as NostrEvent;
+        if (ev?.kind !== NWC_INFO_KIND || ev.pubkey !== conn.walletPubkey || !verifyEvent(ev)) return;
+        info = ev;
+      }
+      if (msg[0] === 'EOSE' || msg[0] === 'EVENT') done();
+    });
+    const offClose = session.onClose(done);
+    const onAbort = () => done(signal!.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    function done(err?: unknown) {
+      clearTimeout(timer);
+      off();
+      offClose();
+      signal?.removeEventListener('abort', onAbort);
+      if (err) reject(err);
+      else resolve();
+    }
+    if (signal?.aborted) return onAbort();
+    session.send(['REQ', subId, { kinds: [NWC_INFO_KIND], authors: [conn.walletPubkey], limit: 1 }]);
+  });
+  session.send(['CLOSE', subId]);
+
+  // No encryption tag means the wallet predates NIP-44 support.
+  const tag = info?.tags?.find((t) => t[0] === 'encryption');
+  return tag?.[1]?.split(/\s+/).includes('nip44_v2') ? 'nip44_v2' : 'nip04';
+}
+
+function encryptFor(conn: NwcConnection, encryption: NwcEncryption, plaintext: string): string {
+  if (encryption === 'nip44_v2') {
+    return nip44.encrypt(plaintext, nip44.getConversationKey(conn.secret, conn.walletPubkey));
+  }
+  return nip04.encrypt(conn.secret, conn.walletPubkey, plaintext);
+}
+
+function decryptFrom(conn: NwcConnection, payload: string): string {
+  // Wallets answer in the scheme of the request; NIP-04 payloads are recognizable by `?iv=`.
+  if (payload.includes('?iv=')) return nip04.decrypt(conn.secret, conn.walletPubkey, payload);
+  return nip44.decrypt(payload, nip44.getConversationKey(conn.secret, conn.walletPubkey));
+}
+
+/** Connects to the first reachable relay of the connection, in the order they are listed. */
+async function connectRelay(conn: NwcConnection, deadline: number): Promise<WsConnection> {
+  const failures: string[] = [];
+  for (const relay of conn.relays) {
+    try {
+      return await connectWebSocket(relay, { timeoutMs: Math.max(1, deadline - Date.now()) });
+    } catch (err) {
+      failures.push(`${relay}: ${(err as Error)?.message || err}`);
+    }
+  }
+  throw nwcError('RELAY', `cannot connect to any relay (${failures.join('; ')})`);
+}
+
+/** Sends one NIP-47 request and resolves with its `result` object. */
+export async function nwcRequest(
+  conn: NwcConnection,
+  method: string,
+  params: Record<string, unknown>,
+  opts: NwcPayerOptions & { signal?: AbortSignal } = {}
+): Promise<Record<string, unknown>> {
+  const timeoutMs = opts.timeoutMs ?? 60_000;
+  const deadline = Date.now() + timeoutMs;
+
+  const ws = await connectRelay(conn, deadline);
+
+  try {
+    const session = relaySession(ws);
+    const encryption =
+      !opts.encryption || opts.encryption === 'auto'
+        ? await detectEncryption(session, conn, Math.min(5_000, timeoutMs), opts.signal)
+        : opts.encryption;
+
+    const request = finalizeEvent(
+      {
+        kind: NWC_REQUEST_KIND,
+        tags: [['p', conn.walletPubkey], ...(encryption === 'nip44_v2' ? [['encryption', 'nip44_v2']] : [])],
+        content: encryptFor(conn, encryption, JSON.stringify({ method, params }))
+      },
+      conn.secret
+    );
+    const subId = `nwc-${request.id.slice(0, 16)}`;
+
+    return await new Promise<Record<string, unknown>>((resolve, reject) => {
+      const timer = setTimeout(
+        () => finish(nwcError('TIMEOUT', `no response to ${method} within ${timeoutMs}ms`)),
+        Math.max(0, deadline - Date.now())
+      );
+
+      const off = session.on((msg) => {
+        if (msg[0] === 'OK' && msg[1] === request.id && msg[2] === false) {
+          finish(nwcError('RELAY', `relay rejected request: ${String(msg[3] ?? '')}`));
+          return;
+        }
+        if (msg[0] !== 'EVENT' || msg[1] !== subId) return;
+
+        const ev = msg[2] as NostrEvent;
+        if (ev?.kind !== NWC_RESPONSE_KIND || ev.pubkey !== conn.walletPubkey || !verifyEvent(ev)) return;
+
+        let body: any;
+        try {
+          body = JSON.parse(decryptFrom(conn, ev.content));
+        } catch (err) {
+          finish(nwcError('INVALID_RESPONSE', `cannot decrypt wallet response: ${(err as Error)?.message || err}`));
+          return;
+        }
+
+        if (body?.error) {
+          finish(nwcError(String(body.error.code || 'OTHER'), String(body.error.message || 'wallet returned an error')));
+          return;
+        }
+        if (!body?.result || typeof body.result !== 'object') {
+          finish(nwcError('INVALID_RESPONSE', 'wallet response has no result'));
+          return;
+        }
+        finish(undefined, body.result);
+      });
+      const offClose = session.onClose(() => finish(nwcError('RELAY', 'relay closed the connection')));
+      // Stops waiting only: the wallet may still pay a request it already received.
+      const onAbort = () => finish(opts.signal!.reason);
+      opts.signal?.addEventListener('abort', onAbort, { once: true });
+
+      function finish(err?: Error, result?: Record<string, unknown>) {
+        clearTimeout(timer);
+        off();
+        offClose();
+        opts.signal?.removeEventListener('abort', onAbort);
+        if (err) reject(err);
+        else resolve(result!);
+      }
+
+      if (opts.signal?.aborted) return onAbort();
+      session.send(['REQ', subId, { kinds: [NWC_RESPONSE_KIND], authors: [conn.walletPubkey], '#e': [request.id] }]);
+      session.send(['EVENT', request]);
+    });
+  } finally {
+    ws.close();
+  }
+}
+
+/**
+ * Creates a `PayFn` that pays `challenge.invoice` through a NWC wallet and returns the preimage,
+ * which `fetchWithL402` turns into an `L402 <macaroon>:<preimage>` credential.
+ *
+ * Each payment opens its own connection to the first relay in the URI that accepts one.
+ * Failures are thrown as `L402PayerError` with `payer: 'nwc'` and the NIP-47 error code.
+ */
+export function createNwcPayer(connectionUri: string, opts: NwcPayerOptions = {}): PayFn {
+  const conn = parseNwcUri(connectionUri);
+
+  return async (challenge, ctx) => {
+    const result = await nwcRequest(conn, 'pay_invoice', { invoice: challenge.invoice }, { ...opts, signal: ctx?.signal });
+    const preimage = result.preimage;
+    if (typeof preimage !== 'string' || !/^[0-9a-f]{64}$/i.test(preimage)) {
+      throw nwcError('INVALID_RESPONSE', 'wallet response has no valid preimage');
+    }
+    return { preimage: preimage.toLowerCase() };
+  };
+}
@@ -0,0 +1,108 @@
+import { L402BodyNotReplayableError } from './errors.js';
+
+/**
+ * Request bodies that survive a pay + retry.
+ *
+ * Strings, buffers, Blobs, FormData and URLSearchParams can simply be sent again. Streams
+ * (`ReadableStream`, Node `Readable`, a `Request`'s body) are one-shot: the first attempt streams one
+ * branch of a tee while the other is buffered up to `maxBytes` for the retry.
+ */
+
+export const DEFAULT_MAX_REPLAY_BODY_BYTES = 1024 * 1024;
+
+export type ReplayableBody = {
+  /** Body for the first attempt. */
+  initial: BodyInit | null | undefined;
+  /** Whether `initial` is a stream (Node's fetch then requires `duplex: 'half'`). */
+  streaming: boolean;
+  /** Body for a later attempt. Throws `L402BodyNotReplayableError` if the stream could not be kept. */
+  replay(): Promise<BodyInit | null | undefined>;
+};
+
+function isAsyncIterable(v: unknown): v is AsyncIterable<unknown> {
+  return !!v && typeof (v as any)[Symbol.asyncIterator] === 'function';
+}
+
+function toBytes(chunk: unknown): Uint8Array {
+  if (chunk instanceof Uint8Array) return chunk;
+  if (typeof chunk === 'string') return Buffer.from(chunk, 'utf8');
+  if (chunk instanceof ArrayBuffer) return new Uint8Array(chunk);
+  throw new TypeError('fetchWithL402: unsupported stream chunk type');
+}
+
+/** Wraps a Node `Readable` (or any async iterable of chunks) as a web stream. */
+function iterableToStream(iterable: AsyncIterable<unknown>): ReadableStream<Uint8Array> {
+  const it = iterable[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await it.next();
+      if (done) controller.close();
+      else controller.enqueue(toBytes(value));
+    },
+    async cancel(reason) {
+      await it.return?.(reason);
+    }
+  });
+}
+
+/** Reads a stream into memory, or resolves `undefined` once it grows past `maxBytes` (or errors). */
+async function collect(
+  stream: ReadableStream<Uint8Array>,
+  maxBytes: number
+): Promise<Uint8Array<ArrayBuffer> | undefined> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return Buffer.concat(chunks, total);
+      total += value.byteLength;
+      if (total > maxBytes) {
+        // Cancelling one tee branch leaves the other (the in-flight upload) untouched.
+        await reader.cancel().catch(() => {});
+        return undefined;
+      }
+      chunks.push(value);
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Prepares the body of `input` / `init` for replay. `init.body` wins over a `Request`'s own body,
+ * matching `fetch`.
+ */
+export function replayableBody(
+  input: RequestInfo | URL,
+  init: RequestInit | undefined,
+  opts: { url: string; maxBytes: number }
+): ReplayableBody {
+  const source: unknown = init?.body != null ? init.body : input instanceof Request ? input.body : undefined;
+
+  if (source == null || !(source instanceof ReadableStream || isAsyncIterable(source))) {
+    const body = source as BodyInit | null | undefined;
+    return { initial: body, streaming: false, replay: async () => body };
+  }
+
+  const stream = source instanceof ReadableStream ? (source as ReadableStream<Uint8Array>) : iterableToStream(source);
+  const [first, copy] = stream.tee();
+  const buffered = collect(copy, opts.maxBytes);
+
+  return {
+    initial: first,
+    streaming: true,
+    replay: async () => {
+      const bytes = await buffered;
+      if (!bytes) {
+        throw new L402BodyNotReplayableError({
+          message: `fetchWithL402: stream body over ${opts.maxBytes} bytes cannot be replayed; refusing to pay`,
+          url: opts.url,
+          maxBytes: opts.maxBytes
+        });
+      }
+      return bytes;
+    }
+  };
+}
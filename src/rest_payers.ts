@@ -0,0 +1,250 @@
+import http from 'node:http';
+import https from 'node:https';
+
+import { L402PayerError } from './errors.js';
+import type { L402Challenge, PayFn } from './index.js';
+
+/**
+ * `PayFn` adapters for LND (`POST /v2/router/send`) and Core Lightning (clnrest `POST /v1/pay`).
+ * Both return `{ preimage }` so `fetchWithL402` can build the L402 credential.
+ */
+
+export type RestPayerFeeOptions = {
+  /** Absolute fee cap in sats. Takes precedence over `maxFeePercent`. */
+  maxFeeSats?: number;
+  /** Fee cap as a percentage of the invoice amount (default 1%, never below 10 sats). */
+  maxFeePercent?: number;
+  /** Payment deadline in ms, passed to the node. Defaults to 60s. */
+  timeoutMs?: number;
+  /**
+   * How long to wait for the node's answer. Defaults to `timeoutMs` + 10s, so the node's own verdict
+   * (preimage or failure) arrives before the client gives up.
+   */
+  httpTimeoutMs?: number;
+};
+
+export type LndRestPayerOptions = RestPayerFeeOptions & {
+  /** REST endpoint, e.g. `https://127.0.0.1:8080`. */
+  url: string;
+  /** Hex-encoded macaroon with permission to send payments. */
+  macaroonHex: string;
+  /** PEM `tls.cert` of the node (LND uses a self-signed certificate by default). */
+  tlsCert?: string | Buffer;
+};
+
+export type ClnRestPayerOptions = RestPayerFeeOptions & {
+  /** clnrest endpoint, e.g. `https://127.0.0.1:3010`. */
+  url: string;
+  rune: string;
+  /** PEM CA certificate for clnrest's TLS. */
+  tlsCert?: string | Buffer;
+};
+
+const MIN_FEE_LIMIT_SATS = 10;
+const HTTP_TIMEOUT_MARGIN_MS = 10_000;
+
+function timeouts(opts: RestPayerFeeOptions): { timeoutMs: number; httpTimeoutMs: number } {
+  const timeoutMs = opts.timeoutMs ?? 60_000;
+  return { timeoutMs, httpTimeoutMs: opts.httpTimeoutMs ?? timeoutMs + HTTP_TIMEOUT_MARGIN_MS };
+}
+
+/** Fee cap for a challenge: explicit sats, else a percentage of the decoded amount. */
+export function feeLimitSats(challenge: L402Challenge, opts: RestPayerFeeOptions): number {
+  if (opts.maxFeeSats !== undefined) return Math.max(0, Math.floor(opts.maxFeeSats));
+  const amount = challenge.decoded?.amountSats ?? 0;
+  const percent = opts.maxFeePercent ?? 1;
+  return Math.max(MIN_FEE_LIMIT_SATS, Math.ceil((amount * percent) / 100));
+}
+
+type HttpResult = { status: number; text: string };
+
+function postJson(
+  url: string,
+  body: unknown,
+  opts: { payer: string; headers: Record<string, string>; ca?: string | Buffer; timeoutMs: number; signal?: AbortSignal }
+): Promise<HttpResult> {
+  const u = new URL(url);
+  const request = u.protocol === 'https:' ? https.request : http.request;
+  const payload = JSON.stringify(body);
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const req = request(
+      u,
+      {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'content-length': Buffer.byteLength(payload), ...opts.headers },
+        ...(opts.ca ? { ca: opts.ca } : {})
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (c: Buffer) => chunks.push(c));
+        res.on('end', () => finish(undefined, { status: res.statusCode || 0, text: Buffer.concat(chunks).toString('utf8') }));
+        res.on('error', fail);
+      }
+    );
+
+    // The node has not answered, so the payment may have been sent: not a failure, and not safe to retry blindly.
+    const timer = setTimeout(() => {
+      req.destroy();
+      finish(
+        payerError(
+          opts.payer,
+          'IN_PROGRESS',
+          `no response from ${u.host} within ${opts.timeoutMs}ms; the payment may still be in flight`
+        )
+      );
+    }, opts.timeoutMs);
+
+    // Stops waiting only: the node may still complete a payment it already accepted.
+    const onAbort = () => {
+      req.destroy();
+      finish(opts.signal!.reason);
+    };
+
+    // Destroying the request makes it emit `error` after the timeout or abort has already settled.
+    function finish(err?: unknown, result?: HttpResult) {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      opts.signal?.removeEventListener('abort', onAbort);
+      if (err) reject(err);
+      else resolve(result!);
+    }
+
+    function fail(err: Error) {
+      finish(payerError(opts.payer, 'CONNECTION', `request to ${u.host} failed: ${err.message}`));
+    }
+
+    req.on('error', fail);
+    if (opts.signal?.aborted) return onAbort();
+    opts.signal?.addEventListener('abort', onAbort, { once: true });
+    req.end(payload);
+  });
+}
+
+function payerError(payer: string, code: string, message: string): L402PayerError {
+  return new L402PayerError({ payer, code, message: `${payer}: ${message}` });
+}
+
+function joinUrl(base: string, path: string): string {
+  return `${base.replace(/\/+$/, '')}${path}`;
+}
+
+function parseJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function lndRpcErrorCode(message: string): string {
+  if (/already paid|already exists/i.test(message)) return 'ALREADY_PAID';
+  if (/expired/i.test(message)) return 'INVOICE_EXPIRED';
+  if (/in transition|in flight/i.test(message)) return 'IN_PROGRESS';
+  return 'RPC_ERROR';
+}
+
+/**
+ * Pays via LND's REST `SendPaymentV2` stream. Failure reasons map to `L402PayerError` codes with
+ * the `FAILURE_REASON_` prefix stripped (`NO_ROUTE`, `INSUFFICIENT_BALANCE`, `TIMEOUT`, ...).
+ */
+export function createLndRestPayer(opts: LndRestPayerOptions): PayFn {
+  if (!opts?.url) throw new Error('createLndRestPayer: url is required');
+  if (!opts.macaroonHex || !/^[0-9a-f]+$/i.test(opts.macaroonHex)) {
+    throw new Error('createLndRestPayer: macaroonHex must be a hex string');
+  }
+  const { timeoutMs, httpTimeoutMs } = timeouts(opts);
+
+  return async (challenge, ctx) => {
+    const res = await postJson(
+      joinUrl(opts.url, '/v2/router/send'),
+      {
+        payment_request: challenge.invoice,
+        timeout_seconds: Math.max(1, Math.floor(timeoutMs / 1000)),
+        fee_limit_sat: String(feeLimitSats(challenge, opts)),
+        no_inflight_updates: true
+      },
+      {
+        payer: 'lnd',
+        headers: { 'grpc-metadata-macaroon': opts.macaroonHex },
+        ca: opts.tlsCert,
+        timeoutMs: httpTimeoutMs,
+        signal: ctx?.signal
+      }
+    );
+
+    // The endpoint streams newline-delimited `{ result: Payment }` / `{ error: Status }` objects.
+    const messages = res.text
+      .split('\n')
+      .map((line) => parseJson(line.trim()))
+      .filter((m) => m && typeof m === 'object');
+    const last = messages[messages.length - 1];
+
+    if (res.status === 401 || res.status === 403) {
+      throw payerError('lnd', 'UNAUTHORIZED', String(last?.error?.message || last?.message || `HTTP ${res.status}`));
+    }
+    if (last?.error || (res.status >= 400 && !last?.result)) {
+      const message = String(last?.error?.message || last?.message || `HTTP ${res.status}`);
+      throw payerError('lnd', lndRpcErrorCode(message), message);
+    }
+
+    const payment = last?.result;
+    if (payment?.status === 'SUCCEEDED' && typeof payment.payment_preimage === 'string') {
+      return { preimage: payment.payment_preimage.toLowerCase() };
+    }
+    if (payment?.status === 'FAILED') {
+      const reason = String(payment.failure_reason || 'FAILURE_REASON_ERROR');
+      throw payerError('lnd', reason.replace(/^FAILURE_REASON_/, ''), `payment failed (${reason})`);
+    }
+    throw payerError('lnd', 'IN_PROGRESS', `payment not settled (status ${payment?.status ?? 'unknown'})`);
+  };
+}
+
+// Core Lightning `pay` error codes (see lightning-pay(7)).
+const CLN_PAY_ERRORS: Record<number, string> = {
+  200: 'IN_PROGRESS',
+  201: 'ALREADY_PAID',
+  203: 'PERMANENT_FAILURE',
+  205: 'NO_ROUTE',
+  206: 'FEE_LIMIT_EXCEEDED',
+  207: 'INVOICE_EXPIRED',
+  210: 'TIMEOUT'
+};
+
+/**
+ * Pays via Core Lightning's clnrest `POST /v1/pay`. `pay` error codes map to `L402PayerError` codes
+ * (`NO_ROUTE`, `FEE_LIMIT_EXCEEDED`, `INVOICE_EXPIRED`, ...).
+ */
+export function createClnRestPayer(opts: ClnRestPayerOptions): PayFn {
+  if (!opts?.url) throw new Error('createClnRestPayer: url is required');
+  if (!opts.rune) throw new Error('createClnRestPayer: rune is required');
+  const { timeoutMs, httpTimeoutMs } = timeouts(opts);
+
+  return async (challenge, ctx) => {
+    const res = await postJson(
+      joinUrl(opts.url, '/v1/pay'),
+      {
+        bolt11: challenge.invoice,
+        maxfee: feeLimitSats(challenge, opts) * 1000,
+        retry_for: Math.max(1, Math.floor(timeoutMs / 1000))
+      },
+      { payer: 'cln', headers: { rune: opts.rune }, ca: opts.tlsCert, timeoutMs: httpTimeoutMs, signal: ctx?.signal }
+    );
+    const body = parseJson(res.text);
+
+    if (res.status === 401 || res.status === 403) {
+      throw payerError('cln', 'UNAUTHORIZED', String(body?.message || `HTTP ${res.status}`));
+    }
+    if (res.status >= 400 || body?.code !== undefined) {
+      const code = CLN_PAY_ERRORS[Number(body?.code)] || 'RPC_ERROR';
+      throw payerError('cln', code, String(body?.message || `HTTP ${res.status}`));
+    }
+
+    if (body?.status === 'complete' && typeof body.payment_preimage === 'string') {
+      return { preimage: body.payment_preimage.toLowerCase() };
+    }
+    throw payerError('cln', 'IN_PROGRESS', `payment not complete (status ${body?.status ?? 'unknown'})`);
+  };
+}
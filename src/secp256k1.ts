@@ -0,0 +1,66 @@
+import crypto from 'node:crypto';
+
+import { schnorr, secp256k1 } from '@noble/curves/secp256k1';
+
+/**
+ * secp256k1 helpers: x-only public keys and BIP340 Schnorr signatures (what Nostr needs), plus recoverable
+ * ECDSA (what BOLT11 invoices are signed with). Signing and verification go through `@noble/curves`
+ * (audited, constant-time); ECDH goes through node:crypto.
+ */
+
+/** 32-byte random secret key. */
+export function randomSecretKey(): Buffer {
+  return Buffer.from(secp256k1.utils.randomPrivateKey());
+}
+
+/** Compressed SEC1 public key (33 bytes). */
+export function getPublicKey(secretKey: Uint8Array): Buffer {
+  return Buffer.from(secp256k1.getPublicKey(secretKey, true));
+}
+
+/**
+ * ECDSA signature (64 bytes `r || s`, low-s) over a 32-byte hash, with the recovery id. The nonce follows
+ * RFC 6979, so signing is deterministic.
+ */
+export function ecdsaSignRecoverable(hash: Uint8Array, secretKey: Uint8Array): { signature: Buffer; recovery: number } {
+  const sig = secp256k1.sign(hash, secretKey, { lowS: true });
+  return { signature: Buffer.from(sig.toCompactRawBytes()), recovery: sig.recovery };
+}
+
+/** Public key (compressed, 33 bytes) that produced an ECDSA signature over `hash`, or null if invalid. */
+export function ecdsaRecoverPublicKey(hash: Uint8Array, signature: Uint8Array, recovery: number): Buffer | null {
+  if (signature.length !== 64 || recovery < 0 || recovery > 3) return null;
+  try {
+    const sig = secp256k1.Signature.fromCompact(signature).addRecoveryBit(recovery);
+    return Buffer.from(sig.recoverPublicKey(hash).toRawBytes(true));
+  } catch {
+    return null;
+  }
+}
+
+/** BIP340 x-only public key (32 bytes). */
+export function getXOnlyPublicKey(secretKey: Uint8Array): Buffer {
+  return Buffer.from(schnorr.getPublicKey(secretKey));
+}
+
+/** BIP340 Schnorr signature (64 bytes) over a 32-byte message. */
+export function schnorrSign(message: Uint8Array, secretKey: Uint8Array, auxRand: Uint8Array = crypto.randomBytes(32)): Buffer {
+  return Buffer.from(schnorr.sign(message, secretKey, auxRand));
+}
+
+/** BIP340 Schnorr verification against an x-only public key. */
+export function schnorrVerify(signature: Uint8Array, message: Uint8Array, publicKey: Uint8Array): boolean {
+  if (signature.length !== 64 || publicKey.length !== 32) return false;
+  try {
+    return schnorr.verify(signature, message, publicKey);
+  } catch {
+    return false;
+  }
+}
+
+/** ECDH shared x-coordinate with an x-only (even-y) peer key, as used by NIP-04 and NIP-44. */
+export function sharedSecretX(secretKey: Uint8Array, xOnlyPublicKey: Uint8Array): Buffer {
+  const ecdh = crypto.createECDH('secp256k1');
+  ecdh.setPrivateKey(Buffer.from(secretKey));
+  return ecdh.computeSecret(Buffer.concat([Buffer.from([0x02]), Buffer.from(xOnlyPublicKey)]));
+}
@@ -0,0 +1,106 @@
+import { abortable } from './abort.js';
+import type { L402Challenge } from './index.js';
+import { inspectMacaroon, parseCaveat } from './macaroon.js';
+import type { StoredToken } from './token_store.js';
+
+/**
+ * Single-flight payments: concurrent requests that hit the same paywall share one payment. The first
+ * (leader) pays; the rest wait for its credential and retry with it. If the leader fails or is aborted,
+ * the next waiter takes over and pays for its own challenge.
+ */
+
+export type SingleFlightKeyFn = (url: URL, challenge: L402Challenge) => string;
+
+export type L402SingleFlightOptions = {
+  /** Groups challenges that one credential satisfies. Defaults to `defaultSingleFlightKey`. */
+  key?: SingleFlightKeyFn;
+  /** How many keys keep their last credential for late 402s (least recently paid are dropped). Defaults to 256. */
+  maxRecent?: number;
+};
+
+export type L402SingleFlight = {
+  /**
+   * Runs `pay` unless a payment for the same key is in flight, in which case resolves with that payment's
+   * credential instead. A credential obtained after `requestedAt` (when the 402'd request was sent) is
+   * reused too, since that request could not have carried it. `signal` only stops this caller from waiting.
+   */
+  run(
+    url: URL,
+    challenge: L402Challenge,
+    pay: () => Promise<StoredToken>,
+    opts?: { signal?: AbortSignal | null; requestedAt?: number }
+  ): Promise<{ token: StoredToken; leader: boolean }>;
+  /** Number of payments currently in flight. */
+  size(): number;
+};
+
+// Caveats that differ between otherwise identical macaroons minted moments apart.
+const VOLATILE_CAVEAT = /^(expires|.*_valid_until)$/;
+
+/**
+ * Origin plus what the challenge's macaroon would grant (location and caveats, minus expiry). Servers
+ * mint a fresh invoice and payment hash per 402, so those cannot identify "the same" paywall. Without a
+ * readable macaroon, origin plus path.
+ */
+export function defaultSingleFlightKey(url: URL, challenge: L402Challenge): string {
+  const macaroon = challenge.meta?.macaroon;
+  if (typeof macaroon === 'string') {
+    try {
+      const info = inspectMacaroon(macaroon);
+      const caveats = info.caveats.filter((c) => !VOLATILE_CAVEAT.test(parseCaveat(c).condition));
+      return `${url.origin}\n${[info.location || '', ...caveats].join('\n')}`;
+    } catch {
+      // Opaque macaroon: nothing says what it grants.
+    }
+  }
+  return `${url.origin}${url.pathname || '/'}`;
+}
+
+export function createL402SingleFlight(opts: L402SingleFlightOptions = {}): L402SingleFlight {
+  const keyFn = opts.key || defaultSingleFlightKey;
+  const maxRecent = Math.max(0, Number(opts.maxRecent ?? 256));
+  const flights = new Map<string, Promise<StoredToken>>();
+  // Most recent credential per key, for requests whose 402 arrives just after a flight lands. Maps iterate
+  // in insertion order, so re-inserting on every payment keeps the oldest key first.
+  const latest = new Map<string, StoredToken>();
+  const remember = (key: string, token: StoredToken) => {
+    latest.delete(key);
+    latest.set(key, token);
+    while (latest.size > maxRecent) latest.delete(latest.keys().next().value!);
+  };
+
+  return {
+    async run(url, challenge, pay, opts = {}) {
+      const { signal, requestedAt } = opts;
+      const key = keyFn(url, challenge);
+      while (true) {
+        const inflight = flights.get(key);
+        if (!inflight) {
+          const recent = latest.get(key);
+          if (recent && requestedAt !== undefined && recent.createdAt >= requestedAt) {
+            return { token: recent, leader: false };
+          }
+
+          const flight = pay();
+          flights.set(key, flight);
+          try {
+            const token = await flight;
+            remember(key, token);
+            return { token, leader: true };
+          } finally {
+            if (flights.get(key) === flight) flights.delete(key);
+          }
+        }
+
+        try {
+          return { token: await abortable(inflight, signal), leader: false };
+        } catch (err) {
+          if (signal?.aborted) throw err;
+          // The leader failed; loop so one waiter becomes the new leader.
+          if (flights.get(key) === inflight) flights.delete(key);
+        }
+      }
+    },
+    size: () => flights.size
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * Offline stand-ins for tests: a mock L402 server and mock wallets / Lightning nodes that never move real
+ * money. Available as `l402-kit/testing`; none of it is part of the main entry point.
+ */
+
+export { createMockLightningNode, createMockPayer } from './mock_lightning.js';
+export type { MockLightningInvoice, MockLightningNode, MockLightningNodeOpts } from './mock_lightning.js';
+export { startMockNwcWallet } from './mock_nwc.js';
+export type { MockNwcPayOutcome, MockNwcRequest, MockNwcWalletOpts } from './mock_nwc.js';
+export { startMockClnRest, startMockLndRest } from './mock_rest_nodes.js';
+export type { MockNodePayOutcome, MockNodeRequest, MockRestNodeOpts } from './mock_rest_nodes.js';
+export { MOCK_L402_SCENARIOS, mockPreimage, startMockL402Server } from './mock_server.js';
+export type {
+  MockL402ScenarioName,
+  MockL402Scenario,
+  MockL402ServerOpts,
+  MockL402Step,
+  MockLightningOpts
+} from './mock_server.js';
@@ -0,0 +1,74 @@
+/** A credential that was accepted by a server and can be replayed on later requests. */
+export type StoredToken = {
+  /** Header the credential goes on (e.g. `authorization`). */
+  header: string;
+  /** Full header value (e.g. `L402 <macaroon>:<preimage>`). */
+  value: string;
+  /** Macaroon the credential was built from, if any. */
+  macaroon?: string;
+  /** Invoice paid for this credential. A 402 offering it again rejects the credential rather than asking for payment. */
+  invoice?: string;
+  /** Payment hash of `invoice`, when it decoded. */
+  paymentHash?: string;
+  /** Epoch ms when the credential was stored. */
+  createdAt: number;
+  /** Optional epoch ms after which the credential should not be reused. */
+  expiresAt?: number;
+};
+
+/**
+ * Pluggable credential cache. Methods may be sync or async so the same interface can be
+ * backed by a Map, a file or something like Redis.
+ */
+export interface TokenStore {
+  get(key: string): StoredToken | undefined | Promise<StoredToken | undefined>;
+  set(key: string, token: StoredToken): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+}
+
+/** Maps a request URL to the cache key its credential is stored under. */
+export type TokenKeyFn = (url: URL) => string;
+
+/**
+ * Default scope: origin + path, without the query. Sibling paths can sit behind different paywalls (different
+ * prices, different macaroon caveats), so a credential is only reused for the path it was paid on; pass a
+ * coarser `tokenKey` when one macaroon covers a whole API.
+ *
+ *   https://api.example.com/v1/paid/thing?x=1 -> https://api.example.com/v1/paid/thing
+ */
+export function defaultTokenKey(url: URL): string {
+  return `${url.origin}${url.pathname || '/'}`;
+}
+
+export type MemoryTokenStore = {
+  get(key: string): StoredToken | undefined;
+  set(key: string, token: StoredToken): void;
+  delete(key: string): void;
+  size(): number;
+};
+
+export function createMemoryTokenStore(opts: { now?: () => number } = {}): MemoryTokenStore {
+  const now = opts.now || Date.now;
+  const tokens = new Map<string, StoredToken>();
+
+  return {
+    get(key) {
+      const t = tokens.get(key);
+      if (!t) return undefined;
+      if (t.expiresAt !== undefined && t.expiresAt <= now()) {
+        tokens.delete(key);
+        return undefined;
+      }
+      return t;
+    },
+    set(key, token) {
+      tokens.set(key, token);
+    },
+    delete(key) {
+      tokens.delete(key);
+    },
+    size() {
+      return tokens.size;
+    }
+  };
+}
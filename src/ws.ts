@@ -0,0 +1,220 @@
+import crypto from 'node:crypto';
+import http, { IncomingMessage } from 'node:http';
+import https from 'node:https';
+import type { Duplex } from 'node:stream';
+
+/**
+ * Minimal RFC 6455 WebSocket (text messages only), enough to talk to Nostr relays without a
+ * runtime dependency and to run the bundled mock relay. Node 20 has no built-in WebSocket server
+ * and only an experimental client.
+ */
+
+const GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/** Largest message (all fragments together) a connection buffers before closing with 1009 (message too big). */
+export const DEFAULT_MAX_MESSAGE_BYTES = 1024 * 1024;
+
+export type WsOptions = {
+  /** Defaults to `DEFAULT_MAX_MESSAGE_BYTES`. */
+  maxMessageBytes?: number;
+};
+
+export type WsConnection = {
+  send(text: string): void;
+  close(): void;
+  onMessage(cb: (text: string) => void): void;
+  onClose(cb: () => void): void;
+};
+
+function encodeFrame(opcode: number, payload: Buffer, mask: boolean): Buffer {
+  const len = payload.length;
+  const header: number[] = [0x80 | opcode];
+  const maskBit = mask ? 0x80 : 0;
+  if (len < 126) header.push(maskBit | len);
+  else if (len < 65536) header.push(maskBit | 126, len >> 8, len & 0xff);
+  else {
+    header.push(maskBit | 127, 0, 0, 0, 0);
+    header.push((len >>> 24) & 0xff, (len >>> 16) & 0xff, (len >>> 8) & 0xff, len & 0xff);
+  }
+
+  if (!mask) return Buffer.concat([Buffer.from(header), payload]);
+
+  const key = crypto.randomBytes(4);
+  const masked = Buffer.alloc(len);
+  for (let i = 0; i < len; i++) masked[i] = payload[i] ^ key[i % 4];
+  return Buffer.concat([Buffer.from(header), key, masked]);
+}
+
+/** Wraps an upgraded socket. Clients must mask outgoing frames; servers must not. */
+function wrapSocket(socket: Duplex, opts: WsOptions & { mask: boolean; head?: Buffer }): WsConnection {
+  const maxMessageBytes = opts.maxMessageBytes ?? DEFAULT_MAX_MESSAGE_BYTES;
+  const messageCbs: Array<(text: string) => void> = [];
+  const closeCbs: Array<() => void> = [];
+  let buf = opts.head?.length ? Buffer.from(opts.head) : Buffer.alloc(0);
+  let fragments: Buffer[] = [];
+  let fragmentBytes = 0;
+  let closed = false;
+
+  const write = (opcode: number, payload: Buffer) => {
+    if (!closed && socket.writable) socket.write(encodeFrame(opcode, payload, opts.mask));
+  };
+
+  const finish = () => {
+    if (closed) return;
+    closed = true;
+    buf = Buffer.alloc(0);
+    for (const cb of closeCbs) cb();
+  };
+
+  const closeWith = (code?: number) => {
+    write(0x8, code ? Buffer.from([code >> 8, code & 0xff]) : Buffer.alloc(0));
+    socket.end();
+    finish();
+  };
+
+  const drain = () => {
+    while (buf.length >= 2) {
+      const fin = (buf[0] & 0x80) !== 0;
+      const opcode = buf[0] & 0x0f;
+      const masked = (buf[1] & 0x80) !== 0;
+      let len = buf[1] & 0x7f;
+      let offset = 2;
+      if (len === 126) {
+        if (buf.length < 4) return;
+        len = buf.readUInt16BE(2);
+        offset = 4;
+      } else if (len === 127) {
+        if (buf.length < 10) return;
+        len = Number(buf.readBigUInt64BE(2));
+        offset = 10;
+      }
+      // Checked before the payload arrives, so `buf` never holds more than one oversized frame header.
+      if (len + fragmentBytes > maxMessageBytes) {
+        closeWith(1009);
+        return;
+      }
+      const maskKey = masked ? buf.subarray(offset, offset + 4) : undefined;
+      if (masked) offset += 4;
+      if (buf.length < offset + len) return;
+
+      const payload = Buffer.from(buf.subarray(offset, offset + len));
+      buf = buf.subarray(offset + len);
+      if (maskKey) for (let i = 0; i < payload.length; i++) payload[i] ^= maskKey[i % 4];
+
+      if (opcode === 0x8) {
+        closeWith();
+        return;
+      }
+      if (opcode === 0x9) {
+        write(0xa, payload);
+        continue;
+      }
+      if (opcode === 0xa) continue;
+
+      // Text, binary and continuation frames.
+      fragments.push(payload);
+      fragmentBytes += payload.length;
+      if (!fin) continue;
+      const text = Buffer.concat(fragments).toString('utf8');
+      fragments = [];
+      fragmentBytes = 0;
+      for (const cb of messageCbs) cb(text);
+    }
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    if (closed) return;
+    buf = Buffer.concat([buf, chunk]);
+    drain();
+  });
+  socket.on('close', finish);
+  socket.on('error', () => socket.destroy());
+  if (buf.length) queueMicrotask(drain);
+
+  return {
+    send(text) {
+      write(0x1, Buffer.from(text, 'utf8'));
+    },
+    close() {
+      closeWith();
+    },
+    onMessage(cb) {
+      messageCbs.push(cb);
+    },
+    onClose(cb) {
+      closeCbs.push(cb);
+    }
+  };
+}
+
+/** Opens a client connection to a `ws://` or `wss://` URL. */
+export function connectWebSocket(url: string, opts: WsOptions & { timeoutMs?: number } = {}): Promise<WsConnection> {
+  const u = new URL(url);
+  if (u.protocol !== 'ws:' && u.protocol !== 'wss:') {
+    return Promise.reject(new Error(`websocket: unsupported protocol ${u.protocol}`));
+  }
+
+  const key = crypto.randomBytes(16).toString('base64');
+  const expected = crypto.createHash('sha1').update(key + GUID).digest('base64');
+  const request = u.protocol === 'wss:' ? https.request : http.request;
+
+  return new Promise((resolve, reject) => {
+    const req = request({
+      hostname: u.hostname,
+      port: u.port || (u.protocol === 'wss:' ? 443 : 80),
+      path: `${u.pathname}${u.search}`,
+      headers: {
+        connection: 'Upgrade',
+        upgrade: 'websocket',
+        'sec-websocket-key': key,
+        'sec-websocket-version': '13'
+      }
+    });
+
+    const timer = opts.timeoutMs
+      ? setTimeout(() => req.destroy(new Error(`websocket: connect to ${u.host} timed out`)), opts.timeoutMs)
+      : undefined;
+
+    req.on('upgrade', (res: IncomingMessage, socket: Duplex, head: Buffer) => {
+      clearTimeout(timer);
+      if (res.headers['sec-websocket-accept'] !== expected) {
+        socket.destroy();
+        reject(new Error('websocket: invalid Sec-WebSocket-Accept'));
+        return;
+      }
+      resolve(wrapSocket(socket, { mask: true, head, maxMessageBytes: opts.maxMessageBytes }));
+    });
+    req.on('response', (res: IncomingMessage) => {
+      clearTimeout(timer);
+      res.resume();
+      reject(new Error(`websocket: unexpected HTTP ${res.statusCode} from ${u.host}`));
+    });
+    req.on('error', (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    req.end();
+  });
+}
+
+/** Completes the server side of an HTTP upgrade (`server.on('upgrade', ...)`). */
+export function acceptWebSocket(req: IncomingMessage, socket: Duplex, head: Buffer, opts: WsOptions = {}): WsConnection | null {
+  const key = req.headers['sec-websocket-key'];
+  if (typeof key !== 'string' || String(req.headers.upgrade).toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return null;
+  }
+
+  const accept = crypto.createHash('sha1').update(key + GUID).digest('base64');
+  socket.write(
+    [
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '',
+      ''
+    ].join('\r\n')
+  );
+  return wrapSocket(socket, { mask: false, head, maxMessageBytes: opts.maxMessageBytes });
+}
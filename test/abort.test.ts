@@ -0,0 +1,123 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  createLndRestPayer,
+  createMemoryTokenStore,
+  fetchWithL402,
+  L402AbortedAfterPaymentError,
+  L402TimeoutError
+} from '../src/index.js';
+import { startMockLndRest } from '../src/mock_rest_nodes.js';
+import { startMockL402Server } from '../src/mock_server.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test('fetchWithL402: pay receives the caller signal and is abandoned when it aborts', async () => {
+  const srv = await startMockL402Server();
+  try {
+    const controller = new AbortController();
+    let paySignal: AbortSignal | undefined;
+    const pending = fetchWithL402(`${srv.baseUrl}/paid`, { signal: controller.signal }, {
+      pay: async (_challenge, ctx) => {
+        paySignal = ctx?.signal;
+        await sleep(500);
+        return { proof: 'paid' };
+      }
+    });
+    await sleep(50);
+    controller.abort(new Error('user cancelled'));
+
+    await assert.rejects(pending, /user cancelled/);
+    assert.equal(paySignal?.aborted, true);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('fetchWithL402: payTimeoutMs stops waiting and caches a payment that settles late', async () => {
+  const srv = await startMockL402Server();
+  try {
+    const tokenStore = createMemoryTokenStore();
+    await assert.rejects(
+      fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+        tokenStore,
+        payTimeoutMs: 30,
+        pay: async () => {
+          await sleep(100);
+          return { proof: 'paid' };
+        }
+      }),
+      (err: unknown) => err instanceof L402TimeoutError && err.phase === 'pay' && err.timeoutMs === 30
+    );
+    assert.equal(tokenStore.size(), 0);
+
+    await sleep(120);
+    assert.equal(tokenStore.get(`${srv.baseUrl}/paid`)?.value, 'paid');
+
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+      tokenStore,
+      pay: async () => assert.fail('should reuse the late credential')
+    });
+    assert.equal(res.status, 200);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('fetchWithL402: deadlineMs bounds the whole cycle', async () => {
+  const srv = await startMockL402Server({ delayMs: 200 });
+  try {
+    let payCalls = 0;
+    await assert.rejects(
+      fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+        deadlineMs: 50,
+        pay: async () => {
+          payCalls += 1;
+          return { proof: 'paid' };
+        }
+      }),
+      (err: unknown) => err instanceof L402TimeoutError && err.phase === 'deadline'
+    );
+    assert.equal(payCalls, 0);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('fetchWithL402: aborting after payment returns the credential and caches it', async () => {
+  const srv = await startMockL402Server({ paidDelayMs: 300 });
+  try {
+    const tokenStore = createMemoryTokenStore();
+    const controller = new AbortController();
+    const pending = fetchWithL402(`${srv.baseUrl}/paid`, { signal: controller.signal }, {
+      tokenStore,
+      pay: async () => {
+        setTimeout(() => controller.abort(new Error('gave up')), 50);
+        return { proof: 'paid' };
+      }
+    });
+
+    await assert.rejects(pending, (err: unknown) => {
+      assert.ok(err instanceof L402AbortedAfterPaymentError);
+      assert.equal(err.credential.value, 'paid');
+      assert.match(String((err.cause as Error).message), /gave up/);
+      return true;
+    });
+    assert.equal(tokenStore.get(`${srv.baseUrl}/paid`)?.value, 'paid');
+  } finally {
+    await srv.close();
+  }
+});
+
+test('createLndRestPayer: stops waiting when the pay signal aborts', async () => {
+  const lnd = await startMockLndRest({ pay: () => ({ hang: true }) });
+  try {
+    const pay = createLndRestPayer({ url: lnd.baseUrl, macaroonHex: lnd.macaroonHex, timeoutMs: 5000 });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error('stop')), 50);
+    await assert.rejects(pay({ invoice: 'lnbc1x' }, { signal: controller.signal }), /stop/);
+  } finally {
+    await lnd.close();
+  }
+});
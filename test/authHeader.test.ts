@@ -0,0 +1,55 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { formatAuthChallenge, parseAuthenticateHeader } from '../src/index.js';
+
+test('parseAuthenticateHeader: RFC 9110 example with several challenges and a quoted-pair', () => {
+  assert.deepEqual(parseAuthenticateHeader('Basic realm="simple", Newauth realm="apps", type=1, title="Login to \\"apps\\""'), [
+    { scheme: 'Basic', params: { realm: 'simple' } },
+    { scheme: 'Newauth', params: { realm: 'apps', type: '1', title: 'Login to "apps"' } }
+  ]);
+});
+
+test('parseAuthenticateHeader: token68, bad whitespace and case', () => {
+  assert.deepEqual(parseAuthenticateHeader('Negotiate YIIBhw+YG/Kw==, L402 Macaroon = "m" ,invoice= "i"'), [
+    { scheme: 'Negotiate', token68: 'YIIBhw+YG/Kw==', params: {} },
+    { scheme: 'L402', params: { macaroon: 'm', invoice: 'i' } }
+  ]);
+  // `realm=x` is a param, not a token68.
+  assert.deepEqual(parseAuthenticateHeader('Bearer realm=x'), [{ scheme: 'Bearer', params: { realm: 'x' } }]);
+  // `macaroon=` followed by another param is an empty param, not a padded token68.
+  assert.deepEqual(parseAuthenticateHeader('L402 macaroon=, invoice=lnbc1x'), [
+    { scheme: 'L402', params: { macaroon: '', invoice: 'lnbc1x' } }
+  ]);
+  assert.deepEqual(parseAuthenticateHeader('Basic abc=, L402 invoice=lnbc1x'), [
+    { scheme: 'Basic', token68: 'abc=', params: {} },
+    { scheme: 'L402', params: { invoice: 'lnbc1x' } }
+  ]);
+});
+
+test('parseAuthenticateHeader: shapes L402 servers send that RFC 9110 does not allow', () => {
+  const expected = [{ scheme: 'L402', params: { macaroon: 'AgE/x+y==', invoice: 'lnbc1x' } }];
+  assert.deepEqual(parseAuthenticateHeader('L402 macaroon="AgE/x+y=="; invoice="lnbc1x"'), expected);
+  assert.deepEqual(parseAuthenticateHeader('L402 macaroon=AgE/x+y== invoice=lnbc1x'), expected);
+  assert.deepEqual(parseAuthenticateHeader('L402, macaroon=AgE/x+y==, invoice="lnbc1x"'), expected);
+
+  // Unterminated quote: the value runs to the end, nothing after it is a param.
+  assert.deepEqual(parseAuthenticateHeader('L402 macaroon="m, invoice=lnbc1x'), [
+    { scheme: 'L402', params: { macaroon: 'm, invoice=lnbc1x' } }
+  ]);
+  // Stray characters and orphan params are skipped; `__proto__` is never assigned.
+  assert.deepEqual(parseAuthenticateHeader('= "x" , a=1, ,L402 __proto__="p" (invoice=i'), [
+    { scheme: 'L402', params: { invoice: 'i' } }
+  ]);
+  assert.deepEqual(parseAuthenticateHeader(''), []);
+});
+
+test('formatAuthChallenge: escapes values so they parse back unchanged', () => {
+  const challenge = { scheme: 'L402', params: { macaroon: 'a"b\\c', invoice: 'x, y; z=' } };
+  const header = formatAuthChallenge(challenge);
+  assert.equal(header, 'L402 macaroon="a\\"b\\\\c", invoice="x, y; z="');
+  assert.deepEqual(parseAuthenticateHeader(`${header}, ${formatAuthChallenge({ scheme: 'Basic', token68: 'abc=' })}`), [
+    challenge,
+    { scheme: 'Basic', token68: 'abc=', params: {} }
+  ]);
+});
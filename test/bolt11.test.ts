@@ -0,0 +1,122 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { bech32Decode, bech32Encode } from '../src/bolt11.js';
+import { Bolt11DecodeError, decodeBolt11, fetchWithL402 } from '../src/index.js';
+import { restamp } from './helpers.js';
+
+// Test vectors from the BOLT11 spec.
+const DONATION =
+  'lnbc1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpl2pkx2ctnv5sxxmmwwd5kgetjypeh2ursdae8g6twvus8g6rfwvs8qun0dfjkxaq8rkx3yf5tcsyz3d73gafnh3cax9rn449d9p5uxz9ezhhypd0elx87sjle52x86fux2ypatgddc6k63n7erqz25le42c4u4ecky03ylcqca784w';
+const COFFEE =
+  'lnbc2500u1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpuaztrnwngzn3kdzw5hydlzf03qdgm2hdq27cqv3agm2awhz5se903vruatfhq77w3ls4evs3ch9zw97j25emudupq63nyw24cg27h2rspfj9srp';
+
+const PAYMENT_HASH = '0001020304050607080900010203040506070809000102030405060708090102';
+
+/** Re-encodes a known-good invoice under a different human-readable part. */
+function withHrp(invoice: string, hrp: string): string {
+  return bech32Encode(hrp, bech32Decode(invoice).words);
+}
+
+test('decodeBolt11: decodes an any-amount invoice with description', () => {
+  const d = decodeBolt11(DONATION);
+  assert.equal(d.network, 'mainnet');
+  assert.equal(d.amountMsat, undefined);
+  assert.equal(d.timestamp, 1496314658);
+  assert.equal(d.expiry, 3600);
+  assert.equal(d.expiresAt, 1496314658 + 3600);
+  assert.equal(d.paymentHash, PAYMENT_HASH);
+  assert.equal(d.description, 'Please consider supporting this project');
+  assert.equal(d.minFinalCltvExpiry, 18);
+  assert.equal(d.signature.length, 128);
+});
+
+test('decodeBolt11: decodes amount multiplier and expiry tag', () => {
+  const d = decodeBolt11(COFFEE.toUpperCase());
+  assert.equal(d.amountMsat, 250_000_000);
+  assert.equal(d.amountSats, 250_000);
+  assert.equal(d.expiry, 60);
+  assert.equal(d.description, '1 cup coffee');
+  assert.equal(decodeBolt11(`lightning:${COFFEE}`).paymentHash, PAYMENT_HASH);
+});
+
+test('decodeBolt11: recognizes network prefixes and msat multipliers', () => {
+  assert.equal(decodeBolt11(withHrp(DONATION, 'lntb')).network, 'testnet');
+  assert.equal(decodeBolt11(withHrp(DONATION, 'lntbs')).network, 'signet');
+  assert.equal(decodeBolt11(withHrp(DONATION, 'lnbcrt1m')).network, 'regtest');
+  assert.equal(decodeBolt11(withHrp(DONATION, 'lnbcrt1m')).amountMsat, 100_000_000);
+  assert.equal(decodeBolt11(withHrp(DONATION, 'lnbc10n')).amountMsat, 1000);
+  assert.equal(decodeBolt11(withHrp(DONATION, 'lnbc20p')).amountMsat, 2);
+  assert.equal(decodeBolt11(withHrp(DONATION, 'lnbc2')).amountMsat, 200_000_000_000);
+  assert.equal(decodeBolt11(withHrp(DONATION, 'lnbc1500p')).amountSats, 1);
+});
+
+test('decodeBolt11: throws typed errors on malformed input', () => {
+  const code = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (err) {
+      assert.ok(err instanceof Bolt11DecodeError);
+      return err.code;
+    }
+    return 'no-throw';
+  };
+
+  assert.equal(code(() => decodeBolt11('lnbc1mockinvoice')), 'invalid_bech32');
+  assert.equal(code(() => decodeBolt11(DONATION.slice(0, -1) + 'q')), 'invalid_checksum');
+  assert.equal(code(() => decodeBolt11('not an invoice')), 'invalid_bech32');
+  assert.equal(code(() => decodeBolt11(withHrp(DONATION, 'lnxy'))), 'invalid_prefix');
+  assert.equal(code(() => decodeBolt11(withHrp(DONATION, 'lnbc15p'))), 'invalid_amount');
+  assert.equal(code(() => decodeBolt11(withHrp(DONATION, 'lnbc1p'))), 'invalid_amount');
+});
+
+test('fetchWithL402: attaches decoded invoice (or decodeError) to the challenge', async () => {
+  const { baseUrl, close } = await (async () => {
+    const http = await import('node:http');
+    const server = http.createServer((req: any, res: any) => {
+      const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+      const proof = req.headers['x-l402-proof'] ? String(req.headers['x-l402-proof']) : '';
+      if (proof !== 'paid') {
+        res.writeHead(402, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ invoice: url.pathname === '/coffee' ? restamp(COFFEE) : 'lnbc1mockinvoice' }));
+        return;
+      }
+
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ ok: true, paid: true }));
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.listen(0, '127.0.0.1', () => resolve());
+      server.on('error', reject);
+    });
+    const addr = server.address();
+    if (!addr || typeof addr === 'string') throw new Error('failed to bind');
+    return {
+      baseUrl: `http://127.0.0.1:${addr.port}`,
+      close: () => new Promise<void>((resolve, reject) => server.close((err?: any) => (err ? reject(err) : resolve())))
+    };
+  })();
+
+  try {
+    const coffee = await fetchWithL402(`${baseUrl}/coffee`, undefined, {
+      pay: async (challenge) => {
+        assert.equal(challenge.decoded?.amountSats, 250_000);
+        assert.equal(challenge.decoded?.paymentHash, PAYMENT_HASH);
+        assert.equal(challenge.decodeError, undefined);
+        return { proof: 'paid' };
+      }
+    });
+    assert.equal(coffee.status, 200);
+
+    const mock = await fetchWithL402(`${baseUrl}/mock`, undefined, {
+      pay: async (challenge) => {
+        assert.equal(challenge.decoded, undefined);
+        assert.equal(challenge.decodeError?.code, 'invalid_bech32');
+        return { proof: 'paid' };
+      }
+    });
+    assert.equal(mock.status, 200);
+  } finally {
+    await close();
+  }
+});
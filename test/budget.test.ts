@@ -0,0 +1,160 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { bech32Decode, bech32Encode } from '../src/bolt11.js';
+import {
+  createL402Budget,
+  decodeBolt11,
+  fetchWithL402,
+  L402BudgetExceededError,
+  type L402Challenge
+} from '../src/index.js';
+
+// BOLT11 spec vector (amountless); re-encoded below with amounts in the HRP.
+const DONATION =
+  'lnbc1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpl2pkx2ctnv5sxxmmwwd5kgetjypeh2ursdae8g6twvus8g6rfwvs8qun0dfjkxaq8rkx3yf5tcsyz3d73gafnh3cax9rn449d9p5uxz9ezhhypd0elx87sjle52x86fux2ypatgddc6k63n7erqz25le42c4u4ecky03ylcqca784w';
+
+/** Fresh (created now) invoice for `sats`; signatures are not checked. */
+function invoiceForSats(sats: number): string {
+  const now = Math.floor(Date.now() / 1000);
+  const timestamp = Array.from({ length: 7 }, (_, i) => Math.floor(now / 32 ** (6 - i)) % 32);
+  return bech32Encode(`lnbc${sats * 10}n`, [...timestamp, ...bech32Decode(DONATION).words.slice(7)]);
+}
+
+function challengeFor(invoice: string, meta?: Record<string, unknown>): L402Challenge {
+  return { invoice, decoded: decodeBolt11(invoice), meta };
+}
+
+async function rejection(p: Promise<unknown>): Promise<L402BudgetExceededError> {
+  try {
+    await p;
+  } catch (err) {
+    assert.ok(err instanceof L402BudgetExceededError);
+    return err;
+  }
+  assert.fail('expected L402BudgetExceededError');
+}
+
+test('createL402Budget: enforces max per payment using the decoded amount, not meta', async () => {
+  const budget = createL402Budget({ maxSatsPerPayment: 100 });
+  const url = new URL('https://api.example.com/paid');
+
+  const ok = await budget.reserve(url, challengeFor(invoiceForSats(100)));
+  assert.equal(ok.amountSats, 100);
+
+  const err = await rejection(budget.reserve(url, challengeFor(invoiceForSats(101), { price: 1 })));
+  assert.equal(err.reason, 'max_per_payment');
+  assert.equal(err.amountSats, 101);
+
+  const unknown = await rejection(budget.reserve(url, challengeFor(DONATION)));
+  assert.equal(unknown.reason, 'unknown_amount');
+});
+
+test('createL402Budget: per-host and global rolling windows', async () => {
+  let now = 0;
+  const budget = createL402Budget({
+    perHost: { maxSats: 100, windowMs: 1000 },
+    global: { maxSats: 150, windowMs: 1000 },
+    now: () => now
+  });
+  const a = new URL('https://a.example.com/paid');
+  const b = new URL('https://b.example.com/paid');
+
+  await budget.reserve(a, challengeFor(invoiceForSats(60)));
+  assert.equal((await rejection(budget.reserve(a, challengeFor(invoiceForSats(50))))).reason, 'per_host_window');
+
+  await budget.reserve(b, challengeFor(invoiceForSats(80)));
+  assert.equal((await rejection(budget.reserve(b, challengeFor(invoiceForSats(20))))).reason, 'global_window');
+  assert.equal(budget.spent(1000), 140);
+
+  // Released reservations don't count; old spend rolls out of the window.
+  const r = await budget.reserve(b, challengeFor(invoiceForSats(10)));
+  r.release();
+  assert.equal(budget.spent(1000, b.host), 80);
+
+  now = 1000;
+  await budget.reserve(a, challengeFor(invoiceForSats(100)));
+});
+
+test('createL402Budget: without a window, only the most recent payments are kept', async () => {
+  const budget = createL402Budget({ maxSatsPerPayment: 10 });
+  const url = new URL('https://api.example.com/paid');
+  const c = challengeFor(invoiceForSats(1));
+  for (let i = 0; i < 1500; i++) await budget.reserve(url, c);
+  assert.equal(budget.spent(60_000), 1000);
+});
+
+test('createL402Budget: allow/deny origins and approve hook', async () => {
+  const seen: number[] = [];
+  const budget = createL402Budget({
+    allowOrigins: ['*.example.com', 'https://other.test'],
+    denyOrigins: ['evil.example.com'],
+    approve: (_challenge, { amountSats }) => {
+      seen.push(amountSats);
+      return amountSats < 50;
+    }
+  });
+  const c = challengeFor(invoiceForSats(10));
+
+  await budget.reserve(new URL('https://api.example.com/x'), c);
+  await budget.reserve(new URL('https://other.test/x'), c);
+  assert.equal((await rejection(budget.reserve(new URL('https://evil.example.com/x'), c))).reason, 'origin_denied');
+  assert.equal((await rejection(budget.reserve(new URL('http://other.test/x'), c))).reason, 'origin_not_allowed');
+  assert.equal(
+    (await rejection(budget.reserve(new URL('https://api.example.com/x'), challengeFor(invoiceForSats(60))))).reason,
+    'not_approved'
+  );
+  assert.deepEqual(seen, [10, 10, 60]);
+});
+
+test('fetchWithL402: budget rejection throws before pay is called', async () => {
+  const invoice = invoiceForSats(5000);
+  const { baseUrl, close } = await (async () => {
+    const http = await import('node:http');
+    const server = http.createServer((req: any, res: any) => {
+      const proof = req.headers['x-l402-proof'] ? String(req.headers['x-l402-proof']) : '';
+      if (proof !== 'paid') {
+        res.writeHead(402, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ invoice }));
+        return;
+      }
+
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ ok: true, paid: true }));
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.listen(0, '127.0.0.1', () => resolve());
+      server.on('error', reject);
+    });
+    const addr = server.address();
+    if (!addr || typeof addr === 'string') throw new Error('failed to bind');
+    return {
+      baseUrl: `http://127.0.0.1:${addr.port}`,
+      close: () => new Promise<void>((resolve, reject) => server.close((err?: any) => (err ? reject(err) : resolve())))
+    };
+  })();
+
+  try {
+    let payCalls = 0;
+    const pay = async () => {
+      payCalls += 1;
+      return { proof: 'paid' };
+    };
+
+    const err = await rejection(
+      fetchWithL402(`${baseUrl}/paid`, undefined, { pay, budget: createL402Budget({ maxSatsPerPayment: 1000 }) })
+    );
+    assert.equal(err.reason, 'max_per_payment');
+    assert.equal(err.amountSats, 5000);
+    assert.equal(err.challenge.invoice, invoice);
+    assert.equal(payCalls, 0);
+
+    const budget = createL402Budget({ maxSatsPerPayment: 5000 });
+    const res = await fetchWithL402(`${baseUrl}/paid`, undefined, { pay, budget });
+    assert.equal(res.status, 200);
+    assert.equal(payCalls, 1);
+    assert.equal(budget.spent(60_000), 5000);
+  } finally {
+    await close();
+  }
+});
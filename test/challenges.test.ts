@@ -0,0 +1,133 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+
+import { bech32Decode, bech32Encode } from '../src/bolt11.js';
+import {
+  createChallengeSelector,
+  fetchWithL402,
+  L402NoAcceptableChallengeError,
+  parseAllChallenges,
+  parseL402Challenge
+} from '../src/index.js';
+import { restamp } from './helpers.js';
+
+// BOLT11 spec vector (any amount, created 1496314658, 1h expiry), re-encoded with different amounts.
+const DONATION =
+  'lnbc1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpl2pkx2ctnv5sxxmmwwd5kgetjypeh2ursdae8g6twvus8g6rfwvs8qun0dfjkxaq8rkx3yf5tcsyz3d73gafnh3cax9rn449d9p5uxz9ezhhypd0elx87sjle52x86fux2ypatgddc6k63n7erqz25le42c4u4ecky03ylcqca784w';
+const withHrp = (hrp: string) => bech32Encode(hrp, bech32Decode(DONATION).words);
+const TWO_SATS = withHrp('lnbc20n');
+const ONE_SAT = withHrp('lnbc10n');
+const CREATED_MS = 1496314658 * 1000;
+
+test('parseAllChallenges: every header challenge, then new invoices from the body', async () => {
+  const res = new Response(
+    JSON.stringify({ invoice: TWO_SATS, options: [{ invoice: ONE_SAT, proofHeader: 'x-cheap', meta: { tier: 'basic' } }, DONATION] }),
+    {
+      status: 402,
+      headers: {
+        'www-authenticate': `L402 macaroon="m1", invoice="${TWO_SATS}", LSAT macaroon="m2", invoice="${TWO_SATS}"`
+      }
+    }
+  );
+
+  const all = await parseAllChallenges(res);
+  assert.deepEqual(
+    all.map((c) => [c.source, c.scheme, c.invoice, c.proofHeader]),
+    [
+      ['www-authenticate', 'L402', TWO_SATS, 'authorization'],
+      ['www-authenticate', 'LSAT', TWO_SATS, 'authorization'],
+      ['body', undefined, ONE_SAT, 'x-cheap'],
+      ['body', undefined, DONATION, undefined]
+    ]
+  );
+  assert.deepEqual(all[1].meta, { macaroon: 'm2' });
+  assert.deepEqual(all[2].meta, { tier: 'basic' });
+  assert.deepEqual(
+    all.map((c) => c.decoded?.amountSats),
+    [2, 2, 1, undefined]
+  );
+
+  // The single-challenge parser keeps preferring the header, and the response stays readable.
+  assert.equal((await parseL402Challenge(res))?.meta?.macaroon, 'm1');
+  assert.equal((await res.json()).invoice, TWO_SATS);
+});
+
+test('createChallengeSelector: schemes, amount cap, expiry and cheapest', async () => {
+  const challenges = await parseAllChallenges(
+    new Response(JSON.stringify({ challenges: [TWO_SATS, ONE_SAT, DONATION] }), {
+      status: 402,
+      headers: { 'www-authenticate': `LSAT invoice="${ONE_SAT}"` }
+    })
+  );
+  const url = new URL('https://api.example.com/');
+  const fresh = () => CREATED_MS + 1000;
+
+  const pick = (opts: Parameters<typeof createChallengeSelector>[0]) => createChallengeSelector(opts)(challenges, { url });
+
+  assert.equal(await pick({ now: fresh }), challenges[0]);
+  assert.equal(await pick({}), null, 'all expired');
+  assert.equal(await pick({ now: fresh, schemes: ['L402'] }), challenges[1]);
+  // ONE_SAT is only offered as LSAT (its body duplicate is dropped).
+  assert.equal(((await pick({ now: fresh, prefer: 'cheapest', schemes: ['L402'] })) as any).invoice, TWO_SATS);
+  assert.equal(((await pick({ now: fresh, prefer: 'cheapest' })) as any).scheme, 'LSAT');
+  assert.equal(await pick({ now: fresh, maxSats: 0 }), null);
+  assert.equal(((await pick({ unexpired: false, prefer: 'cheapest' })) as any).invoice, ONE_SAT);
+
+  // Expired by less than the clock skew still counts, like checkL402Invoice.
+  const expiry = CREATED_MS + 3600_000;
+  assert.equal(await pick({ now: () => expiry + 30_000 }), challenges[0]);
+  assert.equal(await pick({ now: () => expiry + 30_000, clockSkewMs: 0 }), null);
+  assert.equal(await pick({ now: () => expiry + 61_000 }), null);
+});
+
+async function optionsServer(offers: string[]) {
+  const server = http.createServer((req, res) => {
+    if (req.headers['x-l402-proof'] === offers[1]) {
+      res.end('ok');
+      return;
+    }
+    res.writeHead(402, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ offers: offers.map((invoice) => ({ invoice })) }));
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.listen(0, '127.0.0.1', () => resolve());
+    server.on('error', reject);
+  });
+  const addr = server.address();
+  if (!addr || typeof addr === 'string') throw new Error('failed to bind');
+  return {
+    baseUrl: `http://127.0.0.1:${addr.port}`,
+    close: () => new Promise<void>((resolve, reject) => server.close((err?: any) => (err ? reject(err) : resolve())))
+  };
+}
+
+test('fetchWithL402: selectChallenge chooses which offer to pay', async () => {
+  const [twoSats, oneSat] = [restamp(TWO_SATS), restamp(ONE_SAT)];
+  const srv = await optionsServer([twoSats, oneSat]);
+  try {
+    const paid: string[] = [];
+    const pay = async (challenge: { invoice: string }) => {
+      paid.push(challenge.invoice);
+      return { proof: challenge.invoice };
+    };
+
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+      pay,
+      selectChallenge: createChallengeSelector({ prefer: 'cheapest' })
+    });
+    assert.equal(res.status, 200);
+    assert.deepEqual(paid, [oneSat]);
+
+    // Declining every offer pays nothing.
+    const declined = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, { pay, selectChallenge: () => null });
+    assert.equal(declined.status, 402);
+    await assert.rejects(
+      fetchWithL402(`${srv.baseUrl}/paid`, undefined, { pay, strict: true, selectChallenge: () => null }),
+      (err: unknown) => err instanceof L402NoAcceptableChallengeError && err.response.status === 402
+    );
+    assert.deepEqual(paid, [oneSat]);
+  } finally {
+    await srv.close();
+  }
+});
@@ -0,0 +1,133 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { bech32Encode } from '../src/bolt11.js';
+import { runCli } from '../src/cli.js';
+import { encodeL402Identifier, mintMacaroon, serializeMacaroon } from '../src/macaroon.js';
+import { mockPreimage, startMockL402Server } from '../src/mock_server.js';
+
+function capture() {
+  const out = { stdout: '', stderr: '' };
+  return {
+    out,
+    io: {
+      stdout: (s: string) => void (out.stdout += s),
+      stderr: (s: string) => void (out.stderr += s),
+      env: {}
+    }
+  };
+}
+
+const headerServer = (requiredProof: string) =>
+  startMockL402Server({ challengeInHeader: true, proofHeader: 'authorization', requiredProof });
+
+test('l402 inspect: shows the challenge without paying', async () => {
+  const srv = await startMockL402Server({ challengeInHeader: true, proofHeader: 'authorization', includeProofHeaderHint: true });
+  try {
+    const human = capture();
+    assert.equal(await runCli(['inspect', `${srv.baseUrl}/paid`], human.io), 0);
+    assert.match(human.out.stdout, /^402 Payment Required\n/);
+    assert.match(human.out.stdout, /invoice: +lnbc1mockinvoice\n/);
+    assert.match(human.out.stdout, /proof header: +authorization\n/);
+
+    const machine = capture();
+    assert.equal(await runCli(['inspect', `${srv.baseUrl}/paid`, '--json'], machine.io), 0);
+    const report = JSON.parse(machine.out.stdout);
+    assert.equal(report.status, 402);
+    assert.equal(report.challenge.invoice, 'lnbc1mockinvoice');
+    assert.equal(report.challenge.scheme, 'L402');
+    assert.equal(report.challenge.decodeError.code, 'invalid_bech32');
+
+    const free = capture();
+    assert.equal(await runCli(['inspect', `${srv.baseUrl}/healthz`], free.io), 0);
+    assert.match(free.out.stdout, /no payment required/);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('l402 fetch: pays with the mock payer and prints the body', async () => {
+  const srv = await headerServer(`L402 mockmacaroon:${mockPreimage('lnbc1mockinvoice')}`);
+  try {
+    const human = capture();
+    assert.equal(await runCli(['fetch', `${srv.baseUrl}/paid`, '--mock-payer'], human.io), 0);
+    assert.deepEqual(JSON.parse(human.out.stdout), { ok: true, paid: true });
+    assert.match(human.out.stderr, /402 challenge: \? sats, lnbc1mockinvoice\n/);
+    assert.match(human.out.stderr, /200 OK\n$/);
+
+    const machine = capture();
+    assert.equal(await runCli(['fetch', `${srv.baseUrl}/paid`, '--mock-payer', '--json'], machine.io), 0);
+    const report = JSON.parse(machine.out.stdout);
+    assert.equal(report.status, 200);
+    assert.equal(report.receipts.length, 1);
+    assert.equal(report.receipts[0].preimage, undefined);
+    assert.equal(report.receipts[0].preimageHash.length, 64);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('l402 fetch: preimage file payer, and failures exit non-zero', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'l402-cli-'));
+  const preimage = 'cd'.repeat(32);
+  const srv = await headerServer(`L402 mockmacaroon:${preimage}`);
+  try {
+    const file = path.join(dir, 'preimages.txt');
+    await fs.writeFile(file, `# invoice preimage\nlnbc1other ${'00'.repeat(32)}\nlnbc1mockinvoice ${preimage}\n`);
+    const ok = capture();
+    assert.equal(await runCli(['fetch', `${srv.baseUrl}/paid`, '--preimage-file', file], ok.io), 0);
+
+    await fs.writeFile(file, 'lnbc1other 00\n');
+    const missing = capture();
+    assert.equal(await runCli(['fetch', `${srv.baseUrl}/paid`, '--preimage-file', file, '--json'], missing.io), 1);
+    assert.match(JSON.parse(missing.out.stdout).error.message, /no preimage for lnbc1mockinvoice/);
+
+    const wrong = capture();
+    assert.equal(await runCli(['fetch', `${srv.baseUrl}/paid`, '--proof', 'nope'], wrong.io), 1);
+    assert.match(wrong.out.stderr, /402 Payment Required\n$/);
+  } finally {
+    await srv.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('l402 decode: invoices and macaroons', async () => {
+  // Any-amount regtest invoice: 7-word timestamp, no tagged fields, zeroed 104-word signature.
+  const invoice = bech32Encode('lnbcrt', [...Array(7).fill(0), ...Array(104).fill(0)]);
+  const inv = capture();
+  assert.equal(await runCli(['decode', `lightning:${invoice}`], inv.io), 0);
+  assert.match(inv.out.stdout, /type: +bolt11 invoice\nnetwork: +regtest\namount: +any\n/);
+
+  const macaroon = serializeMacaroon(
+    mintMacaroon({
+      rootKey: 'k',
+      location: 'https://api.example.com',
+      identifier: encodeL402Identifier({ paymentHash: 'ab'.repeat(32), tokenId: 'cd'.repeat(32) }),
+      caveats: ['services=api:0', 'expires=1700000000']
+    })
+  );
+  const mac = capture();
+  assert.equal(await runCli(['decode', macaroon, '--json'], mac.io), 0);
+  const info = JSON.parse(mac.out.stdout);
+  assert.equal(info.type, 'macaroon');
+  assert.equal(info.l402.paymentHash, 'ab'.repeat(32));
+  assert.deepEqual(info.services, [{ name: 'api', tier: 0 }]);
+  assert.equal(info.expiresAt, 1_700_000_000_000);
+
+  const bad = capture();
+  assert.equal(await runCli(['decode', 'not-a-macaroon'], bad.io), 1);
+});
+
+test('l402: usage errors exit 2', async () => {
+  for (const argv of [[], ['bogus', 'x'], ['fetch', 'http://127.0.0.1:1/'], ['inspect'], ['decode', 'x', '--nope']]) {
+    const c = capture();
+    assert.equal(await runCli(argv, c.io), 2, argv.join(' '));
+    assert.ok(c.out.stderr.length > 0);
+  }
+  const help = capture();
+  assert.equal(await runCli(['--help'], help.io), 0);
+  assert.match(help.out.stdout, /l402 inspect <url>/);
+});
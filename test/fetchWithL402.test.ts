@@ -1,7 +1,7 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
 
-import { fetchWithL402 } from '../src/index.js';
+import { fetchWithL402, formatL402Credential, resolveProof } from '../src/index.js';
 import { startMockL402Server } from '../src/mock_server.js';
 
 test('fetchWithL402: pays on 402 then retries with proof header (json challenge)', async () => {
@@ -609,3 +609,119 @@ test('fetchWithL402: returns 402 if challenge cannot be parsed', async () => {
     await close();
   }
 });
+
+test('fetchWithL402: builds L402 <macaroon>:<preimage> credential from { preimage }', async () => {
+  const srv = await startMockL402Server({
+    challengeInHeader: true,
+    proofHeader: 'authorization',
+    requiredProof: 'L402 mockmacaroon:deadbeef'
+  });
+  try {
+    let payCalls = 0;
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+      pay: async (challenge) => {
+        payCalls += 1;
+        assert.equal(challenge.scheme, 'L402');
+        return { preimage: 'deadbeef' };
+      }
+    });
+
+    assert.equal(payCalls, 1);
+    assert.equal(res.status, 200);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('fetchWithL402: keeps the LSAT scheme and prefers an explicit macaroon', async () => {
+  const { baseUrl, close } = await (async () => {
+    const http = await import('node:http');
+    const server = http.createServer((req: any, res: any) => {
+      const auth = req.headers['authorization'] ? String(req.headers['authorization']) : '';
+      if (auth !== 'LSAT othermacaroon:cafe') {
+        res.writeHead(402, {
+          'content-type': 'text/plain',
+          'www-authenticate': 'LSAT macaroon="mockmacaroon", invoice="lnbc1mockinvoice"'
+        });
+        res.end('payment required');
+        return;
+      }
+
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ ok: true, paid: true }));
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.listen(0, '127.0.0.1', () => resolve());
+      server.on('error', reject);
+    });
+    const addr = server.address();
+    if (!addr || typeof addr === 'string') throw new Error('failed to bind');
+    return {
+      baseUrl: `http://127.0.0.1:${addr.port}`,
+      close: () => new Promise<void>((resolve, reject) => server.close((err?: any) => (err ? reject(err) : resolve())))
+    };
+  })();
+
+  try {
+    const res = await fetchWithL402(`${baseUrl}/paid`, undefined, {
+      pay: async (challenge) => {
+        assert.equal(challenge.scheme, 'LSAT');
+        return { preimage: 'cafe', macaroon: 'othermacaroon' };
+      }
+    });
+    assert.equal(res.status, 200);
+  } finally {
+    await close();
+  }
+});
+
+test('resolveProof: raw proof passes through; preimage without macaroon is sent bare', () => {
+  const challenge = { invoice: 'lnbc1mockinvoice' };
+  assert.equal(resolveProof(challenge, { proof: 'paid' }), 'paid');
+  assert.equal(resolveProof(challenge, { preimage: 'deadbeef' }), 'deadbeef');
+  assert.equal(
+    resolveProof({ ...challenge, meta: { macaroon: 'm' } }, { preimage: 'deadbeef' }),
+    'L402 m:deadbeef'
+  );
+  assert.equal(formatL402Credential({ macaroon: 'm', preimage: 'p', scheme: 'LSAT' }), 'LSAT m:p');
+});
+
+test('fetchWithL402: keeps the credential on same-origin redirects and resends the body on 307', async () => {
+  const { baseUrl, close } = await (async () => {
+    const http = await import('node:http');
+    const server = http.createServer(async (req: any, res: any) => {
+      let body = '';
+      for await (const chunk of req) body += chunk;
+      if (req.headers['x-l402-proof'] !== 'paid') {
+        res.writeHead(402, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ invoice: 'lnbc1mockinvoice' }));
+        return;
+      }
+      if (req.url === '/paid') {
+        res.writeHead(307, { location: '/moved' });
+        res.end();
+        return;
+      }
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ url: req.url, method: req.method, body }));
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.listen(0, '127.0.0.1', () => resolve());
+      server.on('error', reject);
+    });
+    const addr = server.address();
+    if (!addr || typeof addr === 'string') throw new Error('failed to bind');
+    return {
+      baseUrl: `http://127.0.0.1:${addr.port}`,
+      close: () => new Promise<void>((resolve, reject) => server.close((err?: any) => (err ? reject(err) : resolve())))
+    };
+  })();
+
+  try {
+    const res = await fetchWithL402(`${baseUrl}/paid`, { method: 'POST', body: 'q=1' }, { pay: async () => ({ proof: 'paid' }) });
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), { url: '/moved', method: 'POST', body: 'q=1' });
+  } finally {
+    await close();
+  }
+});
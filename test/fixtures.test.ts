@@ -0,0 +1,93 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+
+import { fetchWithL402, parseL402Challenge } from '../src/index.js';
+import {
+  checkChallengeFixture,
+  createFixtureRecorder,
+  diffSubset,
+  loadChallengeFixtures,
+  saveChallengeFixture,
+  startFixtureReplayServer
+} from '../src/fixtures.js';
+import { startMockL402Server } from '../src/mock_server.js';
+
+// Compiled to dist/test, so the JSON files are two levels up from here.
+const FIXTURE_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../test/fixtures/challenges');
+
+const fixtures = await loadChallengeFixtures(FIXTURE_DIR);
+
+test('challenge fixtures: corpus is not empty', () => {
+  assert.ok(fixtures.length >= 5);
+});
+
+for (const fixture of fixtures) {
+  test(`challenge fixture ${fixture.name}`, async () => {
+    assert.deepEqual(await checkChallengeFixture(fixture), []);
+  });
+}
+
+test('diffSubset: reports paths of mismatching fields only', () => {
+  const actual = { invoice: 'a', meta: { macaroon: 'm', extra: 1 }, list: [1, 2] };
+  assert.deepEqual(diffSubset({ invoice: 'a', meta: { macaroon: 'm' } }, actual), []);
+  assert.deepEqual(diffSubset({ meta: { macaroon: 'x' }, list: [1] }, actual), [
+    'meta.macaroon: expected "x", got "m"',
+    'list: expected 1 items, got 2'
+  ]);
+});
+
+test('startFixtureReplayServer: serves fixtures over HTTP as recorded', async () => {
+  const srv = await startFixtureReplayServer(fixtures);
+  try {
+    for (const fixture of fixtures) {
+      const res = await fetch(srv.urlFor(fixture.name));
+      assert.equal(res.status, fixture.response.status);
+      const challenge = await parseL402Challenge(res);
+      assert.equal(challenge?.invoice ?? null, (fixture.expected?.invoice as string | undefined) ?? null, fixture.name);
+    }
+    assert.equal((await fetch(`${srv.baseUrl}/nope`)).status, 404);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('createFixtureRecorder: captures 402s through an injected fetch and they replay identically', async () => {
+  const srv = await startMockL402Server({ challengeInHeader: true, includeProofHeaderHint: true });
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'l402-fixtures-'));
+  try {
+    const recorder = createFixtureRecorder({ now: () => Date.UTC(2024, 0, 1) });
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, { fetch: recorder.fetch, pay: srv.pay });
+    assert.equal(res.status, 200);
+
+    const [fixture, ...rest] = recorder.fixtures();
+    assert.equal(rest.length, 0);
+    assert.equal(fixture.request?.url, `${srv.baseUrl}/paid`);
+    assert.equal(fixture.recordedAt, '2024-01-01T00:00:00.000Z');
+    assert.match(fixture.response.headers['www-authenticate'], /^L402,? macaroon="mockmacaroon"/);
+    assert.equal(fixture.response.headers['content-length'], undefined);
+    assert.deepEqual(fixture.expected, {
+      invoice: 'lnbc1mockinvoice',
+      proofHeader: 'x-l402-proof',
+      scheme: 'L402',
+      source: 'www-authenticate',
+      meta: { macaroon: 'mockmacaroon' },
+      decodeError: { code: 'invalid_bech32' }
+    });
+
+    await saveChallengeFixture(dir, fixture);
+    const [loaded] = await loadChallengeFixtures(dir);
+    assert.deepEqual(await checkChallengeFixture(loaded), []);
+
+    for (const name of ['../../x', 'a/b', 'a\\b', '..', '']) {
+      await assert.rejects(async () => saveChallengeFixture(dir, { ...fixture, name }), /invalid fixture name/);
+    }
+    assert.deepEqual(await fs.readdir(dir), [`${fixture.name}.json`]);
+  } finally {
+    await srv.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
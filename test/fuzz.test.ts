@@ -0,0 +1,218 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { formatAuthChallenge, parseAllChallenges, parseAuthenticateHeader, type AuthChallenge } from '../src/index.js';
+
+// Seeded, so failures reproduce: L402_FUZZ_SEED=<seed> L402_FUZZ_RUNS=<n> npm test
+const SEED = Number(process.env.L402_FUZZ_SEED ?? 0x1402);
+const RUNS = Number(process.env.L402_FUZZ_RUNS ?? 300);
+
+type Rng = {
+  int(max: number): number;
+  chance(p: number): boolean;
+  pick<T>(items: readonly T[]): T;
+};
+
+// mulberry32
+function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    int: (max) => Math.floor(next() * max),
+    chance: (p) => next() < p,
+    pick: (items) => items[Math.floor(next() * items.length)]
+  };
+}
+
+/** Runs `check` RUNS times with a fresh generator per run, naming the seed and run on failure. */
+function forAll(check: (rng: Rng, run: number) => void | Promise<void>) {
+  return async () => {
+    for (let run = 0; run < RUNS; run++) {
+      try {
+        await check(createRng(SEED + run), run);
+      } catch (err) {
+        (err as Error).message = `[seed ${SEED}, run ${run}] ${(err as Error).message}`;
+        throw err;
+      }
+    }
+  };
+}
+
+const TCHARS = "!#$%&'*+-.^_`|~0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const TOKEN68_CHARS = '-._~+/0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
+// Everything a quoted-string may carry in a header: HTAB and visible ASCII, including `"` and `\`.
+const QDTEXT = `\t ${Array.from({ length: 0x7e - 0x20 }, (_, i) => String.fromCharCode(0x21 + i)).join('')}`;
+
+const text = (rng: Rng, chars: string, min: number, max: number) =>
+  Array.from({ length: min + rng.int(max - min + 1) }, () => chars[rng.int(chars.length)]).join('');
+
+const spaces = (rng: Rng) => rng.pick(['', ' ', '  ', '\t', ' \t']);
+
+function genChallenge(rng: Rng, schemes = TCHARS): AuthChallenge {
+  const scheme = text(rng, schemes, 1, 10);
+  if (rng.chance(0.2)) return { scheme, token68: `${text(rng, TOKEN68_CHARS, 1, 30)}${'='.repeat(rng.int(3))}`, params: {} };
+  const params: Record<string, string> = {};
+  for (let n = rng.int(5); n > 0; n--) {
+    const name = text(rng, TCHARS, 1, 12).toLowerCase();
+    if (name !== '__proto__') params[name] = text(rng, QDTEXT, 0, 40);
+  }
+  return { scheme, params };
+}
+
+// Like formatAuthChallenge, but with the freedom RFC 9110 allows: BWS around `=`, tokens left unquoted,
+// optional whitespace around the list commas.
+function formatLoosely(rng: Rng, c: AuthChallenge): string {
+  if (c.token68 !== undefined) return `${c.scheme} ${c.token68}`;
+  const params = Object.entries(c.params).map(([k, v]) => {
+    const isToken = v.length > 0 && [...v].every((ch) => TCHARS.includes(ch));
+    const value = isToken && rng.chance(0.5) ? v : `"${v.replace(/["\\]/g, '\\$&')}"`;
+    return `${k}${spaces(rng)}=${spaces(rng)}${value}`;
+  });
+  return params.length ? `${c.scheme} ${params.join(`${spaces(rng)},${spaces(rng)}`)}` : c.scheme;
+}
+
+test(
+  'fuzz: generated challenge lists round-trip through the tokenizer',
+  forAll((rng) => {
+    const challenges = Array.from({ length: 1 + rng.int(4) }, () => genChallenge(rng));
+    const loose = challenges.map((c) => formatLoosely(rng, c)).join(`${spaces(rng)},${spaces(rng)}`);
+    assert.deepEqual(parseAuthenticateHeader(loose), challenges, loose);
+
+    const canonical = challenges.map((c) => formatAuthChallenge(c)).join(', ');
+    assert.deepEqual(parseAuthenticateHeader(canonical), challenges, canonical);
+  })
+);
+
+test(
+  'fuzz: the L402 challenge is found among unrelated ones, whatever its values contain',
+  forAll(async (rng) => {
+    const noise = () => genChallenge(rng, 'abcdefghijkmnopqrsuvwxyz-');
+    const invoice = `lnbc${text(rng, QDTEXT, 1, 60)}`;
+    const macaroon = text(rng, QDTEXT, 0, 60);
+    const l402: AuthChallenge = { scheme: rng.pick(['L402', 'LSAT', 'l402']), params: { macaroon, invoice } };
+    const list = [...Array.from({ length: rng.int(3) }, noise), l402, ...Array.from({ length: rng.int(3) }, noise)];
+
+    const res = new Response(null, {
+      status: 402,
+      headers: { 'www-authenticate': list.map((c) => formatLoosely(rng, c)).join(', ') }
+    });
+    const [challenge, ...rest] = await parseAllChallenges(res);
+    assert.equal(rest.length, 0);
+    assert.equal(challenge.invoice, invoice);
+    assert.equal(challenge.meta?.macaroon, macaroon || undefined);
+    assert.equal(challenge.scheme, l402.scheme.toUpperCase());
+  })
+);
+
+const HOSTILE_PIECES = ['L402', 'LSAT', 'Basic', ' ', '\t', ',', ';', '=', '==', '"', '\\', '\\"', 'invoice', 'macaroon', 'lnbc1', 'x', '(', 'é'];
+
+test(
+  'fuzz: hostile headers never throw',
+  forAll(async (rng) => {
+    const header = Array.from({ length: rng.int(80) }, () => rng.pick(HOSTILE_PIECES)).join('');
+    for (const c of parseAuthenticateHeader(header)) {
+      assert.ok(c.scheme.length > 0);
+      for (const v of Object.values(c.params)) assert.equal(typeof v, 'string');
+    }
+    const challenges = await parseAllChallenges(new Response(null, { status: 402, headers: { 'www-authenticate': header.trim() } }));
+    for (const c of challenges) assert.ok(c.invoice.trim());
+  })
+);
+
+// Headers that once parsed wrong, kept so they stay fixed whatever the generators produce.
+const SEED_CORPUS: Array<[string, AuthChallenge[]]> = [
+  ['L402 macaroon=, invoice=lnbc1x', [{ scheme: 'L402', params: { macaroon: '', invoice: 'lnbc1x' } }]],
+  ['L402 macaroon== ,invoice=lnbc1x', [{ scheme: 'L402', params: { macaroon: '=', invoice: 'lnbc1x' } }]],
+  [
+    'Basic abc==, L402 invoice=lnbc1x',
+    [
+      { scheme: 'Basic', token68: 'abc==', params: {} },
+      { scheme: 'L402', params: { invoice: 'lnbc1x' } }
+    ]
+  ],
+  ['Basic abc=', [{ scheme: 'Basic', token68: 'abc=', params: {} }]]
+];
+
+test('fuzz: seed corpus', async () => {
+  for (const [header, expected] of SEED_CORPUS) assert.deepEqual(parseAuthenticateHeader(header), expected, header);
+  const [challenge] = await parseAllChallenges(
+    new Response(null, { status: 402, headers: { 'www-authenticate': SEED_CORPUS[0][0] } })
+  );
+  assert.equal(challenge.invoice, 'lnbc1x');
+});
+
+test('fuzz: huge and unbalanced headers parse in linear time', { timeout: 20_000 }, async () => {
+  const big = 1_000_000;
+  assert.deepEqual(parseAuthenticateHeader('"'.repeat(big)), []);
+  // The last two merge: `L402 L402` is a scheme with a token68.
+  assert.equal(parseAuthenticateHeader('L402 '.repeat(big / 5)).length, big / 5 - 1);
+  assert.equal(parseAuthenticateHeader(`L402 invoice="${'\\'.repeat(big)}`)[0].params.invoice.length, big / 2);
+  assert.equal(Object.keys(parseAuthenticateHeader(`L402 ${'a='.repeat(big / 2)}`)[0].params).length, 1);
+  assert.equal(parseAuthenticateHeader(`L402 macaroon=${'A'.repeat(big)}, invoice=x`)[0].params.invoice, 'x');
+
+  const res = new Response(null, { status: 402, headers: { 'www-authenticate': `L402 invoice="lnbc1${'q'.repeat(big)}"` } });
+  const [challenge] = await parseAllChallenges(res);
+  assert.equal(challenge.invoice.length, big + 5);
+  assert.equal(challenge.decodeError?.code, 'invalid_checksum');
+});
+
+const INVOICE_KEYS = ['invoice', 'payment_request', 'paymentRequest', 'pr', 'bolt11', 'payreq'] as const;
+const WRAPPERS = [[], ['l402'], ['challenge'], ['data'], ['details'], ['error'], ['error', 'l402'], ['data', 'l402'], ['data', 'challenge']];
+
+function genJson(rng: Rng, depth: number): unknown {
+  switch (depth > 3 ? rng.int(4) : rng.int(6)) {
+    case 0:
+      return text(rng, QDTEXT, 0, 20);
+    case 1:
+      return rng.pick([0, -1, 1e308, true, false, null]);
+    case 2:
+      return rng.pick(['lnbc1', '', ' ', 'invoice']);
+    case 3:
+      return [];
+    case 4:
+      return Array.from({ length: rng.int(4) }, () => genJson(rng, depth + 1));
+    default: {
+      const keys = [...INVOICE_KEYS, 'l402', 'data', 'error', 'challenges', 'offers', 'meta', 'proofHeader', 'x'];
+      return Object.fromEntries(Array.from({ length: rng.int(5) }, () => [rng.pick(keys), genJson(rng, depth + 1)]));
+    }
+  }
+}
+
+test(
+  'fuzz: JSON bodies never throw, and a planted invoice is always found',
+  forAll(async (rng) => {
+    const noise = genJson(rng, 0);
+    const noisy = await parseAllChallenges(new Response(JSON.stringify(noise), { status: 402 }));
+    for (const c of noisy) {
+      assert.equal(typeof c.invoice, 'string');
+      assert.ok(c.invoice.trim());
+      assert.equal(c.source, 'body');
+    }
+
+    // Truncated JSON is just not a challenge.
+    const truncated = JSON.stringify({ invoice: 'lnbc1x', noise }).slice(0, rng.int(30));
+    assert.deepEqual(await parseAllChallenges(new Response(truncated, { status: 402 })), []);
+
+    // An invoice under a supported key and wrapper, with unrelated siblings.
+    const invoice = `lnbc${text(rng, QDTEXT, 1, 40)}`;
+    let body: Record<string, unknown> = { [rng.pick(INVOICE_KEYS)]: invoice, x_noise: noise };
+    for (const key of [...rng.pick(WRAPPERS)].reverse()) body = { [key]: body, [`x_${key}`]: genJson(rng, 2) };
+    const found = await parseAllChallenges(new Response(JSON.stringify(body), { status: 402 }));
+    assert.ok(
+      found.some((c) => c.invoice === invoice),
+      JSON.stringify(body)
+    );
+  })
+);
+
+test('fuzz: deeply nested JSON bodies never throw', async () => {
+  for (const body of ['['.repeat(100_000), '{"data":'.repeat(100_000), `${'['.repeat(5_000)}${']'.repeat(5_000)}`]) {
+    assert.deepEqual(await parseAllChallenges(new Response(body, { status: 402 })), []);
+  }
+});
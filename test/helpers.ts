@@ -0,0 +1,8 @@
+import { bech32Decode, bech32Encode } from '../src/bolt11.js';
+
+/** Re-stamps an invoice as created at `at` (default now), so it is not refused as expired. Signatures are not checked. */
+export function restamp(invoice: string, at = Math.floor(Date.now() / 1000)): string {
+  const { hrp, words } = bech32Decode(invoice);
+  const timestamp = Array.from({ length: 7 }, (_, i) => Math.floor(at / 32 ** (6 - i)) % 32);
+  return bech32Encode(hrp, [...timestamp, ...words.slice(7)]);
+}
@@ -0,0 +1,152 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { runCli } from '../src/cli.js';
+import {
+  formatInteropJunit,
+  formatInteropTable,
+  interopMatrix,
+  loadPayerModule,
+  runInteropHarness,
+  type InteropCaseResult,
+  type InteropReport
+} from '../src/interop.js';
+import { createMockPayer } from '../src/mock_lightning.js';
+import { startMockL402Server } from '../src/mock_server.js';
+
+function capture() {
+  const out = { stdout: '', stderr: '' };
+  return {
+    out,
+    io: {
+      stdout: (s: string) => void (out.stdout += s),
+      stderr: (s: string) => void (out.stderr += s),
+      env: {}
+    }
+  };
+}
+
+test('interopMatrix: every JSON variant and the header, x invoice keys, x proof-header hint', () => {
+  const cases = interopMatrix();
+  assert.equal(cases.length, (9 + 1) * 8 * 2);
+  assert.equal(new Set(cases.map((c) => c.name)).size, cases.length);
+  assert.ok(cases.some((c) => c.dimensions.challenge === 'www-authenticate' && c.dimensions.invoiceKey === 'bolt_11'));
+});
+
+test('runInteropHarness: the client passes the whole mock matrix and every scenario', async () => {
+  const report = await runInteropHarness();
+  assert.equal(report.target, 'mock');
+  assert.deepEqual(
+    report.results.filter((r) => !r.ok).map((r) => `${r.name}: ${r.detail}`),
+    []
+  );
+  assert.equal(report.ok, true);
+  assert.equal(report.passed, 170);
+});
+
+test('runInteropHarness: a client that leaks the credential across a redirect fails that scenario', async () => {
+  // Hands redirects back to fetch, which keeps `x-l402-proof` on the hop to the second origin.
+  const leaky: typeof fetch = (input, init) => fetch(input, { ...init, redirect: 'follow' });
+  const results: InteropCaseResult[] = [];
+  await runInteropHarness({
+    fetchOptions: { fetch: leaky },
+    onResult: (r) => {
+      if (r.dimensions.scenario) results.push(r);
+    }
+  });
+
+  const redirect = results.find((r) => r.dimensions.scenario === 'redirect-after-payment')!;
+  assert.equal(redirect.status, 200);
+  assert.equal(redirect.ok, false);
+  assert.equal(redirect.detail, 'paid credential was sent to the redirect origin');
+  assert.deepEqual(
+    results.filter((r) => !r.ok).map((r) => r.dimensions.scenario),
+    ['redirect-after-payment']
+  );
+});
+
+test('runInteropHarness: external target gets challenge, paid and reuse checks', async () => {
+  const srv = await startMockL402Server({ lightning: { priceSats: 5 } });
+  try {
+    const report = await runInteropHarness({ baseUrl: srv.baseUrl, paths: ['/paid', '/healthz'], pay: createMockPayer(srv.node) });
+    const byName = Object.fromEntries(report.results.map((r) => [r.name, r]));
+
+    assert.equal(byName[`${srv.baseUrl}/paid challenge`].ok, true);
+    assert.match(byName[`${srv.baseUrl}/paid challenge`].detail!, /^L402 5 sats, proof on authorization$/);
+    assert.equal(byName[`${srv.baseUrl}/paid paid`].ok, true);
+    assert.equal(byName[`${srv.baseUrl}/paid reuse`].ok, true);
+    assert.equal(srv.node.invoices().filter((i) => i.settled).length, 1);
+
+    assert.equal(byName[`${srv.baseUrl}/healthz challenge`].detail, 'expected 402, got 200');
+    assert.equal(byName[`${srv.baseUrl}/healthz paid`].skipped, true);
+    assert.deepEqual([report.ok, report.passed, report.failed, report.skipped], [false, 3, 1, 2]);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('formatInteropTable / formatInteropJunit: failures, skips and escaping', () => {
+  const report: InteropReport = {
+    target: 'https://api.example.com/?a=1&b=2',
+    ok: false,
+    passed: 1,
+    failed: 1,
+    skipped: 1,
+    results: [
+      { name: 'json:flat pr', dimensions: { challenge: 'json:flat', invoiceKey: 'pr', hint: 'no' }, ok: true, status: 200, durationMs: 5 },
+      {
+        name: 'json:flat pr +hint',
+        dimensions: { challenge: 'json:flat', invoiceKey: 'pr', hint: 'yes' },
+        ok: false,
+        detail: 'parsed invoice "<none>"',
+        durationMs: 7
+      },
+      { name: 'x reuse', dimensions: { url: 'x', check: 'reuse' }, ok: false, skipped: true, detail: 'no usable challenge', durationMs: 0 }
+    ]
+  };
+
+  const table = formatInteropTable(report);
+  assert.match(table, /json:flat +ok\/FAIL/);
+  assert.match(table, /skip +x reuse +no usable challenge/);
+  assert.match(table, /json:flat pr \+hint: parsed invoice "<none>"/);
+  assert.match(table, /1 passed, 1 failed, 1 skipped\n$/);
+
+  const junit = formatInteropJunit(report);
+  assert.match(junit, /<testsuites name="l402-interop" tests="3" failures="1" skipped="1" time="0.012">/);
+  assert.match(junit, /<testsuite name="https:\/\/api.example.com\/\?a=1&amp;b=2"/);
+  assert.match(junit, /<failure message="parsed invoice &quot;&lt;none&gt;&quot;">/);
+  assert.match(junit, /<testcase classname="l402.interop.url" name="x reuse" time="0.000">\n {6}<skipped/);
+});
+
+test('l402 interop: --base-url with a --payer module, JUnit output and exit code', async () => {
+  const srv = await startMockL402Server({ challengeInHeader: true, proofHeader: 'authorization', requiredProof: 'secret' });
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'l402-interop-'));
+  try {
+    const payer = path.join(dir, 'payer.mjs');
+    await fs.writeFile(payer, "export function createPayer() { return async () => ({ proof: 'secret' }); }\n");
+    assert.equal(typeof (await loadPayerModule(payer)), 'function');
+
+    // The mock's placeholder invoice doesn't decode: paying works, but the challenge check fails.
+    const { io, out } = capture();
+    const code = await runCli(['interop', '--base-url', srv.baseUrl, '--path', '/paid', '--payer', payer, '--format', 'junit'], io);
+    assert.equal(code, 1);
+    assert.equal((out.stdout.match(/<testcase /g) || []).length, 3);
+    assert.deepEqual(out.stdout.match(/<failure message="[^"]*"/g), ['<failure message="invoice does not decode (invalid_bech32)"']);
+    assert.match(out.stderr, /^FAIL .*\/paid challenge\nok .*\/paid paid\nok .*\/paid reuse\n$/);
+
+    const bad = capture();
+    await fs.writeFile(path.join(dir, 'empty.mjs'), 'export const nothing = 1;\n');
+    assert.equal(await runCli(['interop', '--base-url', srv.baseUrl, '--payer', path.join(dir, 'empty.mjs')], bad.io), 1);
+    assert.match(bad.out.stderr, /createPayer\(\) factory/);
+
+    const usage = capture();
+    assert.equal(await runCli(['interop', '--base-url', srv.baseUrl], usage.io), 2);
+    assert.match(usage.out.stderr, /interop --base-url needs a payer/);
+  } finally {
+    await srv.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,132 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+
+import { bech32Decode, bech32Encode } from '../src/bolt11.js';
+import {
+  advertisedPrice,
+  checkL402Invoice,
+  decodeBolt11,
+  fetchWithL402,
+  L402AmountMismatchError,
+  L402InvoiceExpiredError,
+  L402InvoiceRejectedError,
+  L402WrongNetworkError,
+  type L402Challenge
+} from '../src/index.js';
+
+// BOLT11 spec vector (amountless, 1h expiry); re-encoded below with other HRPs and timestamps.
+const DONATION =
+  'lnbc1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpl2pkx2ctnv5sxxmmwwd5kgetjypeh2ursdae8g6twvus8g6rfwvs8qun0dfjkxaq8rkx3yf5tcsyz3d73gafnh3cax9rn449d9p5uxz9ezhhypd0elx87sjle52x86fux2ypatgddc6k63n7erqz25le42c4u4ecky03ylcqca784w';
+
+/** `hrp` invoice created at `at` (unix seconds); signatures are not checked. */
+function invoice(hrp: string, at: number): string {
+  const timestamp = Array.from({ length: 7 }, (_, i) => Math.floor(at / 32 ** (6 - i)) % 32);
+  return bech32Encode(hrp, [...timestamp, ...bech32Decode(DONATION).words.slice(7)]);
+}
+
+const NOW = 1_700_000_000;
+const url = new URL('https://api.example.com/paid');
+const challenge = (inv: string, meta?: Record<string, unknown>): L402Challenge => ({
+  invoice: inv,
+  decoded: decodeBolt11(inv),
+  meta
+});
+const check = (c: L402Challenge, opts: Parameters<typeof checkL402Invoice>[2] = {}) =>
+  checkL402Invoice(url, c, { now: () => NOW * 1000, ...opts });
+
+test('checkL402Invoice: network', () => {
+  const testnet = challenge(invoice('lntb10n', NOW));
+  assert.doesNotThrow(() => check(testnet));
+  assert.doesNotThrow(() => check(testnet, { network: 'testnet' }));
+  assert.throws(
+    () => check(testnet, { network: 'mainnet' }),
+    (err: unknown) =>
+      err instanceof L402WrongNetworkError &&
+      err instanceof L402InvoiceRejectedError &&
+      err.reason === 'wrong_network' &&
+      err.expected === 'mainnet' &&
+      err.actual === 'testnet'
+  );
+  // Can't tell the network of an invoice that doesn't decode.
+  assert.throws(
+    () => check({ invoice: 'lnbc1mockinvoice' }, { network: 'mainnet' }),
+    (err: unknown) => err instanceof L402WrongNetworkError && err.actual === undefined
+  );
+  assert.doesNotThrow(() => check({ invoice: 'lnbc1mockinvoice' }));
+});
+
+test('checkL402Invoice: expiry with clock skew tolerance', () => {
+  // Expires at NOW + 3600.
+  const c = challenge(invoice('lnbc10n', NOW));
+  const at = (seconds: number, clockSkewMs?: number) => () =>
+    checkL402Invoice(url, c, { now: () => (NOW + seconds) * 1000, clockSkewMs });
+
+  assert.doesNotThrow(at(3600));
+  assert.doesNotThrow(at(3659));
+  assert.throws(at(3661), (err: unknown) => err instanceof L402InvoiceExpiredError && err.expiresAt === (NOW + 3600) * 1000);
+  assert.throws(at(3601, 0), L402InvoiceExpiredError);
+  assert.doesNotThrow(at(10 * 365 * 86400, Infinity));
+});
+
+test('checkL402Invoice: amount versus the price in meta', () => {
+  const tenSats = invoice('lnbc100n', NOW);
+  assert.doesNotThrow(() => check(challenge(tenSats, { amountSats: 10 })));
+  assert.doesNotThrow(() => check(challenge(tenSats, { price: '10' })));
+  assert.doesNotThrow(() => check(challenge(tenSats, { amount_msat: 10_000 })));
+  assert.doesNotThrow(() => check(challenge(tenSats, { kind: 'mock', price: 'ten' })));
+  assert.throws(
+    () => check(challenge(tenSats, { amountSats: 1 })),
+    (err: unknown) => err instanceof L402AmountMismatchError && err.invoiceMsat === 10_000 && err.advertisedMsat === 1000
+  );
+  // Any-amount invoices have nothing to compare.
+  assert.doesNotThrow(() => check(challenge(invoice('lnbc', NOW), { amountSats: 1 })));
+
+  assert.deepEqual(advertisedPrice({ priceMsat: '1500', amount: 2 }), { msat: 1500, unit: 'msat' });
+  assert.equal(advertisedPrice({ amount: -1 }), undefined);
+});
+
+test('fetchWithL402: refuses bad invoices before pay runs', async () => {
+  const now = Math.floor(Date.now() / 1000);
+  const bodies: Record<string, unknown> = {
+    '/expired': { invoice: invoice('lnbc10n', now - 7200) },
+    '/testnet': { invoice: invoice('lntb10n', now) },
+    '/mismatch': { invoice: invoice('lnbc10n', now), meta: { amountSats: 0 } },
+    '/ok': { invoice: invoice('lnbc10n', now), meta: { amountSats: 1 } }
+  };
+  const server = http.createServer((req, res) => {
+    if (req.headers['x-l402-proof'] === 'paid') {
+      res.end('ok');
+      return;
+    }
+    res.writeHead(402, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(bodies[req.url || '']));
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.listen(0, '127.0.0.1', () => resolve());
+    server.on('error', reject);
+  });
+  const addr = server.address();
+  if (!addr || typeof addr === 'string') throw new Error('failed to bind');
+  const baseUrl = `http://127.0.0.1:${addr.port}`;
+
+  try {
+    let payCalls = 0;
+    const opts = {
+      network: 'mainnet' as const,
+      pay: async () => {
+        payCalls += 1;
+        return { proof: 'paid' };
+      }
+    };
+    await assert.rejects(fetchWithL402(`${baseUrl}/expired`, undefined, opts), L402InvoiceExpiredError);
+    await assert.rejects(fetchWithL402(`${baseUrl}/testnet`, undefined, opts), L402WrongNetworkError);
+    await assert.rejects(fetchWithL402(`${baseUrl}/mismatch`, undefined, opts), L402AmountMismatchError);
+    assert.equal(payCalls, 0);
+
+    assert.equal((await fetchWithL402(`${baseUrl}/ok`, undefined, opts)).status, 200);
+    assert.equal(payCalls, 1);
+  } finally {
+    await new Promise<void>((resolve, reject) => server.close((err?: any) => (err ? reject(err) : resolve())));
+  }
+});
@@ -0,0 +1,183 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import {
+  buildSpendReport,
+  createJsonlReceiptLedger,
+  createMemoryReceiptLedger,
+  createMemoryTokenStore,
+  fetchWithL402,
+  spendReportToCsv,
+  type ReceiptLedgerEntry
+} from '../src/index.js';
+import { startMockL402Server } from '../src/mock_server.js';
+
+test('fetchWithL402: lifecycle hooks fire in order and the ledger gets a receipt without the preimage', async () => {
+  const srv = await startMockL402Server({
+    challengeInHeader: true,
+    proofHeader: 'authorization',
+    requiredProof: `L402 mockmacaroon:${'ab'.repeat(32)}`
+  });
+  try {
+    const events: string[] = [];
+    const ledger = createMemoryReceiptLedger();
+    let complete: any;
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+      pay: async () => ({ preimage: 'ab'.repeat(32) }),
+      ledger,
+      agent: 'crawler',
+      onChallenge: (e) => {
+        events.push(`challenge:${e.response.status}:${e.attempt}`);
+      },
+      onPayment: (e) => {
+        events.push(`payment:${e.attempt}`);
+      },
+      onRetry: (e) => {
+        events.push(`retry:${e.reason}:${e.header}:${e.attempt}`);
+      },
+      onComplete: (e) => {
+        events.push('complete');
+        complete = e;
+      }
+    });
+    assert.equal(res.status, 200);
+    assert.deepEqual(events, ['challenge:402:0', 'payment:0', 'retry:paid:authorization:1', 'complete']);
+
+    assert.equal(complete.status, 200);
+    assert.equal(complete.attempts, 1);
+    assert.equal(complete.receipts.length, 1);
+    assert.equal(complete.receipts[0].preimage, 'ab'.repeat(32));
+
+    const [entry] = ledger.list();
+    assert.equal(entry.url, `${srv.baseUrl}/paid`);
+    assert.equal(entry.agent, 'crawler');
+    assert.equal(entry.preimageHash, crypto.createHash('sha256').update(Buffer.from('ab'.repeat(32), 'hex')).digest('hex'));
+    assert.equal('preimage' in entry, false);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('fetchWithL402: onComplete reports failures and hook errors do not break the request', async () => {
+  const srv = await startMockL402Server();
+  try {
+    let complete: any;
+    await assert.rejects(
+      fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+        pay: async () => {
+          throw new Error('wallet offline');
+        },
+        onChallenge: () => {
+          throw new Error('hook bug');
+        },
+        onComplete: (e) => {
+          complete = e;
+        }
+      }),
+      /wallet offline/
+    );
+    assert.equal(complete.error.message, 'wallet offline');
+    assert.equal(complete.status, undefined);
+    assert.equal(complete.receipts.length, 0);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('createJsonlReceiptLedger: appends one line per receipt and skips torn lines', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'l402-ledger-'));
+  try {
+    const file = path.join(dir, 'nested', 'receipts.jsonl');
+    const ledger = createJsonlReceiptLedger(file);
+    assert.deepEqual(await ledger.list(), []);
+
+    await Promise.all(
+      [1, 2, 3].map((i) => ledger.record({ url: `https://a.example/${i}`, invoice: `lnbc${i}`, amountSats: i, paidAt: i }))
+    );
+    await fs.appendFile(file, '{"url":"https://a.exa');
+
+    const entries = await ledger.list();
+    assert.deepEqual(
+      entries.map((e) => e.invoice).sort(),
+      ['lnbc1', 'lnbc2', 'lnbc3']
+    );
+    assert.equal((await fs.readFile(file, 'utf8')).split('\n').length, 4);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('fetchWithL402: a failing ledger write keeps the paid credential and still retries', async () => {
+  const srv = await startMockL402Server();
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'l402-ledger-'));
+  try {
+    const tokenStore = createMemoryTokenStore();
+    let payment: any;
+    // The ledger file is a directory: every append fails with EISDIR.
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+      pay: srv.pay,
+      tokenStore,
+      ledger: createJsonlReceiptLedger(dir),
+      onPayment: (e) => {
+        payment = e;
+      }
+    });
+    assert.equal(res.status, 200);
+    assert.equal(payment.ledgerError.code, 'EISDIR');
+    assert.equal(tokenStore.size(), 1);
+  } finally {
+    await srv.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('createJsonlReceiptLedger: a directory that cannot be created fails the first record', async () => {
+  const ledger = createJsonlReceiptLedger('/dev/null/l402/receipts.jsonl');
+  // Nothing is created before the first write, so no rejection goes unhandled in between.
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  await assert.rejects(async () => ledger.record({ url: 'https://a.example/', invoice: 'lnbc1', paidAt: 1 }), { code: 'ENOTDIR' });
+});
+
+test('buildSpendReport: totals per agent and host, within a time window, exportable as CSV', () => {
+  const entries: ReceiptLedgerEntry[] = [
+    { url: 'https://a.example/x', invoice: 'i1', amountSats: 10, paidAt: 1000, agent: 'crawler' },
+    { url: 'https://a.example/y', invoice: 'i2', amountSats: 5, paidAt: 2000, agent: 'crawler' },
+    { url: 'https://b.example/z', invoice: 'i3', paidAt: 3000, agent: 'summarizer, v2' },
+    { url: 'https://b.example/z', invoice: 'i4', amountSats: 7, paidAt: 4000 },
+    { url: 'https://b.example/z', invoice: 'i5', amountSats: 100, paidAt: 9000 }
+  ];
+
+  const report = buildSpendReport(entries, { since: 1000, until: 9000 });
+  assert.equal(report.payments, 4);
+  assert.equal(report.sats, 22);
+  assert.equal(report.unknownAmount, 1);
+  assert.equal(report.from, 1000);
+  assert.equal(report.to, 4000);
+  assert.deepEqual(report.byAgent.crawler, { payments: 2, sats: 15, unknownAmount: 0 });
+  assert.deepEqual(report.byAgent.unassigned, { payments: 1, sats: 7, unknownAmount: 0 });
+  assert.deepEqual(report.byHost['b.example'], { payments: 2, sats: 7, unknownAmount: 1 });
+
+  assert.equal(
+    spendReportToCsv(report),
+    'agent,payments,sats,unknown_amount\ncrawler,2,15,0\n"summarizer, v2",1,0,1\nunassigned,1,7,0\n'
+  );
+});
+
+test('buildSpendReport: hostile agent names stay plain keys and plain CSV text', () => {
+  const report = buildSpendReport([
+    { url: 'https://a.example/x', invoice: 'i1', amountSats: 1, paidAt: 1, agent: '__proto__' },
+    { url: 'https://a.example/x', invoice: 'i2', amountSats: 2, paidAt: 2, agent: '=HYPERLINK("http://evil")' },
+    { url: 'https://a.example/x', invoice: 'i3', amountSats: 3, paidAt: 3, agent: '@SUM(A1)' }
+  ]);
+  assert.deepEqual({ ...report.byAgent.__proto__ }, { payments: 1, sats: 1, unknownAmount: 0 });
+  assert.equal(({} as any).payments, undefined);
+
+  assert.equal(
+    spendReportToCsv(report),
+    'agent,payments,sats,unknown_amount\n"\'=HYPERLINK(""http://evil"")",1,2,0\n\'@SUM(A1),1,3,0\n__proto__,1,1,0\n'
+  );
+});
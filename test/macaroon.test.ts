@@ -0,0 +1,132 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import http from 'node:http';
+
+import { createMemoryTokenStore, fetchWithL402, l402Middleware } from '../src/index.js';
+import {
+  addFirstPartyCaveat,
+  decodeMacaroonV1,
+  encodeL402Identifier,
+  encodeMacaroonV1,
+  inspectMacaroon,
+  macaroonFormat,
+  mintMacaroon,
+  parseCaveat,
+  parseMacaroon,
+  serializeMacaroon,
+  verifyMacaroonSignature
+} from '../src/macaroon.js';
+
+const ROOT_KEY = 'this is our super secret key; only we should know it';
+
+test('macaroon: libmacaroons reference signature and caveat chain', () => {
+  // Example from the libmacaroons README.
+  let m = mintMacaroon({ rootKey: ROOT_KEY, identifier: 'we used our secret key', location: 'http://mybank/' });
+  assert.equal(m.signature.toString('hex'), 'e3d9e02908526c4c0039ae15114115d97fdd68bf2ba379b342aaf0f617d0552f');
+
+  m = addFirstPartyCaveat(m, 'account = 3735928559');
+  assert.equal(m.signature.toString('hex'), '1efe4763f290dbce0c1d08477367e11f4eee456a64933cf662d79772dbb82128');
+  assert.equal(verifyMacaroonSignature(m, ROOT_KEY), true);
+  assert.equal(verifyMacaroonSignature(m, 'wrong key'), false);
+});
+
+test('macaroon: V1 and V2 round-trip and auto-detect', () => {
+  const m = mintMacaroon({
+    rootKey: ROOT_KEY,
+    identifier: 'we used our secret key',
+    location: 'http://mybank/',
+    caveats: ['account = 3735928559', 'expires=1700000000']
+  });
+
+  const v1 = serializeMacaroon(m, 'v1');
+  assert.equal(macaroonFormat(v1), 'v1');
+  assert.equal(v1, encodeMacaroonV1(m));
+  assert.ok(Buffer.from(v1, 'base64url').toString('latin1').startsWith('001clocation http://mybank/\n'));
+
+  const v2 = serializeMacaroon(m);
+  assert.equal(macaroonFormat(v2), 'v2');
+
+  for (const s of [v1, v2]) {
+    const back = parseMacaroon(s);
+    assert.equal(back.location, 'http://mybank/');
+    assert.equal(back.identifier.toString('utf8'), 'we used our secret key');
+    assert.deepEqual(back.signature, m.signature);
+    assert.equal(verifyMacaroonSignature(back, ROOT_KEY), true);
+  }
+
+  assert.throws(() => decodeMacaroonV1(Buffer.from('zzzzlocation x\n')), /V1 packet header/);
+  assert.throws(() => parseMacaroon(''), /empty/);
+});
+
+test('inspectMacaroon: services, capabilities and expiry caveats', () => {
+  const paymentHash = crypto.createHash('sha256').update('p').digest('hex');
+  const m = mintMacaroon({
+    rootKey: ROOT_KEY,
+    identifier: encodeL402Identifier({ paymentHash, tokenId: '00'.repeat(32) }),
+    caveats: ['services=weather:0,news:1', 'weather_capabilities=read, forecast', 'weather_valid_until=1700000300', 'expires=1700000200']
+  });
+
+  const info = inspectMacaroon(serializeMacaroon(m, 'v1'));
+  assert.equal(info.format, 'v1');
+  assert.equal(info.l402?.paymentHash, paymentHash);
+  assert.deepEqual(info.services, [
+    { name: 'weather', tier: 0 },
+    { name: 'news', tier: 1 }
+  ]);
+  assert.deepEqual(info.capabilities, { weather: ['read', 'forecast'] });
+  assert.equal(info.expiresAt, 1_700_000_200_000);
+  assert.equal(info.thirdPartyCaveats, 0);
+
+  assert.deepEqual(parseCaveat('account = 3735928559'), { condition: 'account', value: '3735928559' });
+  assert.deepEqual(parseCaveat('time < 2030'), { condition: 'time', value: '< 2030' });
+  assert.deepEqual(parseCaveat('flag'), { condition: 'flag', value: '' });
+});
+
+test('fetchWithL402: stores the macaroon expiry with cached credentials; middleware accepts V1', async () => {
+  const preimages = new Map<string, string>();
+  const l402 = l402Middleware({
+    rootKey: ROOT_KEY,
+    price: 1,
+    ttlSeconds: 60,
+    issueInvoice: async () => {
+      const preimage = crypto.randomBytes(32).toString('hex');
+      const paymentHash = crypto.createHash('sha256').update(Buffer.from(preimage, 'hex')).digest('hex');
+      const invoice = `lnbcrt1mock${paymentHash.slice(0, 16)}`;
+      preimages.set(invoice, preimage);
+      return { invoice, paymentHash };
+    }
+  });
+  const server = http.createServer((req, res) => {
+    l402(req, res, () => {
+      res.writeHead(200, { 'content-type': 'text/plain' });
+      res.end('ok');
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+  const addr = server.address();
+  if (!addr || typeof addr === 'string') throw new Error('failed to bind');
+  const baseUrl = `http://127.0.0.1:${addr.port}`;
+
+  try {
+    const tokenStore = createMemoryTokenStore();
+    const before = Date.now();
+    const res = await fetchWithL402(`${baseUrl}/paid`, undefined, {
+      tokenStore,
+      pay: async (challenge) => ({ preimage: preimages.get(challenge.invoice)! })
+    });
+    assert.equal(res.status, 200);
+
+    const stored = tokenStore.get(`${baseUrl}/paid`)!;
+    assert.ok(stored.expiresAt! >= Math.floor(before / 1000) * 1000 + 60_000);
+    assert.ok(stored.expiresAt! <= Date.now() + 60_000);
+
+    // Re-encode the paid macaroon as V1: the server must still accept it.
+    const preimage = stored.value.split(':')[1];
+    const v1 = serializeMacaroon(parseMacaroon(stored.macaroon!), 'v1');
+    const again = await fetch(`${baseUrl}/paid`, { headers: { authorization: `L402 ${v1}:${preimage}` } });
+    assert.equal(again.status, 200);
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+});
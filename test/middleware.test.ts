@@ -0,0 +1,198 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import http from 'node:http';
+
+import { fetchWithL402, l402Middleware, verifyL402Authorization, type L402MiddlewareOptions } from '../src/index.js';
+import { encodeL402Identifier, mintMacaroon, serializeMacaroon } from '../src/macaroon.js';
+
+const ROOT_KEY = 'test-root-key';
+
+/** Fake invoice issuer: remembers the preimage behind each invoice so tests can "pay". */
+function fakeNode() {
+  const preimages = new Map<string, string>();
+  const issueInvoice: L402MiddlewareOptions['issueInvoice'] = async ({ amountSats }) => {
+    const preimage = crypto.randomBytes(32).toString('hex');
+    const paymentHash = crypto.createHash('sha256').update(Buffer.from(preimage, 'hex')).digest('hex');
+    const invoice = `lnbcrt${amountSats}mock${paymentHash.slice(0, 16)}`;
+    preimages.set(invoice, preimage);
+    return { invoice, paymentHash };
+  };
+  return { issueInvoice, preimages };
+}
+
+async function serve(opts: Omit<L402MiddlewareOptions, 'issueInvoice'>, node = fakeNode()) {
+  const l402 = l402Middleware({ ...opts, issueInvoice: node.issueInvoice });
+  const server = http.createServer((req, res) => {
+    l402(req, res, (err) => {
+      if (err) {
+        res.writeHead(503, { 'content-type': 'text/plain' });
+        res.end(String((err as Error).message));
+        return;
+      }
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ ok: true, l402: (req as any).l402 }));
+    });
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.listen(0, '127.0.0.1', () => resolve());
+    server.on('error', reject);
+  });
+  const addr = server.address();
+  if (!addr || typeof addr === 'string') throw new Error('failed to bind');
+  return {
+    node,
+    baseUrl: `http://127.0.0.1:${addr.port}`,
+    close: () => new Promise<void>((resolve, reject) => server.close((err?: any) => (err ? reject(err) : resolve())))
+  };
+}
+
+test('l402Middleware: challenges, then accepts L402 <macaroon>:<preimage> from fetchWithL402', async () => {
+  const srv = await serve({ rootKey: ROOT_KEY, price: 21, caveats: () => ['services=test:0'], caveatSatisfiers: { services: () => true } });
+  try {
+    let payCalls = 0;
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+      pay: async (challenge) => {
+        payCalls += 1;
+        assert.equal(challenge.scheme, 'L402');
+        assert.equal(challenge.proofHeader, 'authorization');
+        assert.ok(typeof challenge.meta?.macaroon === 'string');
+        return { preimage: srv.node.preimages.get(challenge.invoice)! };
+      }
+    });
+
+    assert.equal(payCalls, 1);
+    assert.equal(res.status, 200);
+    const body = await res.json();
+    assert.deepEqual(body.l402.caveats, ['services=test:0']);
+    assert.equal(body.l402.paymentHash.length, 64);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('l402Middleware: rejects wrong preimages and foreign macaroons with 401', async () => {
+  const srv = await serve({ rootKey: ROOT_KEY, price: 1 });
+  try {
+    const first = await fetch(`${srv.baseUrl}/paid`);
+    assert.equal(first.status, 402);
+    const { macaroon, invoice } = await first.json();
+    assert.match(first.headers.get('www-authenticate') || '', /^L402 macaroon="[^"]+", invoice="lnbcrt1mock/);
+
+    const wrong = await fetch(`${srv.baseUrl}/paid`, {
+      headers: { authorization: `L402 ${macaroon}:${'00'.repeat(32)}` }
+    });
+    assert.equal(wrong.status, 401);
+    assert.match(wrong.headers.get('www-authenticate') || '', /^L402 macaroon="[^"]+", invoice="lnbcrt1mock/);
+    const rejected = await wrong.json();
+    assert.equal(rejected.reason, 'invalid_preimage');
+    assert.notEqual(rejected.invoice, invoice);
+
+    const preimage = srv.node.preimages.get(invoice)!;
+    const paymentHash = crypto.createHash('sha256').update(Buffer.from(preimage, 'hex')).digest('hex');
+    const forged = serializeMacaroon(mintMacaroon({ rootKey: 'other-key', identifier: encodeL402Identifier({ paymentHash }) }));
+    const bad = await fetch(`${srv.baseUrl}/paid`, { headers: { authorization: `L402 ${forged}:${preimage}` } });
+    assert.equal(bad.status, 401);
+    assert.equal((await bad.json()).reason, 'invalid_signature');
+
+    const ok = await fetch(`${srv.baseUrl}/paid`, { headers: { authorization: `LSAT ${macaroon}:${preimage}` } });
+    assert.equal(ok.status, 200);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('verifyL402Authorization: expires caveat and unknown caveats', () => {
+  const preimage = '11'.repeat(32);
+  const paymentHash = crypto.createHash('sha256').update(Buffer.from(preimage, 'hex')).digest('hex');
+  const credential = (caveats: string[]) =>
+    `L402 ${serializeMacaroon(mintMacaroon({ rootKey: ROOT_KEY, identifier: encodeL402Identifier({ paymentHash }), caveats }))}:${preimage}`;
+
+  const now = () => 1_700_000_000_000;
+  assert.equal(verifyL402Authorization(credential(['expires=1700000001']), { rootKey: ROOT_KEY, now }).ok, true);
+
+  const expired = verifyL402Authorization(credential(['expires=1700000000']), { rootKey: ROOT_KEY, now });
+  assert.deepEqual(expired, { ok: false, reason: 'expired', detail: 'expires=1700000000' });
+
+  const unknown = verifyL402Authorization(credential(['tier=gold']), { rootKey: ROOT_KEY, now });
+  assert.equal(!unknown.ok && unknown.reason, 'caveat_failed');
+
+  const satisfied = verifyL402Authorization(credential(['tier=gold']), {
+    rootKey: ROOT_KEY,
+    caveatSatisfiers: { tier: (v) => v === 'gold' }
+  });
+  assert.equal(satisfied.ok, true);
+
+  assert.deepEqual(verifyL402Authorization(undefined, { rootKey: ROOT_KEY }), { ok: false, reason: 'missing' });
+  assert.equal((verifyL402Authorization('Bearer abc', { rootKey: ROOT_KEY }) as any).reason, 'missing');
+  assert.equal((verifyL402Authorization('L402 nocolon', { rootKey: ROOT_KEY }) as any).reason, 'malformed');
+  assert.equal((verifyL402Authorization('L402', { rootKey: ROOT_KEY }) as any).reason, 'malformed');
+});
+
+test('l402Middleware: expired credentials get a fresh 402 challenge', async () => {
+  let now = 1_700_000_000_000;
+  const srv = await serve({ rootKey: ROOT_KEY, price: 5, ttlSeconds: 60, now: () => now });
+  try {
+    const first = await fetch(`${srv.baseUrl}/paid`);
+    const { macaroon, invoice } = await first.json();
+    const authorization = `L402 ${macaroon}:${srv.node.preimages.get(invoice)}`;
+
+    assert.equal((await fetch(`${srv.baseUrl}/paid`, { headers: { authorization } })).status, 200);
+
+    now += 61_000;
+    const again = await fetch(`${srv.baseUrl}/paid`, { headers: { authorization } });
+    assert.equal(again.status, 402);
+    assert.notEqual((await again.json()).invoice, invoice);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('l402Middleware: answers other Authorization schemes with a 402 challenge', async () => {
+  const srv = await serve({ rootKey: ROOT_KEY, price: 1 });
+  try {
+    const res = await fetch(`${srv.baseUrl}/paid`, { headers: { authorization: 'Bearer some-api-key' } });
+    assert.equal(res.status, 402);
+    assert.match(res.headers.get('www-authenticate') || '', /^L402 macaroon=/);
+    assert.equal((await res.json()).error, 'payment_required');
+  } finally {
+    await srv.close();
+  }
+});
+
+test('l402Middleware: does not call next again when the handler throws', async () => {
+  const preimage = '22'.repeat(32);
+  const paymentHash = crypto.createHash('sha256').update(Buffer.from(preimage, 'hex')).digest('hex');
+  const macaroon = serializeMacaroon(mintMacaroon({ rootKey: ROOT_KEY, identifier: encodeL402Identifier({ paymentHash }) }));
+  const l402 = l402Middleware({ rootKey: ROOT_KEY, price: 1, issueInvoice: fakeNode().issueInvoice });
+
+  const calls: unknown[] = [];
+  const req = { headers: { authorization: `L402 ${macaroon}:${preimage}` } } as http.IncomingMessage;
+  await assert.rejects(
+    l402(req, {} as http.ServerResponse, (err) => {
+      calls.push(err);
+      throw new Error('handler failed');
+    }),
+    /handler failed/
+  );
+  assert.deepEqual(calls, [undefined]);
+});
+
+test('l402Middleware: passes issueInvoice failures to next(err)', async () => {
+  const srv = await serve(
+    { rootKey: ROOT_KEY, price: 1 },
+    {
+      preimages: new Map(),
+      issueInvoice: async () => {
+        throw new Error('node offline');
+      }
+    }
+  );
+  try {
+    const res = await fetch(`${srv.baseUrl}/paid`);
+    assert.equal(res.status, 503);
+    assert.equal(await res.text(), 'node offline');
+  } finally {
+    await srv.close();
+  }
+});
@@ -0,0 +1,130 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+
+import { decodeBolt11, encodeBolt11, fetchWithL402, L402PayerError, recoverBolt11PayeeKey } from '../src/index.js';
+import { createMockLightningNode, createMockPayer } from '../src/mock_lightning.js';
+import { startMockL402Server } from '../src/mock_server.js';
+
+// BOLT11 spec vector ("Please make a donation of any amount...") and the key that signed it.
+const DONATION =
+  'lnbc1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpl2pkx2ctnv5sxxmmwwd5kgetjypeh2ursdae8g6twvus8g6rfwvs8qun0dfjkxaq8rkx3yf5tcsyz3d73gafnh3cax9rn449d9p5uxz9ezhhypd0elx87sjle52x86fux2ypatgddc6k63n7erqz25le42c4u4ecky03ylcqca784w';
+const SPEC_KEY = Buffer.from('e126f68f7eafcc8b74f54d269fe206be715000f94dac067d1c04a8ca3b2db734', 'hex');
+const SPEC_NODE_ID = '03e7156ae33b0a208d0744199163177e909e80176e55d97a2f221ede0f934dd9ad';
+
+test('recoverBolt11PayeeKey: recovers the payee of the spec vector', () => {
+  assert.equal(recoverBolt11PayeeKey(DONATION), SPEC_NODE_ID);
+});
+
+test('encodeBolt11: round-trips through decodeBolt11 and signs with the given key', () => {
+  const paymentHash = '0001020304050607080900010203040506070809000102030405060708090102';
+  const invoice = encodeBolt11(
+    {
+      network: 'regtest',
+      amountMsat: 2_500_123,
+      timestamp: 1_700_000_000,
+      paymentHash,
+      paymentSecret: '11'.repeat(32),
+      description: 'coffee',
+      expiry: 600,
+      minFinalCltvExpiry: 40
+    },
+    SPEC_KEY
+  );
+
+  const decoded = decodeBolt11(invoice);
+  assert.equal(decoded.hrp, 'lnbcrt25001230p');
+  assert.equal(decoded.network, 'regtest');
+  assert.equal(decoded.amountMsat, 2_500_123);
+  assert.equal(decoded.timestamp, 1_700_000_000);
+  assert.equal(decoded.paymentHash, paymentHash);
+  assert.equal(decoded.paymentSecret, '11'.repeat(32));
+  assert.equal(decoded.description, 'coffee');
+  assert.equal(decoded.expiresAt, 1_700_000_600);
+  assert.equal(decoded.minFinalCltvExpiry, 40);
+  assert.equal(recoverBolt11PayeeKey(invoice), SPEC_NODE_ID);
+
+  // Same fields as the spec vector: identical up to the signature.
+  const spec = decodeBolt11(DONATION);
+  const again = encodeBolt11(
+    { network: 'mainnet', timestamp: spec.timestamp, paymentHash: spec.paymentHash!, description: spec.description },
+    SPEC_KEY
+  );
+  assert.equal(again.slice(0, -110), DONATION.slice(0, -110));
+});
+
+test('createMockLightningNode: deterministic with a seed, preimages hash to the invoice', () => {
+  const now = () => 1_700_000_000_000;
+  const a = createMockLightningNode({ seed: 'fixture', now });
+  const b = createMockLightningNode({ seed: 'fixture', now });
+  const inv = a.createInvoice({ amountSats: 21, description: 'x' });
+  assert.equal(b.createInvoice({ amountSats: 21, description: 'x' }).invoice, inv.invoice);
+  assert.equal(a.nodeId, b.nodeId);
+
+  const decoded = decodeBolt11(inv.invoice);
+  assert.equal(decoded.amountSats, 21);
+  assert.equal(decoded.paymentHash, inv.paymentHash);
+  assert.equal(recoverBolt11PayeeKey(inv.invoice), a.nodeId);
+  assert.equal(crypto.createHash('sha256').update(Buffer.from(inv.preimage, 'hex')).digest('hex'), inv.paymentHash);
+
+  assert.equal(a.getPreimage(inv.invoice), inv.preimage);
+  assert.equal(a.getPreimage(inv.paymentHash), inv.preimage);
+  assert.equal(a.getPreimage('00'.repeat(32)), undefined);
+  assert.equal(a.isSettled(inv.paymentHash), false);
+  assert.equal(a.settle(inv.paymentHash), inv.preimage);
+  assert.equal(a.isSettled(inv.paymentHash), true);
+});
+
+test('startMockL402Server lightning mode: fetchWithL402 pays a real invoice and retries with mac:preimage', async () => {
+  const srv = await startMockL402Server({ lightning: { priceSats: 42 } });
+  try {
+    let challenged: any;
+    const pay = createMockPayer(srv.node);
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+      network: 'regtest',
+      pay: async (challenge, ctx) => {
+        challenged = challenge;
+        return pay(challenge, ctx);
+      }
+    });
+
+    assert.equal(res.status, 200);
+    assert.equal(challenged.scheme, 'L402');
+    assert.equal(challenged.decoded.amountSats, 42);
+    assert.equal(recoverBolt11PayeeKey(challenged.invoice), srv.node.nodeId);
+    const body = await res.json();
+    assert.equal(body.paymentHash, challenged.decoded.paymentHash);
+    assert.equal(srv.node.isSettled(body.paymentHash), true);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('startMockL402Server lightning mode: a wrong preimage is refused with 401', async () => {
+  const srv = await startMockL402Server({ lightning: {} });
+  try {
+    const first = await fetch(`${srv.baseUrl}/paid`);
+    assert.equal(first.status, 402);
+    const { macaroon, invoice } = await first.json();
+    assert.ok(srv.getPreimage(invoice));
+
+    const wrong = await fetch(`${srv.baseUrl}/paid`, { headers: { authorization: `L402 ${macaroon}:${'00'.repeat(32)}` } });
+    assert.equal(wrong.status, 401);
+    assert.equal((await wrong.json()).reason, 'invalid_preimage');
+
+    const right = await fetch(`${srv.baseUrl}/paid`, { headers: { authorization: `L402 ${macaroon}:${srv.getPreimage(invoice)}` } });
+    assert.equal(right.status, 200);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('createMockPayer: refuses foreign and already-paid invoices', async () => {
+  const node = createMockLightningNode();
+  const pay = createMockPayer(node);
+  const inv = node.createInvoice({ amountSats: 1 });
+
+  assert.deepEqual(await pay({ invoice: inv.invoice }), { preimage: inv.preimage });
+  await assert.rejects(pay({ invoice: inv.invoice }), (err: unknown) => err instanceof L402PayerError && err.code === 'ALREADY_PAID');
+  await assert.rejects(pay({ invoice: DONATION }), (err: unknown) => err instanceof L402PayerError && err.code === 'UNKNOWN_INVOICE');
+});
@@ -0,0 +1,223 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createNwcPayer, fetchWithL402, L402PayerError, parseNwcUri } from '../src/index.js';
+import { startMockNwcWallet } from '../src/mock_nwc.js';
+import { mockPreimage, startMockL402Server } from '../src/mock_server.js';
+import { getPublicKeyHex, nip44, type NostrEvent } from '../src/nostr.js';
+import { schnorrSign } from '../src/secp256k1.js';
+import { acceptWebSocket, connectWebSocket, type WsConnection } from '../src/ws.js';
+
+test('secp256k1/nip44: known test vectors', () => {
+  // BIP340 test vector 0.
+  const sk = Buffer.alloc(32);
+  sk[31] = 3;
+  assert.equal(
+    schnorrSign(Buffer.alloc(32), sk, Buffer.alloc(32)).toString('hex'),
+    'e907831f80848d1069a5371b402410364bdf1c5f8307b0084c55f1ce2dca821525f66a4a85ea8b71e482a74f382d2ce5ebeee8fdb2172f477df4900d310536c0'
+  );
+
+  // NIP-44 v2 vectors (sec1 = 1, sec2 = 2, nonce = 1).
+  const sec1 = '0'.repeat(63) + '1';
+  const sec2 = '0'.repeat(63) + '2';
+  const key = nip44.getConversationKey(sec1, getPublicKeyHex(sec2));
+  assert.equal(key.toString('hex'), 'c41c775356fd92eadc63ff5a0dc1da211b268cbea22316767095b2871ea1412d');
+  const nonce = Buffer.alloc(32);
+  nonce[31] = 1;
+  const payload = nip44.encrypt('a', key, nonce);
+  assert.equal(
+    payload,
+    'AgAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAABee0G5VSK0/9YypIObAtDKfYEAjD35uVkHyB0F4DwrcNaCXlCWZKaArsGrY6M9wnuTMxWfp1RTN9Xga8no+kF5Vsb'
+  );
+  assert.equal(nip44.decrypt(payload, nip44.getConversationKey(sec2, getPublicKeyHex(sec1))), 'a');
+});
+
+test('parseNwcUri: parses wallet pubkey, relays and secret', () => {
+  const pub = 'b889ff5b1513b641e2a139f661a661364979c5beee91842f8f0ef42ab558e9d4';
+  const secret = '71a8c14c1407c113601079c4302dab36460f0ccd0ad506f1f2dc73b5100e4f3c';
+  const conn = parseNwcUri(
+    `nostr+walletconnect://${pub}?relay=wss%3A%2F%2Frelay.example.com&relay=wss://r2.example.com&secret=${secret}&lud16=a@b.c`
+  );
+  assert.equal(conn.walletPubkey, pub);
+  assert.deepEqual(conn.relays, ['wss://relay.example.com', 'wss://r2.example.com']);
+  assert.equal(conn.secret, secret);
+  assert.equal(conn.clientPubkey, getPublicKeyHex(secret));
+  assert.equal(conn.lud16, 'a@b.c');
+
+  assert.throws(() => parseNwcUri(`nostr+walletconnect://${pub}?secret=${secret}`), /no relay/);
+  assert.throws(() => parseNwcUri('https://example.com'), /invalid connection URI/);
+});
+
+test('createNwcPayer: pays over NIP-44 when the wallet advertises it', async () => {
+  const wallet = await startMockNwcWallet();
+  try {
+    const pay = createNwcPayer(wallet.connectionUri, { timeoutMs: 5000 });
+    const result = await pay({ invoice: 'lnbcrt1mockinvoice' });
+    assert.deepEqual(result, { preimage: mockPreimage('lnbcrt1mockinvoice') });
+    assert.deepEqual(wallet.requests, [
+      { method: 'pay_invoice', params: { invoice: 'lnbcrt1mockinvoice' }, encryption: 'nip44_v2' }
+    ]);
+  } finally {
+    await wallet.close();
+  }
+});
+
+test('createNwcPayer: falls back to NIP-04 for wallets without an encryption tag', async () => {
+  const wallet = await startMockNwcWallet({ encryption: [] });
+  try {
+    const pay = createNwcPayer(wallet.connectionUri, { timeoutMs: 5000 });
+    assert.deepEqual(await pay({ invoice: 'lnbcrt1x' }), { preimage: mockPreimage('lnbcrt1x') });
+    assert.equal(wallet.requests[0].encryption, 'nip04');
+  } finally {
+    await wallet.close();
+  }
+});
+
+test('createNwcPayer: maps wallet errors and timeouts to L402PayerError', async () => {
+  const failing = await startMockNwcWallet({
+    payInvoice: () => ({ error: { code: 'INSUFFICIENT_BALANCE', message: 'not enough sats' } })
+  });
+  const hung = await startMockNwcWallet({ payInvoice: () => new Promise(() => {}) });
+  try {
+    await assert.rejects(createNwcPayer(failing.connectionUri, { encryption: 'nip04' })({ invoice: 'lnbcrt1x' }), (err) => {
+      assert.ok(err instanceof L402PayerError);
+      assert.equal(err.payer, 'nwc');
+      assert.equal(err.code, 'INSUFFICIENT_BALANCE');
+      return true;
+    });
+
+    await assert.rejects(createNwcPayer(hung.connectionUri, { timeoutMs: 200 })({ invoice: 'lnbcrt1x' }), (err) => {
+      assert.ok(err instanceof L402PayerError);
+      assert.equal(err.code, 'TIMEOUT');
+      return true;
+    });
+  } finally {
+    await failing.close();
+    await hung.close();
+  }
+});
+
+/** A relay that hands every parsed message to `onMessage` and does nothing else. */
+async function startScriptedRelay(onMessage: (ws: WsConnection, msg: any[]) => void) {
+  const http = await import('node:http');
+  const server = http.createServer();
+  const sockets = new Set<import('node:stream').Duplex>();
+  server.on('upgrade', (req, socket, head) => {
+    const ws = acceptWebSocket(req, socket, head);
+    if (!ws) return;
+    sockets.add(socket);
+    ws.onMessage((text) => onMessage(ws, JSON.parse(text)));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const port = (server.address() as import('node:net').AddressInfo).port;
+  return {
+    url: `ws://127.0.0.1:${port}`,
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const s of sockets) s.destroy();
+        server.close(() => resolve());
+      })
+  };
+}
+
+const walletSecret = '0'.repeat(63) + '7';
+const clientSecret = '0'.repeat(63) + '9';
+const nwcUri = (...relays: string[]) =>
+  `nostr+walletconnect://${getPublicKeyHex(walletSecret)}?${relays.map((r) => `relay=${encodeURIComponent(r)}`).join('&')}&secret=${clientSecret}`;
+
+test('createNwcPayer: falls back to the next relay when one is unreachable', async () => {
+  const wallet = await startMockNwcWallet();
+  try {
+    const dead = 'ws://127.0.0.1:1';
+    const uri = wallet.connectionUri.replace('?', `?relay=${encodeURIComponent(dead)}&`);
+    assert.equal(parseNwcUri(uri).relays[0], dead);
+    const pay = createNwcPayer(uri, { timeoutMs: 5000 });
+    assert.deepEqual(await pay({ invoice: 'lnbcrt1x' }), { preimage: mockPreimage('lnbcrt1x') });
+
+    await assert.rejects(createNwcPayer(nwcUri(dead), { timeoutMs: 5000 })({ invoice: 'lnbcrt1x' }), (err) => {
+      assert.ok(err instanceof L402PayerError);
+      assert.equal(err.code, 'RELAY');
+      assert.match(err.message, /127\.0\.0\.1:1/);
+      return true;
+    });
+  } finally {
+    await wallet.close();
+  }
+});
+
+test('createNwcPayer: ignores responses not signed by the wallet', async () => {
+  const relay = await startScriptedRelay((ws, msg) => {
+    if (msg[0] !== 'REQ') return;
+    const forged: NostrEvent = {
+      id: 'ab'.repeat(32),
+      pubkey: getPublicKeyHex(walletSecret),
+      created_at: Math.floor(Date.now() / 1000),
+      kind: 23195,
+      tags: [],
+      content: 'not-a-payload',
+      sig: 'cd'.repeat(64)
+    };
+    ws.send(JSON.stringify(['EVENT', msg[1], forged]));
+  });
+  try {
+    await assert.rejects(createNwcPayer(nwcUri(relay.url), { timeoutMs: 300, encryption: 'nip04' })({ invoice: 'lnbcrt1x' }), (err) => {
+      assert.ok(err instanceof L402PayerError);
+      assert.equal(err.code, 'TIMEOUT');
+      return true;
+    });
+  } finally {
+    await relay.close();
+  }
+});
+
+test('createNwcPayer: the caller signal aborts encryption detection', async () => {
+  const relay = await startScriptedRelay(() => {});
+  try {
+    const controller = new AbortController();
+    const reason = new Error('caller gave up');
+    setTimeout(() => controller.abort(reason), 50);
+    const started = Date.now();
+    await assert.rejects(
+      createNwcPayer(nwcUri(relay.url), { timeoutMs: 10_000 })({ invoice: 'lnbcrt1x' }, { signal: controller.signal }),
+      (err) => err === reason
+    );
+    assert.ok(Date.now() - started < 2_000);
+  } finally {
+    await relay.close();
+  }
+});
+
+test('connectWebSocket: closes the connection on a message over maxMessageBytes', async () => {
+  const relay = await startScriptedRelay((ws, msg) => ws.send(JSON.stringify(['ECHO', 'x'.repeat(msg[1])])));
+  try {
+    const ws = await connectWebSocket(relay.url, { maxMessageBytes: 64 });
+    const received: string[] = [];
+    ws.onMessage((text) => received.push(text));
+    const closed = new Promise<void>((resolve) => ws.onClose(resolve));
+
+    ws.send(JSON.stringify(['SIZE', 10]));
+    ws.send(JSON.stringify(['SIZE', 70_000]));
+    await closed;
+    assert.deepEqual(received, [JSON.stringify(['ECHO', 'x'.repeat(10)])]);
+  } finally {
+    await relay.close();
+  }
+});
+
+test('fetchWithL402: end-to-end with the NWC payer and mock L402 server', async () => {
+  const wallet = await startMockNwcWallet();
+  const srv = await startMockL402Server({
+    challengeInHeader: true,
+    proofHeader: 'authorization',
+    requiredProof: `L402 mockmacaroon:${mockPreimage('lnbc1mockinvoice')}`
+  });
+  try {
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+      pay: createNwcPayer(wallet.connectionUri, { timeoutMs: 5000 })
+    });
+    assert.equal(res.status, 200);
+  } finally {
+    await srv.close();
+    await wallet.close();
+  }
+});
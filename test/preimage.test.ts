@@ -0,0 +1,114 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import http from 'node:http';
+
+import { bech32Decode, bech32Encode } from '../src/bolt11.js';
+import { fetchWithL402, L402InvalidPreimageError } from '../src/index.js';
+import { restamp } from './helpers.js';
+
+// BOLT11 spec vector (2500u coffee invoice), re-stamped as created now; its first tagged field is the payment hash.
+const COFFEE = restamp(
+  'lnbc2500u1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpuaztrnwngzn3kdzw5hydlzf03qdgm2hdq27cqv3agm2awhz5se903vruatfhq77w3ls4evs3ch9zw97j25emudupq63nyw24cg27h2rspfj9srp'
+);
+
+const PREIMAGE = '42'.repeat(32);
+const PAYMENT_HASH = crypto.createHash('sha256').update(Buffer.from(PREIMAGE, 'hex')).digest('hex');
+
+/** Swaps the payment hash of COFFEE (the signature is not checked by the decoder). */
+function invoiceWithPaymentHash(hashHex: string): string {
+  const { hrp, words } = bech32Decode(COFFEE);
+  const hashWords: number[] = [];
+  let acc = 0;
+  let bits = 0;
+  for (const byte of Buffer.from(hashHex, 'hex')) {
+    acc = (acc << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      hashWords.push((acc >> bits) & 31);
+    }
+  }
+  hashWords.push((acc << (5 - bits)) & 31);
+  // 7 timestamp words, then tag `p` (1), 2 length words, 52 data words.
+  return bech32Encode(hrp, [...words.slice(0, 10), ...hashWords, ...words.slice(62)]);
+}
+
+async function serveInvoice(invoice: string) {
+  let paidCalls = 0;
+  const server = http.createServer((req, res) => {
+    if (req.headers.authorization === `L402 mac:${PREIMAGE}`) {
+      paidCalls += 1;
+      res.writeHead(200, { 'content-type': 'text/plain' });
+      res.end('ok');
+      return;
+    }
+    res.writeHead(402, { 'www-authenticate': `L402 macaroon="mac", invoice="${invoice}"` });
+    res.end();
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.listen(0, '127.0.0.1', () => resolve());
+    server.on('error', reject);
+  });
+  const addr = server.address();
+  if (!addr || typeof addr === 'string') throw new Error('failed to bind');
+  return {
+    baseUrl: `http://127.0.0.1:${addr.port}`,
+    paidCalls: () => paidCalls,
+    close: () => new Promise<void>((resolve, reject) => server.close((err?: any) => (err ? reject(err) : resolve())))
+  };
+}
+
+test('fetchWithL402: accepts a preimage matching the invoice payment hash', async () => {
+  const srv = await serveInvoice(invoiceWithPaymentHash(PAYMENT_HASH));
+  try {
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+      pay: async (challenge) => {
+        assert.equal(challenge.decoded?.paymentHash, PAYMENT_HASH);
+        return { preimage: PREIMAGE };
+      }
+    });
+    assert.equal(res.status, 200);
+    assert.equal(srv.paidCalls(), 1);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('fetchWithL402: throws L402InvalidPreimageError with a receipt instead of retrying', async () => {
+  const srv = await serveInvoice(COFFEE);
+  let payCalls = 0;
+  try {
+    await assert.rejects(
+      fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+        pay: async () => {
+          payCalls += 1;
+          return { preimage: PREIMAGE };
+        }
+      }),
+      (err: unknown) => {
+        assert.ok(err instanceof L402InvalidPreimageError);
+        assert.equal(err.name, 'L402InvalidPreimageError');
+        assert.equal(err.receipt.invoice, COFFEE);
+        assert.equal(err.receipt.preimage, PREIMAGE);
+        assert.equal(err.receipt.paymentHash, '0001020304050607080900010203040506070809000102030405060708090102');
+        assert.equal(err.receipt.amountSats, 250_000);
+        assert.equal(err.receipt.url, `${srv.baseUrl}/paid`);
+        return true;
+      }
+    );
+    assert.equal(payCalls, 1);
+
+    // Malformed preimages fail the same way; opaque proofs are not checked.
+    await assert.rejects(
+      fetchWithL402(`${srv.baseUrl}/paid`, undefined, { pay: async () => ({ preimage: 'not-hex' }) }),
+      L402InvalidPreimageError
+    );
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+      pay: async () => ({ proof: `L402 mac:${PREIMAGE}` })
+    });
+    assert.equal(res.status, 200);
+  } finally {
+    await srv.close();
+  }
+});
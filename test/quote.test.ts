@@ -0,0 +1,131 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+
+import { L402ChallengeParseError, L402NoAcceptableChallengeError, payAndFetch, quoteL402 } from '../src/index.js';
+import { restamp } from './helpers.js';
+
+// BOLT11 spec vector: 2500u (250000 sats) with a 60s expiry, re-stamped as created at CREATED.
+const CREATED = Math.floor(Date.now() / 1000);
+const COFFEE = restamp(
+  'lnbc2500u1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpuaztrnwngzn3kdzw5hydlzf03qdgm2hdq27cqv3agm2awhz5se903vruatfhq77w3ls4evs3ch9zw97j25emudupq63nyw24cg27h2rspfj9srp',
+  CREATED
+);
+
+/** JSON-challenge paywall that echoes the request body once paid, counting 402s. */
+async function paywall() {
+  let challenges = 0;
+  const server = http.createServer(async (req, res) => {
+    if (req.url === '/free') {
+      res.end('free');
+      return;
+    }
+    if (req.url === '/unpayable') {
+      res.writeHead(402, { 'content-type': 'text/html' });
+      res.end('<h1>Payment required</h1>');
+      return;
+    }
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    if (req.headers['x-l402-proof'] === 'paid') {
+      res.end(`paid:${req.method}:${body}`);
+      return;
+    }
+    challenges += 1;
+    res.writeHead(402, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ invoice: COFFEE }));
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.listen(0, '127.0.0.1', () => resolve());
+    server.on('error', reject);
+  });
+  const addr = server.address();
+  if (!addr || typeof addr === 'string') throw new Error('failed to bind');
+  return {
+    baseUrl: `http://127.0.0.1:${addr.port}`,
+    challenges: () => challenges,
+    close: () => new Promise<void>((resolve, reject) => server.close((err?: any) => (err ? reject(err) : resolve())))
+  };
+}
+
+test('quoteL402: returns free responses as-is', async () => {
+  const srv = await paywall();
+  try {
+    const quote = await quoteL402(`${srv.baseUrl}/free`);
+    assert.equal(quote.paymentRequired, false);
+    assert.equal(await quote.response.text(), 'free');
+  } finally {
+    await srv.close();
+  }
+});
+
+test('quoteL402: throws on a 402 it cannot quote instead of returning it as free', async () => {
+  const srv = await paywall();
+  try {
+    await assert.rejects(quoteL402(`${srv.baseUrl}/unpayable`), (err: any) => {
+      assert.ok(err instanceof L402ChallengeParseError);
+      assert.equal(err.response.status, 402);
+      return true;
+    });
+    await assert.rejects(
+      quoteL402(`${srv.baseUrl}/paid`, undefined, { selectChallenge: () => null }),
+      L402NoAcceptableChallengeError
+    );
+  } finally {
+    await srv.close();
+  }
+});
+
+test('quoteL402 + payAndFetch: plan, then pay without requesting the 402 again', async () => {
+  const srv = await paywall();
+  try {
+    const body = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('{"q":1}'));
+        controller.close();
+      }
+    });
+    const quote = await quoteL402(`${srv.baseUrl}/paid`, { method: 'POST', body, duplex: 'half' } as RequestInit);
+    assert.ok(quote.paymentRequired);
+    assert.equal(quote.amountSats, 250000);
+    assert.equal(quote.expiresAt, (CREATED + 60) * 1000);
+    assert.equal(quote.challenge.invoice, COFFEE);
+    assert.equal(quote.response.status, 402);
+    // Reading the 402 body does not stop the quote from being paid.
+    assert.deepEqual(await quote.response.json(), { invoice: COFFEE });
+
+    let paid: string | undefined;
+    const res = await payAndFetch(quote, async (challenge) => {
+      paid = challenge.invoice;
+      return { proof: 'paid' };
+    });
+    assert.equal(await res.text(), 'paid:POST:{"q":1}');
+    assert.equal(paid, COFFEE);
+    assert.equal(srv.challenges(), 1);
+
+    await assert.rejects(payAndFetch(quote, async () => ({ proof: 'paid' })), /already paid/);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('payAndFetch: options override the quote and hooks see the payment', async () => {
+  const srv = await paywall();
+  try {
+    const quote = await quoteL402(`${srv.baseUrl}/paid`, undefined, { proofHeader: 'x-wrong' });
+    assert.ok(quote.paymentRequired);
+
+    let paidSats: number | undefined;
+    const res = await payAndFetch(quote, {
+      proofHeader: 'x-l402-proof',
+      pay: async () => ({ proof: 'paid' }),
+      onComplete: (e) => {
+        paidSats = e.paidSats;
+      }
+    });
+    assert.equal(res.status, 200);
+    assert.equal(paidSats, 250000);
+  } finally {
+    await srv.close();
+  }
+});
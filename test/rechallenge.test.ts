@@ -0,0 +1,130 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+
+import { createMemoryTokenStore, fetchWithL402, L402ProofRejectedError } from '../src/index.js';
+import { startMockL402Server } from '../src/mock_server.js';
+
+test('fetchWithL402: a 402 re-offering the paid invoice is a rejected proof, not a new price', async () => {
+  const srv = await startMockL402Server();
+  try {
+    let payCalls = 0;
+    const opts = {
+      max402Retries: 3,
+      pay: async () => {
+        payCalls += 1;
+        return { proof: 'wrong' };
+      }
+    };
+
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, opts);
+    assert.equal(res.status, 402);
+    assert.equal(payCalls, 1);
+
+    await assert.rejects(fetchWithL402(`${srv.baseUrl}/paid`, undefined, { ...opts, strict: true }), (err: unknown) => {
+      assert.ok(err instanceof L402ProofRejectedError);
+      assert.equal(err.attempts, 1);
+      assert.equal(err.challenge?.invoice, 'lnbc1mockinvoice');
+      return true;
+    });
+    assert.equal(payCalls, 2);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('fetchWithL402: pays again when the server issues a new invoice', async () => {
+  const srv = await startMockL402Server({ uniqueInvoices: true });
+  try {
+    const paid: string[] = [];
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+      max402Retries: 2,
+      pay: async (challenge) => {
+        paid.push(challenge.invoice);
+        return { proof: paid.length === 1 ? 'stale' : 'paid' };
+      }
+    });
+    assert.equal(res.status, 200);
+    assert.deepEqual(paid, ['lnbc1mockinvoice1', 'lnbc1mockinvoice2']);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('fetchWithL402: a revoked cached credential is dropped and its invoice is not paid twice', async () => {
+  let validProof = 'first';
+  let invoice = 'lnbc1first';
+  const server = http.createServer((req, res) => {
+    if (req.headers['x-l402-proof'] === validProof) {
+      res.end('ok');
+      return;
+    }
+    res.writeHead(402, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ invoice }));
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.listen(0, '127.0.0.1', () => resolve());
+    server.on('error', reject);
+  });
+  const addr = server.address();
+  if (!addr || typeof addr === 'string') throw new Error('failed to bind');
+  const baseUrl = `http://127.0.0.1:${addr.port}`;
+
+  try {
+    const tokenStore = createMemoryTokenStore();
+    const paid: string[] = [];
+    const opts = {
+      tokenStore,
+      pay: async (challenge: { invoice: string }) => {
+        paid.push(challenge.invoice);
+        return { proof: validProof };
+      }
+    };
+    assert.equal((await fetchWithL402(`${baseUrl}/paid`, undefined, opts)).status, 200);
+    assert.equal(tokenStore.get(`${baseUrl}/paid`)?.invoice, 'lnbc1first');
+
+    // Revoked, and the server answers with the same old challenge: nothing to pay.
+    validProof = 'second';
+    assert.equal((await fetchWithL402(`${baseUrl}/paid`, undefined, opts)).status, 402);
+    assert.equal(tokenStore.size(), 0);
+    assert.deepEqual(paid, ['lnbc1first']);
+
+    // Once it offers a new invoice, that one is paid.
+    invoice = 'lnbc1second';
+    assert.equal((await fetchWithL402(`${baseUrl}/paid`, undefined, opts)).status, 200);
+    assert.deepEqual(paid, ['lnbc1first', 'lnbc1second']);
+    assert.equal(tokenStore.get(`${baseUrl}/paid`)?.value, 'second');
+  } finally {
+    await new Promise<void>((resolve, reject) => server.close((err?: any) => (err ? reject(err) : resolve())));
+  }
+});
+
+test('fetchWithL402: a credential answered with 403 is not cached', async () => {
+  const server = http.createServer((req, res) => {
+    if (req.headers['x-l402-proof']) {
+      res.writeHead(403);
+      res.end('forbidden');
+      return;
+    }
+    res.writeHead(402, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ invoice: 'lnbc1mockinvoice' }));
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.listen(0, '127.0.0.1', () => resolve());
+    server.on('error', reject);
+  });
+  const addr = server.address();
+  if (!addr || typeof addr === 'string') throw new Error('failed to bind');
+
+  try {
+    const tokenStore = createMemoryTokenStore();
+    const res = await fetchWithL402(`http://127.0.0.1:${addr.port}/paid`, undefined, {
+      tokenStore,
+      pay: async () => ({ proof: 'paid' })
+    });
+    assert.equal(res.status, 403);
+    assert.equal(tokenStore.size(), 0);
+  } finally {
+    await new Promise<void>((resolve, reject) => server.close((err?: any) => (err ? reject(err) : resolve())));
+  }
+});
@@ -0,0 +1,112 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { Readable } from 'node:stream';
+
+import { fetchWithL402, L402BodyNotReplayableError } from '../src/index.js';
+
+/** Answers 402 until `x-l402-proof: paid` arrives, then echoes what it received. */
+async function echoServer() {
+  const bodies: string[] = [];
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (c: Buffer) => chunks.push(c));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf8');
+      bodies.push(body);
+      if (req.headers['x-l402-proof'] !== 'paid') {
+        res.writeHead(402, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ invoice: 'lnbc1mockinvoice' }));
+        return;
+      }
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ method: req.method, contentType: req.headers['content-type'], body }));
+    });
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.listen(0, '127.0.0.1', () => resolve());
+    server.on('error', reject);
+  });
+  const addr = server.address();
+  if (!addr || typeof addr === 'string') throw new Error('failed to bind');
+  return {
+    bodies,
+    baseUrl: `http://127.0.0.1:${addr.port}`,
+    close: () => new Promise<void>((resolve, reject) => server.close((err?: any) => (err ? reject(err) : resolve())))
+  };
+}
+
+function webStream(parts: string[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const p of parts) controller.enqueue(new TextEncoder().encode(p));
+      controller.close();
+    }
+  });
+}
+
+const pay = async () => ({ proof: 'paid' });
+
+test('fetchWithL402: replays ReadableStream and Node Readable bodies on the paid retry', async () => {
+  const srv = await echoServer();
+  try {
+    const init = { method: 'POST', body: webStream(['{"a":', '1}']), duplex: 'half' } as RequestInit;
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, init, { pay });
+    assert.equal(res.status, 200);
+    assert.equal((await res.json()).body, '{"a":1}');
+
+    const node = Readable.from([Buffer.from('node '), 'stream']);
+    const nodeInit = { method: 'PUT', body: node as any, duplex: 'half' } as RequestInit;
+    const res2 = await fetchWithL402(`${srv.baseUrl}/paid`, nodeInit, { pay });
+    assert.deepEqual(await res2.json(), { method: 'PUT', body: 'node stream' });
+    assert.deepEqual(srv.bodies, ['{"a":1}', '{"a":1}', 'node stream', 'node stream']);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('fetchWithL402: clones Request inputs, keeping their method, headers and body', async () => {
+  const srv = await echoServer();
+  try {
+    const req = new Request(`${srv.baseUrl}/paid`, {
+      method: 'POST',
+      headers: { 'content-type': 'text/plain' },
+      body: webStream(['hello']),
+      duplex: 'half'
+    } as RequestInit);
+    const res = await fetchWithL402(req, undefined, { pay });
+    assert.deepEqual(await res.json(), { method: 'POST', contentType: 'text/plain', body: 'hello' });
+  } finally {
+    await srv.close();
+  }
+});
+
+test('fetchWithL402: refuses to pay when a stream body is over maxReplayBodyBytes', async () => {
+  const srv = await echoServer();
+  try {
+    let payCalls = 0;
+    const init = { method: 'POST', body: webStream(['x'.repeat(64)]), duplex: 'half' } as RequestInit;
+    await assert.rejects(
+      fetchWithL402(`${srv.baseUrl}/paid`, init, {
+        maxReplayBodyBytes: 16,
+        pay: async () => {
+          payCalls += 1;
+          return { proof: 'paid' };
+        }
+      }),
+      (err: unknown) => err instanceof L402BodyNotReplayableError && err.maxBytes === 16
+    );
+    assert.equal(payCalls, 0);
+    // The first attempt still carried the full body.
+    assert.equal(srv.bodies[0].length, 64);
+
+    // Plain bodies are resent as-is, whatever their size.
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, { method: 'POST', body: 'y'.repeat(64) }, {
+      maxReplayBodyBytes: 16,
+      pay
+    });
+    assert.equal((await res.json()).body.length, 64);
+  } finally {
+    await srv.close();
+  }
+});
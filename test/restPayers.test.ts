@@ -0,0 +1,170 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { bech32Decode, bech32Encode } from '../src/bolt11.js';
+import {
+  createClnRestPayer,
+  createLndRestPayer,
+  decodeBolt11,
+  feeLimitSats,
+  fetchWithL402,
+  L402PayerError
+} from '../src/index.js';
+import { startMockClnRest, startMockLndRest } from '../src/mock_rest_nodes.js';
+import { mockPreimage, startMockL402Server } from '../src/mock_server.js';
+
+// BOLT11 spec vector, re-encoded as a 50k sat invoice.
+const INVOICE = bech32Encode(
+  'lnbc500u',
+  bech32Decode(
+    'lnbc1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpl2pkx2ctnv5sxxmmwwd5kgetjypeh2ursdae8g6twvus8g6rfwvs8qun0dfjkxaq8rkx3yf5tcsyz3d73gafnh3cax9rn449d9p5uxz9ezhhypd0elx87sjle52x86fux2ypatgddc6k63n7erqz25le42c4u4ecky03ylcqca784w'
+  ).words
+);
+const CHALLENGE = { invoice: INVOICE, decoded: decodeBolt11(INVOICE) };
+
+function payerError(payer: string, code: string) {
+  return (err: unknown) => {
+    assert.ok(err instanceof L402PayerError);
+    assert.equal(err.payer, payer);
+    assert.equal(err.code, code);
+    return true;
+  };
+}
+
+test('feeLimitSats: explicit cap wins, else percent of the decoded amount with a floor', () => {
+  assert.equal(feeLimitSats(CHALLENGE, { maxFeeSats: 3 }), 3);
+  assert.equal(feeLimitSats(CHALLENGE, {}), 500);
+  assert.equal(feeLimitSats(CHALLENGE, { maxFeePercent: 0.5 }), 250);
+  assert.equal(feeLimitSats({ invoice: 'lnbc1mockinvoice' }, {}), 10);
+});
+
+test('createLndRestPayer: pays via /v2/router/send and returns the preimage', async () => {
+  const lnd = await startMockLndRest();
+  try {
+    const pay = createLndRestPayer({ url: lnd.baseUrl, macaroonHex: lnd.macaroonHex, maxFeeSats: 21, timeoutMs: 5000 });
+    assert.deepEqual(await pay(CHALLENGE), { preimage: mockPreimage(INVOICE) });
+
+    const { headers, body } = lnd.requests[0];
+    assert.equal(headers['grpc-metadata-macaroon'], lnd.macaroonHex);
+    assert.equal(body.payment_request, INVOICE);
+    assert.equal(body.fee_limit_sat, '21');
+    assert.equal(body.timeout_seconds, 5);
+  } finally {
+    await lnd.close();
+  }
+});
+
+test('createLndRestPayer: maps failures, auth errors and timeouts', async () => {
+  const lnd = await startMockLndRest({
+    pay: async (invoice) => {
+      if (invoice === 'hang') return { hang: true };
+      if (invoice !== 'slow') return { failure: 'FAILURE_REASON_NO_ROUTE' };
+      // The node gives up at its own deadline.
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      return { failure: 'FAILURE_REASON_TIMEOUT' };
+    }
+  });
+  try {
+    const pay = createLndRestPayer({ url: lnd.baseUrl, macaroonHex: lnd.macaroonHex, timeoutMs: 300, httpTimeoutMs: 600 });
+    await assert.rejects(pay(CHALLENGE), payerError('lnd', 'NO_ROUTE'));
+    // The node's own timeout verdict arrives within the HTTP margin.
+    await assert.rejects(pay({ invoice: 'slow' }), payerError('lnd', 'TIMEOUT'));
+    // No answer at all: the payment may still be in flight.
+    await assert.rejects(pay({ invoice: 'hang' }), (err: any) => err.code === 'IN_PROGRESS' && /in flight/.test(err.message));
+    await assert.rejects(
+      createLndRestPayer({ url: lnd.baseUrl, macaroonHex: 'abcd' })(CHALLENGE),
+      payerError('lnd', 'UNAUTHORIZED')
+    );
+  } finally {
+    await lnd.close();
+  }
+
+  await assert.rejects(
+    createLndRestPayer({ url: lnd.baseUrl, macaroonHex: lnd.macaroonHex, timeoutMs: 1000 })(CHALLENGE),
+    payerError('lnd', 'CONNECTION')
+  );
+  assert.throws(() => createLndRestPayer({ url: lnd.baseUrl, macaroonHex: 'not hex' }), /macaroonHex/);
+});
+
+/** Live abort listeners registered on `signal`. */
+function abortListeners(signal: AbortSignal): Set<unknown> {
+  const live = new Set<unknown>();
+  const add = signal.addEventListener.bind(signal);
+  const remove = signal.removeEventListener.bind(signal);
+  signal.addEventListener = ((type: string, cb: any, o?: any) => {
+    live.add(cb);
+    add(type, cb, o);
+  }) as typeof add;
+  signal.removeEventListener = ((type: string, cb: any, o?: any) => {
+    live.delete(cb);
+    remove(type, cb, o);
+  }) as typeof remove;
+  return live;
+}
+
+test('createLndRestPayer: releases the caller signal when the request times out or fails', async () => {
+  const lnd = await startMockLndRest({ pay: async () => ({ hang: true }) });
+  const signal = new AbortController().signal;
+  const live = abortListeners(signal);
+  try {
+    const pay = createLndRestPayer({ url: lnd.baseUrl, macaroonHex: lnd.macaroonHex, timeoutMs: 100, httpTimeoutMs: 200 });
+    await assert.rejects(pay(CHALLENGE, { signal }), payerError('lnd', 'IN_PROGRESS'));
+    assert.equal(live.size, 0);
+  } finally {
+    await lnd.close();
+  }
+
+  await assert.rejects(
+    createLndRestPayer({ url: lnd.baseUrl, macaroonHex: lnd.macaroonHex })(CHALLENGE, { signal }),
+    payerError('lnd', 'CONNECTION')
+  );
+  assert.equal(live.size, 0);
+});
+
+test('createClnRestPayer: pays via /v1/pay with rune auth and msat fee cap', async () => {
+  const cln = await startMockClnRest();
+  try {
+    const pay = createClnRestPayer({ url: cln.baseUrl, rune: cln.rune, timeoutMs: 5000 });
+    assert.deepEqual(await pay(CHALLENGE), { preimage: mockPreimage(INVOICE) });
+
+    const { headers, body } = cln.requests[0];
+    assert.equal(headers.rune, cln.rune);
+    assert.equal(body.bolt11, INVOICE);
+    assert.equal(body.maxfee, 500_000);
+    assert.equal(body.retry_for, 5);
+  } finally {
+    await cln.close();
+  }
+});
+
+test('createClnRestPayer: maps pay error codes and auth errors', async () => {
+  const cln = await startMockClnRest({
+    pay: (invoice) => ({ failure: invoice === INVOICE ? 206 : 207, message: 'nope' })
+  });
+  try {
+    const pay = createClnRestPayer({ url: cln.baseUrl, rune: cln.rune });
+    await assert.rejects(pay(CHALLENGE), payerError('cln', 'FEE_LIMIT_EXCEEDED'));
+    await assert.rejects(pay({ invoice: 'lnbc1other' }), payerError('cln', 'INVOICE_EXPIRED'));
+    await assert.rejects(createClnRestPayer({ url: cln.baseUrl, rune: 'wrong' })(CHALLENGE), payerError('cln', 'UNAUTHORIZED'));
+  } finally {
+    await cln.close();
+  }
+});
+
+test('fetchWithL402: end-to-end with the LND payer and mock L402 server', async () => {
+  const lnd = await startMockLndRest();
+  const srv = await startMockL402Server({
+    challengeInHeader: true,
+    proofHeader: 'authorization',
+    requiredProof: `L402 mockmacaroon:${mockPreimage('lnbc1mockinvoice')}`
+  });
+  try {
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+      pay: createLndRestPayer({ url: lnd.baseUrl, macaroonHex: lnd.macaroonHex })
+    });
+    assert.equal(res.status, 200);
+  } finally {
+    await srv.close();
+    await lnd.close();
+  }
+});
@@ -0,0 +1,138 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { fetchWithL402 } from '../src/index.js';
+import { createMockPayer } from '../src/mock_lightning.js';
+import { MOCK_L402_SCENARIOS, startMockL402Server, type MockL402ScenarioName } from '../src/mock_server.js';
+
+const PROOF = { 'x-l402-proof': 'paid' };
+
+test('MOCK_L402_SCENARIOS: every scenario is addressable by name and ends where this client expects', async () => {
+  // fetchWithL402 doesn't retry 401/5xx/429 or malformed challenges; it does follow redirects.
+  const expected: Record<MockL402ScenarioName, number> = {
+    'happy-path': 200,
+    'reject-first-proof': 401,
+    'new-invoice-every-402': 200,
+    'malformed-www-authenticate': 402,
+    slow: 200,
+    'error-after-payment': 500,
+    'retry-after': 429,
+    'expiring-macaroon': 200,
+    'redirect-after-payment': 200,
+    'flaky-gateway': 502
+  };
+  assert.deepEqual(Object.keys(MOCK_L402_SCENARIOS).sort(), Object.keys(expected).sort());
+
+  for (const name of Object.keys(MOCK_L402_SCENARIOS) as MockL402ScenarioName[]) {
+    const srv = await startMockL402Server({ scenario: name, delayMs: 0, paidDelayMs: 0 });
+    try {
+      const res = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, { pay: srv.pay });
+      await res.arrayBuffer();
+      assert.equal(res.status, expected[name], name);
+    } finally {
+      await srv.close();
+    }
+  }
+});
+
+test('scenarios: rejected first proof, then 500 after payment, then success', async () => {
+  const srv = await startMockL402Server({ rejectFirstProof: true, failAfterPayment: 2 });
+  try {
+    assert.equal((await fetch(`${srv.baseUrl}/paid`)).status, 402);
+    const rejected = await fetch(`${srv.baseUrl}/paid`, { headers: PROOF });
+    assert.equal(rejected.status, 401);
+    assert.equal((await rejected.json()).reason, 'rejected');
+    assert.equal((await fetch(`${srv.baseUrl}/paid`, { headers: PROOF })).status, 500);
+    assert.equal((await fetch(`${srv.baseUrl}/paid`, { headers: PROOF })).status, 200);
+    assert.equal(srv.requests(), 4);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('scenarios: retry-after throttles before challenging, malformed challenge has no invoice', async () => {
+  const throttled = await startMockL402Server({ retryAfter: { seconds: 7, status: 503, times: 2 } });
+  try {
+    for (let i = 0; i < 2; i++) {
+      const res = await fetch(`${throttled.baseUrl}/paid`);
+      assert.equal(res.status, 503);
+      assert.equal(res.headers.get('retry-after'), '7');
+    }
+    assert.equal((await fetch(`${throttled.baseUrl}/paid`)).status, 402);
+  } finally {
+    await throttled.close();
+  }
+
+  const malformed = await startMockL402Server({ scenario: 'malformed-www-authenticate' });
+  try {
+    const res = await fetch(`${malformed.baseUrl}/paid`);
+    assert.equal(res.status, 402);
+    assert.doesNotMatch(res.headers.get('www-authenticate') || '', /invoice="/);
+  } finally {
+    await malformed.close();
+  }
+});
+
+test('scenarios: expiring macaroons are re-challenged once the caveat passes', async () => {
+  let clock = 1_700_000_000_000;
+  const srv = await startMockL402Server({ scenario: 'expiring-macaroon', lightning: { ttlSeconds: 2, now: () => clock } });
+  try {
+    const first = await fetch(`${srv.baseUrl}/paid`);
+    const { macaroon, invoice } = await first.json();
+    const { preimage } = (await createMockPayer(srv.node)({ invoice })) as { preimage: string };
+    const authorization = `L402 ${macaroon}:${preimage}`;
+
+    assert.equal((await fetch(`${srv.baseUrl}/paid`, { headers: { authorization } })).status, 200);
+    clock += 3000;
+    const stale = await fetch(`${srv.baseUrl}/paid`, { headers: { authorization } });
+    assert.equal(stale.status, 402);
+    assert.notEqual((await stale.json()).invoice, invoice);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('scenarios: redirect after payment goes to a different origin', async () => {
+  const srv = await startMockL402Server({ scenario: 'redirect-after-payment' });
+  try {
+    const res = await fetch(`${srv.baseUrl}/paid?x=1`, { headers: PROOF, redirect: 'manual' });
+    assert.equal(res.status, 307);
+    const location = new URL(res.headers.get('location')!);
+    assert.notEqual(location.origin, new URL(srv.baseUrl).origin);
+    assert.equal(location.pathname + location.search, '/paid?x=1');
+
+    const followed = await fetch(location, { headers: PROOF });
+    assert.deepEqual(await followed.json(), { ok: true, redirected: true, receivedProof: true });
+  } finally {
+    await srv.close();
+  }
+});
+
+test('scenarios: fetchWithL402 follows a cross-origin redirect without the paid credential', async () => {
+  for (const proofHeader of ['x-l402-proof', 'x-custom-proof']) {
+    const srv = await startMockL402Server({ scenario: 'redirect-after-payment', proofHeader });
+    try {
+      const res = await fetchWithL402(`${srv.baseUrl}/paid`, { method: 'POST', body: 'q=1' }, { pay: srv.pay, proofHeader });
+      assert.deepEqual(await res.json(), { ok: true, redirected: true, receivedProof: false }, proofHeader);
+    } finally {
+      await srv.close();
+    }
+  }
+});
+
+test('scenarios: scripted steps run per request, then normal behaviour resumes', async () => {
+  const srv = await startMockL402Server({
+    script: ['challenge', { status: 503, headers: { 'retry-after': '1' }, body: { busy: true } }, 'default', 'ok']
+  });
+  try {
+    assert.equal((await fetch(`${srv.baseUrl}/paid`, { headers: PROOF })).status, 402);
+    const busy = await fetch(`${srv.baseUrl}/paid`, { headers: PROOF });
+    assert.equal(busy.status, 503);
+    assert.deepEqual(await busy.json(), { busy: true });
+    assert.equal((await fetch(`${srv.baseUrl}/paid`)).status, 402);
+    assert.equal((await fetch(`${srv.baseUrl}/paid`)).status, 200);
+    assert.equal((await fetch(`${srv.baseUrl}/paid`)).status, 402);
+  } finally {
+    await srv.close();
+  }
+});
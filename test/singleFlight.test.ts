@@ -0,0 +1,167 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import http from 'node:http';
+
+import {
+  createL402Fetch,
+  createL402SingleFlight,
+  defaultSingleFlightKey,
+  fetchWithL402,
+  l402Middleware,
+  type PayFn
+} from '../src/index.js';
+import { encodeL402Identifier, mintMacaroon, serializeMacaroon } from '../src/macaroon.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Paywall that mints a fresh invoice + macaroon for every 402, like Aperture. */
+async function paywall() {
+  const preimages = new Map<string, string>();
+  const l402 = l402Middleware({
+    rootKey: 'single-flight',
+    price: 10,
+    ttlSeconds: 3600,
+    caveats: () => ['services=api:0'],
+    caveatSatisfiers: { services: () => true },
+    issueInvoice: async () => {
+      const preimage = crypto.randomBytes(32).toString('hex');
+      const paymentHash = crypto.createHash('sha256').update(Buffer.from(preimage, 'hex')).digest('hex');
+      const invoice = `lnbcrt10mock${paymentHash.slice(0, 16)}`;
+      preimages.set(invoice, preimage);
+      return { invoice, paymentHash };
+    }
+  });
+  const server = http.createServer((req, res) => {
+    l402(req, res, () => res.end('ok'));
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.listen(0, '127.0.0.1', () => resolve());
+    server.on('error', reject);
+  });
+  const addr = server.address();
+  if (!addr || typeof addr === 'string') throw new Error('failed to bind');
+  return {
+    preimages,
+    baseUrl: `http://127.0.0.1:${addr.port}`,
+    close: () => new Promise<void>((resolve, reject) => server.close((err?: any) => (err ? reject(err) : resolve())))
+  };
+}
+
+test('single flight: 20 parallel requests share one payment', async () => {
+  const srv = await paywall();
+  try {
+    let payCalls = 0;
+    const l402Fetch = createL402Fetch({
+      pay: async (challenge) => {
+        payCalls += 1;
+        await sleep(50);
+        return { preimage: srv.preimages.get(challenge.invoice)! };
+      }
+    });
+
+    const responses = await Promise.all(Array.from({ length: 20 }, (_, i) => l402Fetch(`${srv.baseUrl}/item/${i}`)));
+    assert.deepEqual(
+      responses.map((r) => r.status),
+      Array(20).fill(200)
+    );
+    assert.equal(payCalls, 1);
+    assert.equal(srv.preimages.size, 20);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('single flight: a waiter takes over when the leader fails', async () => {
+  const srv = await paywall();
+  try {
+    let payCalls = 0;
+    const singleFlight = createL402SingleFlight();
+    const pay: PayFn = async (challenge) => {
+      payCalls += 1;
+      await sleep(30);
+      if (payCalls === 1) throw new Error('leader aborted');
+      return { preimage: srv.preimages.get(challenge.invoice)! };
+    };
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, () => fetchWithL402(`${srv.baseUrl}/paid`, undefined, { pay, singleFlight }))
+    );
+    const rejected = results.filter((r) => r.status === 'rejected');
+    assert.equal(rejected.length, 1);
+    assert.equal((rejected[0] as PromiseRejectedResult).reason.message, 'leader aborted');
+    for (const r of results) if (r.status === 'fulfilled') assert.equal(r.value.status, 200);
+    assert.equal(payCalls, 2);
+    assert.equal(singleFlight.size(), 0);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('single flight: an aborted waiter stops waiting without disturbing the leader', async () => {
+  const srv = await paywall();
+  try {
+    const singleFlight = createL402SingleFlight();
+    const pay: PayFn = async (challenge) => {
+      await sleep(80);
+      return { preimage: srv.preimages.get(challenge.invoice)! };
+    };
+
+    const leader = fetchWithL402(`${srv.baseUrl}/a`, undefined, { pay, singleFlight });
+    await sleep(20);
+    const controller = new AbortController();
+    const waiter = fetchWithL402(`${srv.baseUrl}/b`, { signal: controller.signal }, { pay, singleFlight });
+    await sleep(20);
+    controller.abort(new Error('caller gave up'));
+
+    await assert.rejects(waiter, /caller gave up/);
+    assert.equal((await leader).status, 200);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('single flight: keeps the last credential for at most maxRecent keys', async () => {
+  const flight = createL402SingleFlight({ key: (url) => url.pathname, maxRecent: 2 });
+  let paid = 0;
+  const pay = async () => ({ header: 'authorization', value: `L402 m:${++paid}`, createdAt: Date.now() });
+  const run = (path: string, requestedAt: number) =>
+    flight.run(new URL(`http://example.test${path}`), { invoice: 'lnbc1' }, pay, { requestedAt });
+
+  const before = Date.now() - 1000;
+  for (const path of ['/a', '/b', '/c']) await run(path, before);
+  assert.equal(paid, 3);
+
+  // A 402 sent before the payments landed reuses a remembered credential...
+  const reused = await run('/c', before);
+  assert.equal(reused.leader, false);
+  assert.equal(reused.token.value, 'L402 m:3');
+  // ...but `/a` was evicted, so it pays again.
+  assert.equal((await run('/a', before)).leader, true);
+  assert.equal(paid, 4);
+});
+
+test('defaultSingleFlightKey: origin plus macaroon grant, ignoring expiry and payment hash', () => {
+  const macaroon = (caveats: string[]) =>
+    serializeMacaroon(
+      mintMacaroon({
+        rootKey: 'k',
+        identifier: encodeL402Identifier({ paymentHash: crypto.randomBytes(32).toString('hex') }),
+        caveats
+      })
+    );
+  const url = new URL('https://api.example.com/v1/x');
+  const key = (caveats: string[], u = url) =>
+    defaultSingleFlightKey(u, { invoice: 'lnbc1', meta: { macaroon: macaroon(caveats) } });
+
+  assert.equal(key(['services=api:0', 'expires=1']), key(['services=api:0', 'expires=2']));
+  assert.notEqual(key(['services=api:0']), key(['services=api:1']));
+  assert.notEqual(key(['services=api:0']), key(['services=api:0'], new URL('https://other.example.com/')));
+  assert.equal(defaultSingleFlightKey(url, { invoice: 'a' }), defaultSingleFlightKey(url, { invoice: 'b' }));
+
+  // Opaque or missing macaroons fall back to the path, so sibling paywalls don't share a payment.
+  const opaque = (u: URL) => defaultSingleFlightKey(u, { invoice: 'lnbc1', meta: { macaroon: 'not-a-macaroon' } });
+  assert.equal(opaque(url), opaque(new URL('https://api.example.com/v1/x?page=2')));
+  assert.notEqual(opaque(url), opaque(new URL('https://api.example.com/v1/y')));
+  assert.notEqual(defaultSingleFlightKey(url, { invoice: 'a' }), defaultSingleFlightKey(new URL('https://api.example.com/v1/y'), { invoice: 'a' }));
+});
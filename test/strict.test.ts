@@ -0,0 +1,146 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+
+import {
+  fetchWithL402,
+  l402Middleware,
+  L402ChallengeParseError,
+  L402FetchError,
+  L402PayerError,
+  L402PaymentFailedError,
+  L402ProofRejectedError,
+  L402RetriesExhaustedError
+} from '../src/index.js';
+import { startMockL402Server } from '../src/mock_server.js';
+
+async function listen(handler: http.RequestListener) {
+  const server = http.createServer(handler);
+  await new Promise<void>((resolve, reject) => {
+    server.listen(0, '127.0.0.1', () => resolve());
+    server.on('error', reject);
+  });
+  const addr = server.address();
+  if (!addr || typeof addr === 'string') throw new Error('failed to bind');
+  return {
+    baseUrl: `http://127.0.0.1:${addr.port}`,
+    close: () => new Promise<void>((resolve, reject) => server.close((err?: any) => (err ? reject(err) : resolve())))
+  };
+}
+
+/** Resolves with the rejection reason (assert.rejects validators cannot await response bodies). */
+async function rejection(p: Promise<unknown>): Promise<unknown> {
+  try {
+    await p;
+  } catch (err) {
+    return err;
+  }
+  assert.fail('expected rejection');
+}
+
+test('fetchWithL402 strict: unparsable challenge throws L402ChallengeParseError with a readable response', async () => {
+  const srv = await listen((_req, res) => {
+    res.writeHead(402, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ message: 'pay up' }));
+  });
+  try {
+    // Non-strict still returns the 402, and its body is no longer consumed.
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, { pay: async () => ({ proof: 'x' }) });
+    assert.equal(res.status, 402);
+    assert.deepEqual(await res.json(), { message: 'pay up' });
+
+    const err = await rejection(
+      fetchWithL402(`${srv.baseUrl}/paid`, undefined, { strict: true, pay: async () => ({ proof: 'x' }) })
+    );
+    assert.ok(err instanceof L402ChallengeParseError);
+    assert.ok(err instanceof L402FetchError);
+    assert.equal(err.attempts, 0);
+    assert.equal(err.challenge, undefined);
+    assert.deepEqual(await err.response.json(), { message: 'pay up' });
+  } finally {
+    await srv.close();
+  }
+});
+
+test('fetchWithL402 strict: L402RetriesExhaustedError when the server keeps asking for payment', async () => {
+  const srv = await startMockL402Server({ requiredProof: 'paid', uniqueInvoices: true });
+  try {
+    let payCalls = 0;
+    const err = await rejection(
+      fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+        strict: true,
+        max402Retries: 2,
+        pay: async () => {
+          payCalls += 1;
+          return { proof: 'wrong' };
+        }
+      })
+    );
+    assert.ok(err instanceof L402RetriesExhaustedError);
+    assert.equal(err.attempts, 2);
+    assert.equal(err.challenge?.invoice, 'lnbc1mockinvoice3');
+    assert.equal(err.response.status, 402);
+    assert.equal((await err.response.json()).invoice, 'lnbc1mockinvoice3');
+    assert.equal(payCalls, 2);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('fetchWithL402 strict: L402PaymentFailedError wraps the payer error', async () => {
+  const srv = await startMockL402Server();
+  try {
+    const cause = new L402PayerError({ payer: 'nwc', code: 'INSUFFICIENT_BALANCE', message: 'broke' });
+    await assert.rejects(
+      fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+        strict: true,
+        pay: async () => {
+          throw cause;
+        }
+      }),
+      (err: unknown) => {
+        assert.ok(err instanceof L402PaymentFailedError);
+        assert.equal(err.cause, cause);
+        assert.equal(err.attempts, 0);
+        assert.equal(err.challenge?.invoice, 'lnbc1mockinvoice');
+        return true;
+      }
+    );
+
+    // Non-strict rethrows the payer's error unchanged.
+    await assert.rejects(
+      fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+        pay: async () => {
+          throw cause;
+        }
+      }),
+      (err: unknown) => err === cause
+    );
+  } finally {
+    await srv.close();
+  }
+});
+
+test('fetchWithL402 strict: L402ProofRejectedError on 401 to a freshly paid credential', async () => {
+  const l402 = l402Middleware({
+    rootKey: 'strict-test',
+    price: 1,
+    issueInvoice: async () => ({ invoice: 'lnbcrt1mockinvoice', paymentHash: '11'.repeat(32) })
+  });
+  const srv = await listen((req, res) => {
+    l402(req, res, () => res.end('ok'));
+  });
+  try {
+    const pay = async () => ({ preimage: '00'.repeat(32) });
+    const plain = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, { pay });
+    assert.equal(plain.status, 401);
+
+    const err = await rejection(fetchWithL402(`${srv.baseUrl}/paid`, undefined, { strict: true, pay }));
+    assert.ok(err instanceof L402ProofRejectedError);
+    assert.equal(err.attempts, 1);
+    assert.equal(err.challenge?.invoice, 'lnbcrt1mockinvoice');
+    assert.equal((await err.response.json()).reason, 'invalid_preimage');
+  } finally {
+    await srv.close();
+  }
+});
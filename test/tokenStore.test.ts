@@ -0,0 +1,141 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createMemoryTokenStore, defaultTokenKey, fetchWithL402, type StoredToken, type TokenStore } from '../src/index.js';
+import { startMockL402Server } from '../src/mock_server.js';
+
+test('defaultTokenKey: scopes by origin + path, so sibling paywalls do not share a credential', () => {
+  assert.equal(defaultTokenKey(new URL('https://api.example.com/v1/paid/thing?x=1')), 'https://api.example.com/v1/paid/thing');
+  assert.notEqual(defaultTokenKey(new URL('https://api.example.com/api/a')), defaultTokenKey(new URL('https://api.example.com/api/b')));
+  assert.equal(defaultTokenKey(new URL('https://api.example.com')), 'https://api.example.com/');
+});
+
+test('createMemoryTokenStore: drops expired tokens', () => {
+  let now = 1000;
+  const store = createMemoryTokenStore({ now: () => now });
+  store.set('k', { header: 'authorization', value: 'v', createdAt: now, expiresAt: 2000 });
+  assert.equal(store.get('k')?.value, 'v');
+  now = 2000;
+  assert.equal(store.get('k'), undefined);
+  assert.equal(store.size(), 0);
+});
+
+test('fetchWithL402: reuses a cached credential instead of paying again', async () => {
+  const srv = await startMockL402Server({
+    challengeInHeader: true,
+    proofHeader: 'authorization',
+    requiredProof: 'L402 mockmacaroon:deadbeef'
+  });
+  try {
+    const tokenStore = createMemoryTokenStore();
+    let payCalls = 0;
+    const opts = {
+      tokenStore,
+      pay: async () => {
+        payCalls += 1;
+        return { preimage: 'deadbeef' };
+      }
+    };
+
+    const first = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, opts);
+    assert.equal(first.status, 200);
+    assert.equal(tokenStore.size(), 1);
+    assert.equal(tokenStore.get(`${srv.baseUrl}/paid`)?.macaroon, 'mockmacaroon');
+
+    const second = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, opts);
+    assert.equal(second.status, 200);
+    assert.equal(payCalls, 1);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('fetchWithL402: skips an expired credential from a store that does not check expiry', async () => {
+  const srv = await startMockL402Server({
+    challengeInHeader: true,
+    proofHeader: 'authorization',
+    requiredProof: 'L402 mockmacaroon:deadbeef'
+  });
+  try {
+    const tokens = new Map<string, StoredToken>();
+    const tokenStore: TokenStore = {
+      get: (key) => tokens.get(key),
+      set: (key, token) => void tokens.set(key, token),
+      delete: (key) => void tokens.delete(key)
+    };
+    tokens.set(`${srv.baseUrl}/paid`, {
+      header: 'authorization',
+      value: 'L402 oldmacaroon:00',
+      createdAt: Date.now() - 2000,
+      expiresAt: Date.now() - 1000
+    });
+
+    const sent: Array<string | null> = [];
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+      tokenStore,
+      fetch: (input, init) => {
+        sent.push(new Headers(init?.headers).get('authorization'));
+        return fetch(input, init);
+      },
+      pay: async () => ({ preimage: 'deadbeef' })
+    });
+    assert.equal(res.status, 200);
+    assert.deepEqual(sent, [null, 'L402 mockmacaroon:deadbeef']);
+    assert.equal(tokens.get(`${srv.baseUrl}/paid`)?.macaroon, 'mockmacaroon');
+  } finally {
+    await srv.close();
+  }
+});
+
+test('fetchWithL402: falls back to pay+retry when a cached credential is rejected', async () => {
+  let validProof = 'first';
+  let invoices = 0;
+  const { baseUrl, close } = await (async () => {
+    const http = await import('node:http');
+    const server = http.createServer((req: any, res: any) => {
+      const proof = req.headers['x-l402-proof'] ? String(req.headers['x-l402-proof']) : '';
+      if (proof !== validProof) {
+        res.writeHead(402, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ invoice: `lnbc1mockinvoice${++invoices}` }));
+        return;
+      }
+
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ ok: true, paid: true }));
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.listen(0, '127.0.0.1', () => resolve());
+      server.on('error', reject);
+    });
+    const addr = server.address();
+    if (!addr || typeof addr === 'string') throw new Error('failed to bind');
+    return {
+      baseUrl: `http://127.0.0.1:${addr.port}`,
+      close: () => new Promise<void>((resolve, reject) => server.close((err?: any) => (err ? reject(err) : resolve())))
+    };
+  })();
+
+  try {
+    const tokenStore = createMemoryTokenStore();
+    let payCalls = 0;
+    const opts = {
+      tokenStore,
+      pay: async () => {
+        payCalls += 1;
+        return { proof: validProof };
+      }
+    };
+
+    assert.equal((await fetchWithL402(`${baseUrl}/paid`, undefined, opts)).status, 200);
+    assert.equal(tokenStore.get(`${baseUrl}/paid`)?.value, 'first');
+
+    // Server revokes the old credential.
+    validProof = 'second';
+    const res = await fetchWithL402(`${baseUrl}/paid`, undefined, opts);
+    assert.equal(res.status, 200);
+    assert.equal(payCalls, 2);
+    assert.equal(tokenStore.get(`${baseUrl}/paid`)?.value, 'second');
+  } finally {
+    await close();
+  }
+});
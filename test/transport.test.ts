@@ -0,0 +1,167 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  createL402AxiosInterceptor,
+  createL402Fetch,
+  createMemoryTokenStore,
+  fetchWithL402,
+  L402UnsafeRedirectError
+} from '../src/index.js';
+import { startMockL402Server } from '../src/mock_server.js';
+
+test('fetchWithL402: sends every attempt through opts.fetch', async () => {
+  const srv = await startMockL402Server();
+  try {
+    const seen: Array<string | null> = [];
+    const res = await fetchWithL402(`${srv.baseUrl}/paid`, undefined, {
+      pay: async () => ({ proof: 'paid' }),
+      fetch: async (input, init) => {
+        seen.push(new Headers(init?.headers).get('x-l402-proof'));
+        return fetch(input, init);
+      }
+    });
+    assert.equal(res.status, 200);
+    assert.deepEqual(seen, [null, 'paid']);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('createL402Fetch: returns a drop-in fetch', async () => {
+  const srv = await startMockL402Server();
+  try {
+    let payCalls = 0;
+    const l402Fetch = createL402Fetch({
+      pay: async () => {
+        payCalls += 1;
+        return { proof: 'paid' };
+      }
+    });
+    const res = await l402Fetch(`${srv.baseUrl}/paid`, { headers: { accept: 'application/json' } });
+    assert.deepEqual(await res.json(), { ok: true, paid: true });
+    assert.equal((await l402Fetch(`${srv.baseUrl}/healthz`)).status, 200);
+    assert.equal(payCalls, 1);
+  } finally {
+    await srv.close();
+  }
+});
+
+/**
+ * Just enough of axios: baseURL, method/data, `maxRedirects: 0`, rejects on >= 400 with `error.response`,
+ * response error interceptors.
+ */
+function fakeAxios(baseURL: string) {
+  const rejected: Array<(err: any) => any> = [];
+  const client = {
+    requests: [] as any[],
+    interceptors: {
+      response: {
+        use: (_onFulfilled: unknown, onRejected: (err: any) => any) => rejected.push(onRejected)
+      }
+    },
+    getUri: (config: any) => new URL(config.url, config.baseURL ?? baseURL).href,
+    async request(config: any): Promise<any> {
+      client.requests.push(config);
+      const res = await fetch(new URL(config.url, config.baseURL ?? baseURL), {
+        method: config.method || 'GET',
+        headers: config.headers,
+        body: config.data,
+        redirect: config.maxRedirects === 0 ? 'manual' : 'follow'
+      });
+      const response = {
+        status: res.status,
+        statusText: res.statusText,
+        headers: Object.fromEntries(res.headers),
+        data: await res.json().catch(() => undefined),
+        config
+      };
+      if (res.status < 400) return response;
+      let outcome: Promise<any> = Promise.reject(Object.assign(new Error(`status ${res.status}`), { response, config }));
+      for (const onRejected of rejected) outcome = outcome.catch(onRejected);
+      return outcome;
+    }
+  };
+  return client;
+}
+
+test('createL402AxiosInterceptor: pays and retries through the client', async () => {
+  const srv = await startMockL402Server({
+    challengeInHeader: true,
+    proofHeader: 'authorization',
+    requiredProof: 'L402 mockmacaroon:pre'
+  });
+  try {
+    const client = fakeAxios(srv.baseUrl);
+    const pay = async () => ({ preimage: 'pre' });
+    client.interceptors.response.use(undefined, createL402AxiosInterceptor(client, { pay }));
+
+    const res = await client.request({ url: '/paid', headers: { 'x-trace': '1' } });
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.data, { ok: true, paid: true });
+    assert.equal(client.requests.length, 2);
+    assert.deepEqual(client.requests[1].headers, { 'x-trace': '1', authorization: 'L402 mockmacaroon:pre' });
+
+    // A rejected proof surfaces as the client's own error for the final attempt; other errors pass through.
+    const bad = fakeAxios(srv.baseUrl);
+    const payWrong = async () => ({ preimage: 'wrong' });
+    bad.interceptors.response.use(undefined, createL402AxiosInterceptor(bad, { pay: payWrong }));
+    await assert.rejects(bad.request({ url: '/paid' }), (err: any) => err.response.status === 402);
+    assert.equal(bad.requests.length, 2);
+    await assert.rejects(bad.request({ url: '/missing' }), (err: any) => err.response.status === 404);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('createL402AxiosInterceptor: follows a redirect after payment without leaking the credential', async () => {
+  const srv = await startMockL402Server({ scenario: 'redirect-after-payment' });
+  try {
+    const client = fakeAxios(srv.baseUrl);
+    client.interceptors.response.use(undefined, createL402AxiosInterceptor(client, { pay: srv.pay }));
+
+    const res = await client.request({ url: '/paid', method: 'POST', data: 'q=1' });
+    assert.deepEqual(res.data, { ok: true, redirected: true, receivedProof: false });
+    // 402, paid retry (307), then the hop to the second origin: same method and body, no credential.
+    assert.equal(client.requests.length, 3);
+    const hop = client.requests[2];
+    assert.notEqual(new URL(hop.url).origin, srv.baseUrl);
+    assert.equal(hop.method, 'POST');
+    assert.equal(hop.data, 'q=1');
+    assert.equal(hop.headers['x-l402-proof'], undefined);
+  } finally {
+    await srv.close();
+  }
+});
+
+test('fetchWithL402: opaque manual redirects keep a custom-header credential from being resent blindly', async () => {
+  const srv = await startMockL402Server();
+  try {
+    // What a browser fetch returns for `redirect: 'manual'`: status 0, no Location.
+    const browserish: typeof fetch = async (input, init) => {
+      if (init?.redirect !== 'manual') return fetch(input, init);
+      const opaque = new Response(null, { status: 200 });
+      Object.defineProperties(opaque, { type: { value: 'opaqueredirect' }, status: { value: 0 } });
+      return opaque;
+    };
+
+    const tokenStore = createMemoryTokenStore();
+    await assert.rejects(
+      fetchWithL402(`${srv.baseUrl}/paid`, undefined, { pay: srv.pay, fetch: browserish, tokenStore }),
+      (err: any) => err instanceof L402UnsafeRedirectError && err.header === 'x-l402-proof'
+    );
+    // The payment is not lost.
+    assert.equal(tokenStore.get(`${srv.baseUrl}/paid`)?.value, 'paid');
+
+    // `fetch` itself strips Authorization across origins, so that credential is handed back to it.
+    const header = await startMockL402Server({ proofHeader: 'authorization', requiredProof: 'paid' });
+    try {
+      const res = await fetchWithL402(`${header.baseUrl}/paid`, undefined, { pay: header.pay, fetch: browserish, proofHeader: 'authorization' });
+      assert.equal(res.status, 200);
+    } finally {
+      await header.close();
+    }
+  } finally {
+    await srv.close();
+  }
+});